@@ -0,0 +1,127 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { accrualPolicies, insertAccrualPolicySchema } from "../shared/schema.ts";
+import { runAccruals } from "../shared/accruals.ts";
+import { desc, eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get all accrual policies (admin only)
+router.get("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const policies = await db
+      .select()
+      .from(accrualPolicies)
+      .orderBy(desc(accrualPolicies.createdAt));
+
+    res.json(policies);
+  } catch (error) {
+    console.error("Error fetching accrual policies:", error);
+    res.status(500).json({ message: "Failed to fetch accrual policies" });
+  }
+});
+
+// Create accrual policy (admin only)
+router.post("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = insertAccrualPolicySchema.parse(req.body);
+
+    const [policy] = await db
+      .insert(accrualPolicies)
+      .values(validatedData)
+      .returning();
+
+    res.status(201).json(policy);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    // Foreign key violation: the leave type doesn't exist
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Unknown leave type" });
+    }
+
+    console.error("Error creating accrual policy:", error);
+    res.status(500).json({ message: "Failed to create accrual policy" });
+  }
+});
+
+// Post all accruals due up to `asOf` (defaults to today, admin only)
+router.post("/run", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { asOf } = req.body;
+
+    if (asOf !== undefined && (typeof asOf !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(asOf))) {
+      return res.status(400).json({ message: "asOf must be in YYYY-MM-DD format" });
+    }
+
+    const result = await runAccruals(db, asOf);
+    res.json(result);
+  } catch (error) {
+    console.error("Error running accruals:", error);
+    res.status(500).json({ message: "Failed to run accruals" });
+  }
+});
+
+// Update accrual policy (admin only)
+router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = insertAccrualPolicySchema.parse(req.body);
+
+    const [policy] = await db
+      .update(accrualPolicies)
+      .set(validatedData)
+      .where(eq(accrualPolicies.id, id))
+      .returning();
+
+    if (!policy) {
+      return res.status(404).json({ message: "Accrual policy not found" });
+    }
+
+    res.json(policy);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Unknown leave type" });
+    }
+
+    console.error("Error updating accrual policy:", error);
+    res.status(500).json({ message: "Failed to update accrual policy" });
+  }
+});
+
+// Delete accrual policy (admin only); days already accrued stay in the ledger
+router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [policy] = await db
+      .delete(accrualPolicies)
+      .where(eq(accrualPolicies.id, id))
+      .returning();
+
+    if (!policy) {
+      return res.status(404).json({ message: "Accrual policy not found" });
+    }
+
+    res.json({ message: "Accrual policy deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting accrual policy:", error);
+    res.status(500).json({ message: "Failed to delete accrual policy" });
+  }
+});
+
+export default router;
@@ -0,0 +1,96 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { approvalChains, insertApprovalChainSchema } from "../shared/schema.ts";
+import { findInvalidApprovers, getApprovalChains, saveApprovalChain } from "../shared/approvals.ts";
+import { eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get approval chains with their steps, in matching order (admin only)
+router.get("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const chains = await getApprovalChains(db);
+    res.json(chains);
+  } catch (error) {
+    console.error("Error fetching approval chains:", error);
+    res.status(500).json({ message: "Failed to fetch approval chains" });
+  }
+});
+
+// Create approval chain (admin only)
+router.post("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = insertApprovalChainSchema.parse(req.body);
+
+    if ((await findInvalidApprovers(db, validatedData.steps)).length > 0) {
+      return res.status(400).json({ message: "Named approvers must be managers or admins" });
+    }
+
+    const chain = await saveApprovalChain(db, validatedData);
+    res.status(201).json(chain);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error creating approval chain:", error);
+    res.status(500).json({ message: "Failed to create approval chain" });
+  }
+});
+
+// Update approval chain and replace its steps (admin only)
+router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = insertApprovalChainSchema.parse(req.body);
+
+    if ((await findInvalidApprovers(db, validatedData.steps)).length > 0) {
+      return res.status(400).json({ message: "Named approvers must be managers or admins" });
+    }
+
+    const chain = await saveApprovalChain(db, validatedData, id);
+    if (!chain) {
+      return res.status(404).json({ message: "Approval chain not found" });
+    }
+
+    res.json(chain);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error updating approval chain:", error);
+    res.status(500).json({ message: "Failed to update approval chain" });
+  }
+});
+
+// Delete approval chain (admin only); requests keep the steps they started with
+router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [chain] = await db
+      .delete(approvalChains)
+      .where(eq(approvalChains.id, id))
+      .returning();
+
+    if (!chain) {
+      return res.status(404).json({ message: "Approval chain not found" });
+    }
+
+    res.json({ message: "Approval chain deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting approval chain:", error);
+    res.status(500).json({ message: "Failed to delete approval chain" });
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { approvalSlaSchema } from "../shared/schema.ts";
+import { getApprovalSla, runEscalations, saveApprovalSla } from "../shared/escalations.ts";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { sendEscalationNotifications } from "./lib/slack.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get the reminder and escalation thresholds (admin only)
+router.get("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const sla = await getApprovalSla(db);
+    res.json(sla);
+  } catch (error) {
+    console.error("Error fetching approval SLA:", error);
+    res.status(500).json({ message: "Failed to fetch approval SLA" });
+  }
+});
+
+// Change the reminder and escalation thresholds (admin only)
+router.put("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = approvalSlaSchema.parse(req.body);
+    const sla = await saveApprovalSla(db, validatedData, req.user.id);
+    res.json(sla);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    console.error("Error saving approval SLA:", error);
+    res.status(500).json({ message: "Failed to save approval SLA" });
+  }
+});
+
+// Remind and escalate requests past the thresholds now (admin only)
+router.post("/run", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = await runEscalations(db);
+
+    try {
+      await sendEscalationNotifications(result);
+    } catch (slackError) {
+      console.error("Failed to send Slack notification:", slackError);
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error("Error running escalations:", error);
+    res.status(500).json({ message: "Failed to run escalations" });
+  }
+});
+
+export default router;
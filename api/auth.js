@@ -3,6 +3,7 @@ import passport from "passport";
 import bcrypt from "bcrypt";
 import { db } from "./lib/db.js";
 import { users, insertUserSchema } from "../shared/schema.ts";
+import { grantDefaultBalances } from "../shared/leaveBalances.ts";
 import { eq } from "drizzle-orm";
 import { ZodError } from "zod";
 
@@ -76,10 +77,11 @@ router.post("/register", async (req, res) => {
         ...validatedData,
         password: hashedPassword,
         role: validatedData.role || "employee",
-        leaveBalance: validatedData.leaveBalance || 25,
       })
       .returning();
 
+    await grantDefaultBalances(db, newUser.id);
+
     const { password, ...userWithoutPassword } = newUser;
     res.status(201).json({ 
       message: "User created successfully", 
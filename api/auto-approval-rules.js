@@ -0,0 +1,106 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { autoApprovalRules, insertAutoApprovalRuleSchema } from "../shared/schema.ts";
+import { getAutoApprovalRules } from "../shared/autoApproval.ts";
+import { eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get auto-approval rules, in matching order (admin only)
+router.get("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const rules = await getAutoApprovalRules(db);
+    res.json(rules);
+  } catch (error) {
+    console.error("Error fetching auto-approval rules:", error);
+    res.status(500).json({ message: "Failed to fetch auto-approval rules" });
+  }
+});
+
+// Create auto-approval rule (admin only)
+router.post("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = insertAutoApprovalRuleSchema.parse(req.body);
+
+    const [rule] = await db
+      .insert(autoApprovalRules)
+      .values(validatedData)
+      .returning();
+
+    res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    // Foreign key violation: the leave type doesn't exist
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Unknown leave type" });
+    }
+
+    console.error("Error creating auto-approval rule:", error);
+    res.status(500).json({ message: "Failed to create auto-approval rule" });
+  }
+});
+
+// Update auto-approval rule (admin only)
+router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = insertAutoApprovalRuleSchema.parse(req.body);
+
+    const [rule] = await db
+      .update(autoApprovalRules)
+      .set(validatedData)
+      .where(eq(autoApprovalRules.id, id))
+      .returning();
+
+    if (!rule) {
+      return res.status(404).json({ message: "Auto-approval rule not found" });
+    }
+
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Unknown leave type" });
+    }
+
+    console.error("Error updating auto-approval rule:", error);
+    res.status(500).json({ message: "Failed to update auto-approval rule" });
+  }
+});
+
+// Delete auto-approval rule (admin only); approved requests keep the rule's name
+router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [rule] = await db
+      .delete(autoApprovalRules)
+      .where(eq(autoApprovalRules.id, id))
+      .returning();
+
+    if (!rule) {
+      return res.status(404).json({ message: "Auto-approval rule not found" });
+    }
+
+    res.json({ message: "Auto-approval rule deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting auto-approval rule:", error);
+    res.status(500).json({ message: "Failed to delete auto-approval rule" });
+  }
+});
+
+export default router;
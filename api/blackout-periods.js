@@ -0,0 +1,106 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { blackoutPeriods, insertBlackoutPeriodSchema } from "../shared/schema.ts";
+import { getBlackoutPeriods } from "../shared/blackoutPeriods.ts";
+import { eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get blackout periods; everyone can list them to see which dates are closed
+router.get("/", requireAuth, async (req, res) => {
+  try {
+    const periods = await getBlackoutPeriods(db);
+    res.json(periods);
+  } catch (error) {
+    console.error("Error fetching blackout periods:", error);
+    res.status(500).json({ message: "Failed to fetch blackout periods" });
+  }
+});
+
+// Create blackout period (admin only)
+router.post("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = insertBlackoutPeriodSchema.parse(req.body);
+
+    const [period] = await db
+      .insert(blackoutPeriods)
+      .values(validatedData)
+      .returning();
+
+    res.status(201).json(period);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    // Foreign key violation: the team or leave type doesn't exist
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Unknown team or leave type" });
+    }
+
+    console.error("Error creating blackout period:", error);
+    res.status(500).json({ message: "Failed to create blackout period" });
+  }
+});
+
+// Update blackout period (admin only)
+router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = insertBlackoutPeriodSchema.parse(req.body);
+
+    const [period] = await db
+      .update(blackoutPeriods)
+      .set(validatedData)
+      .where(eq(blackoutPeriods.id, id))
+      .returning();
+
+    if (!period) {
+      return res.status(404).json({ message: "Blackout period not found" });
+    }
+
+    res.json(period);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Unknown team or leave type" });
+    }
+
+    console.error("Error updating blackout period:", error);
+    res.status(500).json({ message: "Failed to update blackout period" });
+  }
+});
+
+// Delete blackout period (admin only)
+router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [period] = await db
+      .delete(blackoutPeriods)
+      .where(eq(blackoutPeriods.id, id))
+      .returning();
+
+    if (!period) {
+      return res.status(404).json({ message: "Blackout period not found" });
+    }
+
+    res.json({ message: "Blackout period deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting blackout period:", error);
+    res.status(500).json({ message: "Failed to delete blackout period" });
+  }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { carryOverRules, insertCarryOverRuleSchema } from "../shared/schema.ts";
+import { eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get all carry-over rules (admin only)
+router.get("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const rules = await db
+      .select()
+      .from(carryOverRules)
+      .orderBy(carryOverRules.leaveType);
+
+    res.json(rules);
+  } catch (error) {
+    console.error("Error fetching carry-over rules:", error);
+    res.status(500).json({ message: "Failed to fetch carry-over rules" });
+  }
+});
+
+// Create or replace the carry-over rule for a leave type (admin only)
+router.put("/:leaveType", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { leaveType } = req.params;
+    const validatedData = insertCarryOverRuleSchema.parse({ ...req.body, leaveType });
+
+    const [rule] = await db
+      .insert(carryOverRules)
+      .values(validatedData)
+      .onConflictDoUpdate({
+        target: carryOverRules.leaveType,
+        set: { maxDays: validatedData.maxDays, expiryMonths: validatedData.expiryMonths ?? null },
+      })
+      .returning();
+
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    // Foreign key violation: the leave type doesn't exist
+    if (error.code === "23503") {
+      return res.status(400).json({ message: "Unknown leave type" });
+    }
+
+    console.error("Error saving carry-over rule:", error);
+    res.status(500).json({ message: "Failed to save carry-over rule" });
+  }
+});
+
+// Remove the carry-over rule for a leave type (admin only)
+router.delete("/:leaveType", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { leaveType } = req.params;
+
+    const [rule] = await db
+      .delete(carryOverRules)
+      .where(eq(carryOverRules.leaveType, leaveType))
+      .returning();
+
+    if (!rule) {
+      return res.status(404).json({ message: "Carry-over rule not found" });
+    }
+
+    res.json({ message: "Carry-over rule deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting carry-over rule:", error);
+    res.status(500).json({ message: "Failed to delete carry-over rule" });
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { approvalDelegations, users, insertApprovalDelegationSchema } from "../shared/schema.ts";
+import { getDelegations } from "../shared/delegations.ts";
+import { eq, and } from "drizzle-orm";
+import { requireAuth, requireApprover } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get delegations given or received (every delegation with ?all=true, admin only)
+router.get("/", requireAuth, requireApprover, async (req, res) => {
+  try {
+    const everyone = req.query.all === "true" && req.user.role === "admin";
+    const delegations = await getDelegations(db, everyone ? null : req.user.id);
+    res.json(delegations);
+  } catch (error) {
+    console.error("Error fetching delegations:", error);
+    res.status(500).json({ message: "Failed to fetch delegations" });
+  }
+});
+
+// Delegate the signed-in approver's approval rights to another manager or admin
+router.post("/", requireAuth, requireApprover, async (req, res) => {
+  try {
+    const validatedData = insertApprovalDelegationSchema.parse(req.body);
+
+    if (validatedData.delegateId === req.user.id) {
+      return res.status(400).json({ message: "You cannot delegate to yourself" });
+    }
+
+    const [delegate] = await db
+      .select({ role: users.role })
+      .from(users)
+      .where(eq(users.id, validatedData.delegateId))
+      .limit(1);
+
+    if (!delegate || delegate.role === "employee") {
+      return res.status(400).json({ message: "Delegates must be managers or admins" });
+    }
+
+    const [delegation] = await db
+      .insert(approvalDelegations)
+      .values({ ...validatedData, delegatorId: req.user.id })
+      .returning();
+
+    res.status(201).json(delegation);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error creating delegation:", error);
+    res.status(500).json({ message: "Failed to create delegation" });
+  }
+});
+
+// Remove delegation (the delegator, or an admin)
+router.delete("/:id", requireAuth, requireApprover, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [delegation] = await db
+      .delete(approvalDelegations)
+      .where(req.user.role === "admin"
+        ? eq(approvalDelegations.id, id)
+        : and(eq(approvalDelegations.id, id), eq(approvalDelegations.delegatorId, req.user.id)))
+      .returning();
+
+    if (!delegation) {
+      return res.status(404).json({ message: "Delegation not found" });
+    }
+
+    res.json({ message: "Delegation removed successfully" });
+  } catch (error) {
+    console.error("Error deleting delegation:", error);
+    res.status(500).json({ message: "Failed to delete delegation" });
+  }
+});
+
+export default router;
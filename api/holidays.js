@@ -0,0 +1,161 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { holidays, insertHolidaySchema } from "../shared/schema.ts";
+import { parseIcsHolidays } from "../shared/ics.ts";
+import { eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get holidays for a calendar (defaults to the current user's calendar)
+router.get("/", requireAuth, async (req, res) => {
+  try {
+    const calendar = typeof req.query.calendar === "string"
+      ? req.query.calendar
+      : req.user.holidayCalendar;
+
+    const calendarHolidays = await db
+      .select()
+      .from(holidays)
+      .where(eq(holidays.calendar, calendar))
+      .orderBy(holidays.date);
+
+    res.json(calendarHolidays);
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    res.status(500).json({ message: "Failed to fetch holidays" });
+  }
+});
+
+// List known holiday calendars (admin only)
+router.get("/calendars", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const calendars = await db
+      .selectDistinct({ calendar: holidays.calendar })
+      .from(holidays)
+      .orderBy(holidays.calendar);
+
+    res.json(calendars.map((row) => row.calendar));
+  } catch (error) {
+    console.error("Error fetching holiday calendars:", error);
+    res.status(500).json({ message: "Failed to fetch holiday calendars" });
+  }
+});
+
+// Create holiday (admin only)
+router.post("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = insertHolidaySchema.parse(req.body);
+
+    const [holiday] = await db
+      .insert(holidays)
+      .values(validatedData)
+      .onConflictDoNothing()
+      .returning();
+
+    if (!holiday) {
+      return res.status(409).json({ message: "A holiday already exists on this date" });
+    }
+
+    res.status(201).json(holiday);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error creating holiday:", error);
+    res.status(500).json({ message: "Failed to create holiday" });
+  }
+});
+
+// Import holidays from .ics content (admin only)
+router.post("/import", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { calendar, ics } = req.body;
+
+    if (typeof calendar !== "string" || calendar.trim() === "" || typeof ics !== "string") {
+      return res.status(400).json({ message: "Calendar and ICS content are required" });
+    }
+
+    const parsed = parseIcsHolidays(ics);
+    if (parsed.length === 0) {
+      return res.status(400).json({ message: "No holidays found in the ICS file" });
+    }
+
+    const imported = await db
+      .insert(holidays)
+      .values(parsed.map((holiday) => ({ ...holiday, calendar: calendar.trim() })))
+      .onConflictDoNothing()
+      .returning();
+
+    res.status(201).json({
+      message: "Holidays imported successfully",
+      imported: imported.length,
+      skipped: parsed.length - imported.length,
+    });
+  } catch (error) {
+    console.error("Error importing holidays:", error);
+    res.status(500).json({ message: "Failed to import holidays" });
+  }
+});
+
+// Update holiday (admin only)
+router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = insertHolidaySchema.parse(req.body);
+
+    const [holiday] = await db
+      .update(holidays)
+      .set(validatedData)
+      .where(eq(holidays.id, id))
+      .returning();
+
+    if (!holiday) {
+      return res.status(404).json({ message: "Holiday not found" });
+    }
+
+    res.json(holiday);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    if (error.code === "23505") {
+      return res.status(409).json({ message: "A holiday already exists on this date" });
+    }
+
+    console.error("Error updating holiday:", error);
+    res.status(500).json({ message: "Failed to update holiday" });
+  }
+});
+
+// Delete holiday (admin only)
+router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [holiday] = await db
+      .delete(holidays)
+      .where(eq(holidays.id, id))
+      .returning();
+
+    if (!holiday) {
+      return res.status(404).json({ message: "Holiday not found" });
+    }
+
+    res.json({ message: "Holiday deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting holiday:", error);
+    res.status(500).json({ message: "Failed to delete holiday" });
+  }
+});
+
+export default router;
@@ -5,15 +5,27 @@ import { Strategy as LocalStrategy } from "passport-local";
 import bcrypt from "bcrypt";
 import { db } from "../lib/db.js";
 import { users } from "../shared/schema.ts";
+import { ensureDefaultLeaveTypes } from "../shared/leaveTypes.ts";
 import { eq } from "drizzle-orm";
 import authRoutes from "./auth.js";
 import userRoutes from "./users.js";
 import leaveRequestRoutes from "./leave-requests.js";
+import holidayRoutes from "./holidays.js";
+import leaveTypeRoutes from "./leave-types.js";
+import accrualPolicyRoutes from "./accrual-policies.js";
+import carryOverRuleRoutes from "./carry-over-rules.js";
+import leaveYearRoutes from "./leave-years.js";
+import approvalChainRoutes from "./approval-chains.js";
+import delegationRoutes from "./delegations.js";
+import autoApprovalRuleRoutes from "./auto-approval-rules.js";
+import approvalSlaRoutes from "./approval-sla.js";
+import teamRoutes from "./teams.js";
+import blackoutPeriodRoutes from "./blackout-periods.js";
 
 const app = express();
 
 // Middleware
-app.use(express.json());
+app.use(express.json({ limit: "1mb" })); // room for .ics holiday imports
 app.use(express.urlencoded({ extended: false }));
 
 // Session configuration for Vercel
@@ -99,10 +111,32 @@ app.use((req, res, next) => {
   }
 });
 
+// Requests and ledger entries reference leave types by key, so the defaults must
+// exist before anything is recorded. Seeded once per instance; retried if it fails.
+let leaveTypesSeeded = null;
+app.use((req, res, next) => {
+  leaveTypesSeeded ??= ensureDefaultLeaveTypes(db).catch((error) => {
+    leaveTypesSeeded = null;
+    throw error;
+  });
+  leaveTypesSeeded.then(() => next(), next);
+});
+
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/leave-requests", leaveRequestRoutes);
+app.use("/api/holidays", holidayRoutes);
+app.use("/api/leave-types", leaveTypeRoutes);
+app.use("/api/accrual-policies", accrualPolicyRoutes);
+app.use("/api/carry-over-rules", carryOverRuleRoutes);
+app.use("/api/leave-years", leaveYearRoutes);
+app.use("/api/approval-chains", approvalChainRoutes);
+app.use("/api/delegations", delegationRoutes);
+app.use("/api/auto-approval-rules", autoApprovalRuleRoutes);
+app.use("/api/approval-sla", approvalSlaRoutes);
+app.use("/api/teams", teamRoutes);
+app.use("/api/blackout-periods", blackoutPeriodRoutes);
 
 // Health check
 app.get("/api/health", (req, res) => {
@@ -1,8 +1,74 @@
 import express from "express";
+import { randomUUID } from "crypto";
 import { db } from "../lib/db.js";
-import { leaveRequests, users, insertLeaveRequestSchema } from "../shared/schema.ts";
-import { eq, and, desc } from "drizzle-orm";
-import { requireAuth, requireAdmin } from "../lib/auth.js";
+import {
+  leaveRequests,
+  leaveRequestComments,
+  leaveRequestAttachments,
+  leaveTransactions,
+  users,
+  insertLeaveRequestSchema,
+  updateLeaveRequestSchema,
+  leaveSpanSchema,
+  approveLeaveRequestSchema,
+  rejectLeaveRequestSchema,
+  bulkApproveLeaveRequestsSchema,
+  bulkRejectLeaveRequestsSchema,
+  onBehalfLeaveRequestSchema,
+  recurringLeaveRequestSchema,
+  cancelLeaveRequestSchema,
+  insertLeaveRequestCommentSchema,
+  leaveRequestPolicySchema,
+  uploadAttachmentSchema,
+} from "../shared/schema.ts";
+import { calculateLeaveDays, roundDays } from "../shared/leaveDuration.ts";
+import {
+  describeLeaveDates,
+  getLeaveBalances,
+  getLeaveRequestHolds,
+  planSettlement,
+} from "../shared/leaveBalances.ts";
+import { getActiveLeaveType } from "../shared/leaveTypes.ts";
+import {
+  canReviewLeaveRequest,
+  findConflictingLeaveRequests,
+  getLeaveRequestComments,
+  getLeaveRequestHistory,
+  getPendingSeriesRequestIds,
+} from "../shared/leaveRequests.ts";
+import { getApprovalSla, getLastEscalations, getRequestSla } from "../shared/escalations.ts";
+import {
+  canViewLeaveRequest,
+  getApprovalAuthority,
+  getApprovalChains,
+  getApprovalSteps,
+  getCurrentApprovalStep,
+  getReviewableLeaveRequestsFilter,
+  prepareApprovals,
+  recordApprovalDecision,
+} from "../shared/approvals.ts";
+import { decideLeaveRequests } from "../shared/bulkDecisions.ts";
+import { describeRecurrence, expandRecurrence, occurrencesOverlap } from "../shared/recurrence.ts";
+import { canViewTeamLeave, getTeamAndSubteamIds } from "../shared/teams.ts";
+import { describeCoverageBreaches, getCoverage } from "../shared/coverage.ts";
+import { getApplicableBlackoutPeriods } from "../shared/blackoutPeriods.ts";
+import {
+  detectAttachmentType,
+  findMissingAttachment,
+  getAttachmentMaxBytes,
+  getLeaveRequestAttachments,
+} from "../shared/attachments.ts";
+import { getAttachmentStorage } from "../shared/attachmentStorage.ts";
+import { today } from "../shared/accruals.ts";
+import {
+  IllegalTransitionError,
+  assertCanTransition,
+  prepareEdit,
+  transitionLeaveRequest,
+} from "../shared/leaveRequestStatus.ts";
+import { submitLeaveRequests } from "../shared/leaveRequestSubmission.ts";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { requireAuth, requireApprover } from "../lib/auth.js";
 import { sendSlackNotification } from "../lib/slack.js";
 import { ZodError } from "zod";
 
@@ -19,9 +85,15 @@ router.get("/", requireAuth, async (req, res) => {
         id: leaveRequests.id,
         startDate: leaveRequests.startDate,
         endDate: leaveRequests.endDate,
+        startPortion: leaveRequests.startPortion,
+        endPortion: leaveRequests.endPortion,
+        hours: leaveRequests.hours,
         leaveType: leaveRequests.leaveType,
         reason: leaveRequests.reason,
         status: leaveRequests.status,
+        autoApprovalRuleName: leaveRequests.autoApprovalRuleName,
+        createdById: leaveRequests.createdById,
+        seriesId: leaveRequests.seriesId,
         createdAt: leaveRequests.createdAt,
         user: {
           id: users.id,
@@ -33,94 +105,263 @@ router.get("/", requireAuth, async (req, res) => {
       .innerJoin(users, eq(leaveRequests.userId, users.id))
       .orderBy(desc(leaveRequests.createdAt));
 
-    // If not admin or not requesting all, filter by user
-    if (!isAdmin || all !== "true") {
-      query = query.where(eq(leaveRequests.userId, req.user.id));
+    // ?team= narrows the list to a team and the teams nested below it
+    const team = typeof req.query.team === "string" ? req.query.team : undefined;
+    const teamFilter = team
+      ? inArray(users.teamId, await getTeamAndSubteamIds(db, team))
+      : undefined;
+
+    // Admins see everyone with ?all=true, and managers what they may review,
+    // including for approvers they stand in for. Anyone may see the approved
+    // leave of their own team, without its reasons; otherwise only their own.
+    let visibility = null;
+    let teamCalendar = false;
+    if (all === "true" && isAdmin) {
+      visibility = teamFilter;
+    } else if (all === "true" && req.user.role === "manager") {
+      visibility = and(await getReviewableLeaveRequestsFilter(db, req.user), teamFilter);
+    } else if (team) {
+      if (!(await canViewTeamLeave(db, req.user, team))) {
+        return res.status(403).json({ message: "You can only view your own team's leave" });
+      }
+      visibility = and(teamFilter, inArray(leaveRequests.status, ["approved", "cancellation_requested"]));
+      teamCalendar = true;
+    } else {
+      visibility = eq(leaveRequests.userId, req.user.id);
+    }
+
+    if (visibility) {
+      query = query.where(visibility);
     }
 
     const requests = await query;
-    res.json(requests);
+    const approvals = await getApprovalSteps(db, requests.map((request) => request.id));
+
+    // Approvers see how each pending request would leave its teams staffed
+    const pending = all === "true" ? requests.filter((request) => request.status === "pending") : [];
+    const coverage = await getCoverage(db, pending.map((request) => ({ ...request, userId: request.user.id })));
+    const coverageById = new Map(pending.map((request, index) => [request.id, coverage[index]]));
+
+    const waiting = requests.filter((request) => request.status === "pending").map((request) => request.id);
+    const lastEscalations = await getLastEscalations(db, waiting);
+    const sla = await getApprovalSla(db);
+    const now = new Date();
+    res.json(requests.map((request) => ({
+      ...request,
+      reason: teamCalendar && request.user.id !== req.user.id ? "" : request.reason,
+      approvals: approvals.get(request.id) ?? [],
+      coverage: coverageById.get(request.id) ?? null,
+      // How long a pending request has waited on its current approver
+      sla: request.status === "pending" ? getRequestSla(request.createdAt, approvals.get(request.id) ?? [], lastEscalations.get(request.id), sla, now) : null,
+    })));
   } catch (error) {
     console.error("Error fetching leave requests:", error);
     res.status(500).json({ message: "Failed to fetch leave requests" });
   }
 });
 
-// Create leave request
+// Preview the number of working days for a date range
+router.get("/preview", requireAuth, async (req, res) => {
+  try {
+    const span = leaveSpanSchema.parse({
+      ...req.query,
+      hours: req.query.hours ? Number(req.query.hours) : undefined,
+    });
+
+    // Admins and managers preview leave for an employee against their calendar
+    let holidayCalendar = req.user.holidayCalendar;
+    if (typeof req.query.userId === "string" && req.query.userId !== req.user.id) {
+      if (!(await canReviewLeaveRequest(db, req.user, req.query.userId))) {
+        return res.status(403).json({ message: "You can only file leave for your team" });
+      }
+      const [employee] = await db
+        .select({ holidayCalendar: users.holidayCalendar })
+        .from(users)
+        .where(eq(users.id, req.query.userId))
+        .limit(1);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+      holidayCalendar = employee.holidayCalendar;
+    }
+
+    const days = await calculateLeaveDays(db, span, holidayCalendar);
+    res.json({ ...span, days });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    console.error("Error previewing leave request:", error);
+    res.status(500).json({ message: "Failed to calculate leave days" });
+  }
+});
+
+// Create leave request, or file one for an employee (admins and managers)
 router.post("/", requireAuth, async (req, res) => {
   try {
+    const { userId: employeeId = req.user.id, skipApproval } = onBehalfLeaveRequestSchema.parse(req.body ?? {});
+    const onBehalf = employeeId !== req.user.id;
+
+    if (skipApproval && !onBehalf) {
+      return res.status(403).json({ message: "Only leave filed for an employee can skip approval" });
+    }
+
+    let employee = req.user;
+    if (onBehalf) {
+      if (!(await canReviewLeaveRequest(db, req.user, employeeId))) {
+        return res.status(403).json({ message: "You can only file leave for your team" });
+      }
+      [employee] = await db
+        .select()
+        .from(users)
+        .where(eq(users.id, employeeId))
+        .limit(1);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+    }
+
     const validatedData = insertLeaveRequestSchema.parse({
       ...req.body,
-      userId: req.user.id,
+      userId: employee.id,
     });
+    const { recurrence } = recurringLeaveRequestSchema.parse(req.body ?? {});
+
+    const leaveType = await getActiveLeaveType(db, validatedData.leaveType);
+    if (!leaveType) {
+      return res.status(400).json({ message: "Unknown leave type" });
+    }
+
+    // A recurring request becomes one request per occurrence; occurrences
+    // without working days, e.g. on a holiday, are left out of the series
+    const spans = recurrence ? expandRecurrence(validatedData, recurrence) : [validatedData];
+    if (occurrencesOverlap(spans)) {
+      return res.status(400).json({ message: "Each occurrence must end before the next one starts" });
+    }
+
+    // The leave type's notice, longest request and blackouts apply to every
+    // occurrence. Leave recorded without review is exempt, as it may already be taken.
+    if (!skipApproval) {
+      const policySchema = leaveRequestPolicySchema({
+        leaveType,
+        blackouts: await getApplicableBlackoutPeriods(db, employee.id, leaveType.key),
+        today: today(),
+      });
+      for (const span of spans) {
+        policySchema.parse(span);
+      }
+    }
+
+    const occurrences = [];
+    for (const span of spans) {
+      const days = await calculateLeaveDays(db, span, employee.holidayCalendar);
+      if (days > 0) {
+        occurrences.push({ span, days });
+      }
+    }
+
+    if (occurrences.length === 0) {
+      return res.status(400).json({ message: "Leave request does not include any working days" });
+    }
+
+    // The whole series is checked against the balance at once
+    const days = occurrences.reduce((total, occurrence) => total + occurrence.days, 0);
+
+    // Reject dates already covered by the user's pending or approved requests
+    const conflicts = [];
+    for (const { span } of occurrences) {
+      conflicts.push(...(await findConflictingLeaveRequests(db, employee.id, span)));
+    }
+    if (conflicts.length > 0) {
+      return res.status(409).json({
+        message: onBehalf
+          ? `Leave request overlaps ${employee.name}'s existing requests`
+          : "Leave request overlaps your existing requests",
+        conflicts,
+      });
+    }
 
-    // Calculate number of days
-    const startDate = new Date(validatedData.startDate);
-    const endDate = new Date(validatedData.endDate);
-    const days = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24)) + 1;
+    // Staffing on the employee's teams with this leave taken. Leave recorded
+    // without review is never refused for it, as it may already be taken.
+    const coverage = await getCoverage(db, occurrences.map(({ span }) => span));
+    const blocking = coverage.find((report) => report.blocking);
+    if (blocking && !skipApproval) {
+      return res.status(409).json({
+        message: `Not enough of the team would be present: ${describeCoverageBreaches(blocking.days)}`,
+        coverage: blocking.days,
+      });
+    }
+    const coverageWarnings = coverage.flatMap((report) => report.days.filter((day) => day.breached));
 
-    // Check if user has enough leave balance
-    if (req.user.leaveBalance < days) {
+    // Check if user has enough balance for this leave type
+    const balances = await getLeaveBalances(db, employee.id);
+    const available = balances[leaveType.key] ?? 0;
+    if (leaveType.deductsBalance && available < days) {
       return res.status(400).json({ 
-        message: "Insufficient leave balance",
+        message: `Insufficient ${leaveType.name.toLowerCase()} balance`,
+        leaveType: leaveType.key,
         required: days,
-        available: req.user.leaveBalance,
+        available,
       });
     }
 
-    // Create the leave request
-    const [newRequest] = await db
-      .insert(leaveRequests)
-      .values(validatedData)
-      .returning();
-
-    // Deduct from leave balance immediately
-    await db
-      .update(users)
-      .set({ 
-        leaveBalance: req.user.leaveBalance - days 
-      })
-      .where(eq(users.id, req.user.id));
+    const { series, requests: created } = await submitLeaveRequests(db, {
+      employee,
+      actor: req.user,
+      leaveType,
+      occurrences: occurrences.map((occurrence, index) => ({
+        ...occurrence,
+        leavesTeamShort: coverage[index].breached,
+      })),
+      recurrence,
+      skipApproval,
+    });
+    const remainingBalance = leaveType.deductsBalance ? roundDays(available - days) : available;
 
-    // Send Slack notification
+    // Send Slack notification, once for a whole series
     try {
+      const [first] = created;
+      const last = created[created.length - 1];
       await sendSlackNotification({
-        type: "new_request",
-        employeeName: req.user.name,
-        startDate: validatedData.startDate,
-        endDate: validatedData.endDate,
+        type: created.every((request) => request.status === "approved") ? "approved" : "new_request",
+        employeeName: employee.name,
+        startDate: first.startDate,
+        endDate: last.endDate,
         leaveType: validatedData.leaveType,
         reason: validatedData.reason,
         days,
-        remainingBalance: req.user.leaveBalance - days,
+        remainingBalance,
+        autoApprovalRule: series ? undefined : first.autoApprovalRuleName ?? undefined,
+        recurrence: series ? describeRecurrence(series) : undefined,
       });
     } catch (slackError) {
       console.error("Failed to send Slack notification:", slackError);
       // Don't fail the request if Slack notification fails
     }
 
-    // Fetch the complete request with user info
-    const [completeRequest] = await db
-      .select({
-        id: leaveRequests.id,
-        startDate: leaveRequests.startDate,
-        endDate: leaveRequests.endDate,
-        leaveType: leaveRequests.leaveType,
-        reason: leaveRequests.reason,
-        status: leaveRequests.status,
-        createdAt: leaveRequests.createdAt,
-        user: {
-          id: users.id,
-          name: users.name,
-          email: users.email,
-        },
-      })
-      .from(leaveRequests)
-      .innerJoin(users, eq(leaveRequests.userId, users.id))
-      .where(eq(leaveRequests.id, newRequest.id))
-      .limit(1);
+    // The same response as the Express server's
+    const [request] = created;
+    let message = "Leave request submitted successfully";
+    if (skipApproval) {
+      message = `Leave recorded for ${employee.name}`;
+    } else if (series) {
+      message = `Recurring leave submitted: ${created.length} occurrences, ${describeRecurrence(series)}`;
+    } else if (request.autoApprovalRuleName) {
+      message = `Leave request approved automatically (${request.autoApprovalRuleName})`;
+    }
 
-    res.status(201).json(completeRequest);
+    res.status(201).json({
+      message,
+      request,
+      ...(series ? { series, requests: created } : {}),
+      ...(coverageWarnings.length > 0
+        ? { coverageWarning: describeCoverageBreaches(coverageWarnings), coverage: coverageWarnings }
+        : {}),
+    });
   } catch (error) {
     if (error instanceof ZodError) {
       return res.status(400).json({ 
@@ -138,7 +379,7 @@ router.post("/", requireAuth, async (req, res) => {
 router.put("/:id", requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
-    const validatedData = insertLeaveRequestSchema.omit({ userId: true }).parse(req.body);
+    const validatedData = updateLeaveRequestSchema.parse(req.body);
 
     // Get current request
     const [currentRequest] = await db
@@ -154,48 +395,78 @@ router.put("/:id", requireAuth, async (req, res) => {
       return res.status(404).json({ message: "Leave request not found" });
     }
 
-    // Only allow updates to pending requests
-    if (currentRequest.status !== "pending") {
-      return res.status(400).json({ 
-        message: "Can only update pending requests" 
-      });
+    // Only pending requests can be edited
+    assertCanTransition(currentRequest.status, "edit");
+
+    const leaveType = await getActiveLeaveType(db, validatedData.leaveType);
+    if (!leaveType) {
+      return res.status(400).json({ message: "Unknown leave type" });
     }
 
-    // Calculate days for old and new requests
-    const oldStartDate = new Date(currentRequest.startDate);
-    const oldEndDate = new Date(currentRequest.endDate);
-    const oldDays = Math.ceil((oldEndDate - oldStartDate) / (1000 * 60 * 60 * 24)) + 1;
+    // The new dates must meet the leave type's booking rules too
+    leaveRequestPolicySchema({
+      leaveType,
+      blackouts: await getApplicableBlackoutPeriods(db, req.user.id, leaveType.key),
+      today: today(),
+    }).parse({ ...validatedData, userId: req.user.id });
 
-    const newStartDate = new Date(validatedData.startDate);
-    const newEndDate = new Date(validatedData.endDate);
-    const newDays = Math.ceil((newEndDate - newStartDate) / (1000 * 60 * 60 * 24)) + 1;
+    const newDays = await calculateLeaveDays(db, validatedData, req.user.holidayCalendar);
 
-    const daysDifference = newDays - oldDays;
+    if (newDays === 0) {
+      return res.status(400).json({ message: "Leave request does not include any working days" });
+    }
+
+    // Reject dates already covered by the user's pending or approved requests
+    const conflicts = await findConflictingLeaveRequests(db, req.user.id, validatedData, id);
+    if (conflicts.length > 0) {
+      return res.status(409).json({
+        message: "Leave request overlaps your existing requests",
+        conflicts,
+      });
+    }
+
+    const [coverage] = await getCoverage(db, [{ ...validatedData, id, userId: req.user.id }]);
+    if (coverage.blocking) {
+      return res.status(409).json({
+        message: `Not enough of the team would be present: ${describeCoverageBreaches(coverage.days)}`,
+        coverage: coverage.days,
+      });
+    }
+
+    // Days needed from the leave type beyond what the request already holds
+    const holds = await getLeaveRequestHolds(db, id);
+    const heldDays = leaveType.deductsBalance ? newDays : 0;
+    const daysDifference = heldDays - (holds[leaveType.key] ?? 0);
 
     // Check if user has enough balance for the change
-    if (daysDifference > 0 && req.user.leaveBalance < daysDifference) {
+    const balances = await getLeaveBalances(db, req.user.id);
+    const available = balances[leaveType.key] ?? 0;
+    if (daysDifference > 0 && available < daysDifference) {
       return res.status(400).json({ 
         message: "Insufficient leave balance for the change",
+        leaveType: leaveType.key,
         required: daysDifference,
-        available: req.user.leaveBalance,
+        available,
       });
     }
 
-    // Update the request
-    const [updatedRequest] = await db
-      .update(leaveRequests)
-      .set(validatedData)
-      .where(eq(leaveRequests.id, id))
-      .returning();
+    // Update the request, unless it was decided while we were checking, together
+    // with its hold: the old leave type is refunded if it changed and the new
+    // duration held. An edited request goes through its approvals again.
+    const editedRequest = { ...currentRequest, ...validatedData };
+    const writes = prepareEdit(db, currentRequest, validatedData, req.user.id);
+    const entries = await planSettlement(db, editedRequest, heldDays, {
+      reason: `Request updated to ${describeLeaveDates(editedRequest)}`,
+      createdById: req.user.id,
+    });
+    if (entries.length > 0) {
+      writes.push(db.insert(leaveTransactions).values(entries));
+    }
+    writes.push(...prepareApprovals(db, await getApprovalChains(db), req.user, id, leaveType, newDays));
 
-    // Update leave balance
-    if (daysDifference !== 0) {
-      await db
-        .update(users)
-        .set({ 
-          leaveBalance: req.user.leaveBalance - daysDifference 
-        })
-        .where(eq(users.id, req.user.id));
+    const [[updatedRequest]] = await db.batch(writes);
+    if (!updatedRequest) {
+      return res.status(409).json({ message: "Leave request was updated by someone else; reload and try again" });
     }
 
     // Fetch the complete updated request
@@ -204,9 +475,15 @@ router.put("/:id", requireAuth, async (req, res) => {
         id: leaveRequests.id,
         startDate: leaveRequests.startDate,
         endDate: leaveRequests.endDate,
+        startPortion: leaveRequests.startPortion,
+        endPortion: leaveRequests.endPortion,
+        hours: leaveRequests.hours,
         leaveType: leaveRequests.leaveType,
         reason: leaveRequests.reason,
         status: leaveRequests.status,
+        autoApprovalRuleName: leaveRequests.autoApprovalRuleName,
+        createdById: leaveRequests.createdById,
+        seriesId: leaveRequests.seriesId,
         createdAt: leaveRequests.createdAt,
         user: {
           id: users.id,
@@ -219,7 +496,12 @@ router.put("/:id", requireAuth, async (req, res) => {
       .where(eq(leaveRequests.id, id))
       .limit(1);
 
-    res.json(completeRequest);
+    res.json({
+      ...completeRequest,
+      ...(coverage.breached
+        ? { coverageWarning: describeCoverageBreaches(coverage.days), coverage: coverage.days.filter((day) => day.breached) }
+        : {}),
+    });
   } catch (error) {
     if (error instanceof ZodError) {
       return res.status(400).json({ 
@@ -227,18 +509,28 @@ router.put("/:id", requireAuth, async (req, res) => {
         errors: error.errors 
       });
     }
-    
+
+    if (error instanceof IllegalTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    // The request was decided while the edit was being written
+    if (error.code === "23505") {
+      return res.status(409).json({ message: "Leave request was updated by someone else; reload and try again" });
+    }
+
     console.error("Error updating leave request:", error);
     res.status(500).json({ message: "Failed to update leave request" });
   }
 });
 
-// Delete leave request
-router.delete("/:id", requireAuth, async (req, res) => {
+// Cancel own leave request: pending requests are withdrawn at once, approved
+// leave waits for an approver to sign off before its days are refunded
+router.post("/:id/cancel", requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
+    const { reason } = cancelLeaveRequestSchema.parse(req.body ?? {});
 
-    // Get the request to calculate days to restore
     const [request] = await db
       .select()
       .from(leaveRequests)
@@ -252,46 +544,184 @@ router.delete("/:id", requireAuth, async (req, res) => {
       return res.status(404).json({ message: "Leave request not found" });
     }
 
-    // Calculate days to restore
-    const startDate = new Date(request.startDate);
-    const endDate = new Date(request.endDate);
-    const days = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24)) + 1;
-
-    // Delete the request
-    await db
-      .delete(leaveRequests)
-      .where(eq(leaveRequests.id, id));
-
-    // Restore leave balance
-    await db
-      .update(users)
-      .set({ 
-        leaveBalance: req.user.leaveBalance + days 
-      })
-      .where(eq(users.id, req.user.id));
+    const { status: nextStatus } = await transitionLeaveRequest(
+      db,
+      request,
+      request.status === "approved" ? "request_cancellation" : "withdraw",
+      req.user.id
+    );
 
-    res.json({ message: "Leave request deleted successfully" });
+    if (reason) {
+      await db
+        .insert(leaveRequestComments)
+        .values({ leaveRequestId: id, authorId: req.user.id, body: reason });
+    }
+
+    // Approvers need to sign off cancelled approved leave
+    if (nextStatus === "cancellation_requested") {
+      try {
+        const days = await calculateLeaveDays(db, request, req.user.holidayCalendar);
+        await sendSlackNotification({
+          type: "cancellation_requested",
+          employeeName: req.user.name,
+          startDate: request.startDate,
+          endDate: request.endDate,
+          leaveType: request.leaveType,
+          reason: reason || "No reason given",
+          days,
+        });
+      } catch (slackError) {
+        console.error("Failed to send Slack notification:", slackError);
+      }
+    }
+
+    res.json({
+      message: nextStatus === "withdrawn"
+        ? "Leave request withdrawn"
+        : "Cancellation requested; waiting on approver sign-off",
+    });
   } catch (error) {
-    console.error("Error deleting leave request:", error);
-    res.status(500).json({ message: "Failed to delete leave request" });
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    if (error instanceof IllegalTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    console.error("Error cancelling leave request:", error);
+    res.status(500).json({ message: "Failed to cancel leave request" });
   }
 });
 
-// Approve leave request (admin only)
-router.post("/:id/approve", requireAuth, requireAdmin, async (req, res) => {
+// Decide many requests at once with one shared comment, reporting each outcome;
+// the decidable ones are written together or not at all
+const decideInBulk = (decision) => async (req, res) => {
+  try {
+    const { ids, ...note } = decision === "approved"
+      ? bulkApproveLeaveRequestsSchema.parse(req.body ?? {})
+      : bulkRejectLeaveRequestsSchema.parse(req.body ?? {});
+
+    const comment = decision === "approved" ? note.comment : note.reason;
+    const results = await decideLeaveRequests(db, req.user, ids, decision, comment);
+    const decided = results.filter((result) => result.outcome === decision || result.outcome === "step_approved");
+
+    res.json({
+      message: `${decided.length} of ${results.length} requests ${decision}`,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    if (error instanceof IllegalTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    console.error("Error deciding leave requests:", error);
+    res.status(500).json({ message: "Failed to decide leave requests" });
+  }
+};
+
+// Approve several pending requests (approvers only)
+router.post("/bulk/approve", requireAuth, requireApprover, decideInBulk("approved"));
+
+// Reject several pending requests with one reason (approvers only)
+router.post("/bulk/reject", requireAuth, requireApprover, decideInBulk("rejected"));
+
+// Decide every pending occurrence of a recurring request; single occurrences
+// go through the usual approve and reject routes
+const decideSeries = (decision) => async (req, res) => {
+  try {
+    const { seriesId } = req.params;
+    const comment = decision === "approved"
+      ? approveLeaveRequestSchema.parse(req.body ?? {}).comment
+      : rejectLeaveRequestSchema.parse(req.body ?? {}).reason;
+
+    const ids = await getPendingSeriesRequestIds(db, seriesId);
+    if (ids.length === 0) {
+      return res.status(404).json({ message: "No pending occurrences in this series" });
+    }
+
+    const results = await decideLeaveRequests(db, req.user, ids, decision, comment);
+    const decided = results.filter((result) => result.outcome === decision || result.outcome === "step_approved");
+
+    res.json({
+      message: `${decided.length} of ${results.length} occurrences ${decision}`,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    if (error instanceof IllegalTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    console.error("Error deciding leave request series:", error);
+    res.status(500).json({ message: "Failed to decide leave request series" });
+  }
+};
+
+// Approve every pending occurrence of a recurring request (approvers only)
+router.post("/series/:seriesId/approve", requireAuth, requireApprover, decideSeries("approved"));
+
+// Reject every pending occurrence of a recurring request (approvers only)
+router.post("/series/:seriesId/reject", requireAuth, requireApprover, decideSeries("rejected"));
+
+// Approve leave request, or the current step of its approval chain
+router.post("/:id/approve", requireAuth, requireApprover, async (req, res) => {
   try {
     const { id } = req.params;
+    const { comment } = approveLeaveRequestSchema.parse(req.body ?? {});
 
-    const [updatedRequest] = await db
-      .update(leaveRequests)
-      .set({ status: "approved" })
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
       .where(eq(leaveRequests.id, id))
-      .returning();
+      .limit(1);
 
-    if (!updatedRequest) {
+    if (!request) {
       return res.status(404).json({ message: "Leave request not found" });
     }
 
+    assertCanTransition(request.status, "approve");
+
+    const step = await getCurrentApprovalStep(db, id);
+    const authority = await getApprovalAuthority(db, req.user, step, request.userId);
+    if (!authority) {
+      return res.status(403).json({
+        message: step ? "This request is waiting on another approver" : "You can only review requests from your team",
+      });
+    }
+
+    const missingAttachment = await findMissingAttachment(db, request);
+    if (missingAttachment) {
+      return res.status(409).json({ message: missingAttachment });
+    }
+
+    // With an approval chain the request stays pending until its last step
+    const decision = await recordApprovalDecision(db, request, step, req.user, authority, "approved", comment);
+    if (!decision) {
+      return res.status(409).json({ message: "This request has already been decided" });
+    }
+    if (!decision.complete) {
+      return res.json({ message: "Approval recorded; waiting on the next step" });
+    }
+
+    const updatedRequest = decision.request;
+
     // Get user info for notification
     const [user] = await db
       .select()
@@ -301,9 +731,8 @@ router.post("/:id/approve", requireAuth, requireAdmin, async (req, res) => {
 
     // Send Slack notification
     try {
-      const startDate = new Date(updatedRequest.startDate);
-      const endDate = new Date(updatedRequest.endDate);
-      const days = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24)) + 1;
+      const days = await calculateLeaveDays(db, updatedRequest, user.holidayCalendar);
+      const balances = await getLeaveBalances(db, user.id);
 
       await sendSlackNotification({
         type: "approved",
@@ -312,7 +741,7 @@ router.post("/:id/approve", requireAuth, requireAdmin, async (req, res) => {
         endDate: updatedRequest.endDate,
         leaveType: updatedRequest.leaveType,
         days,
-        remainingBalance: user.leaveBalance,
+        remainingBalance: balances[updatedRequest.leaveType] ?? 0,
       });
     } catch (slackError) {
       console.error("Failed to send Slack notification:", slackError);
@@ -320,15 +749,27 @@ router.post("/:id/approve", requireAuth, requireAdmin, async (req, res) => {
 
     res.json({ message: "Leave request approved" });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    if (error instanceof IllegalTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+
     console.error("Error approving leave request:", error);
     res.status(500).json({ message: "Failed to approve leave request" });
   }
 });
 
-// Reject leave request (admin only)
-router.post("/:id/reject", requireAuth, requireAdmin, async (req, res) => {
+// Reject leave request at its current approval step
+router.post("/:id/reject", requireAuth, requireApprover, async (req, res) => {
   try {
     const { id } = req.params;
+    const { reason } = rejectLeaveRequestSchema.parse(req.body ?? {});
 
     // Get the request to restore leave balance
     const [request] = await db
@@ -342,35 +783,38 @@ router.post("/:id/reject", requireAuth, requireAdmin, async (req, res) => {
       return res.status(404).json({ message: "Leave request not found" });
     }
 
+    assertCanTransition(request.leave_requests.status, "reject");
+
+    const step = await getCurrentApprovalStep(db, id);
+    const authority = await getApprovalAuthority(db, req.user, step, request.leave_requests.userId);
+    if (!authority) {
+      return res.status(403).json({
+        message: step ? "This request is waiting on another approver" : "You can only review requests from your team",
+      });
+    }
+
+    // A rejection at any step rejects the whole request, releasing the days held
+    // against it
+    if (!(await recordApprovalDecision(db, request.leave_requests, step, req.user, authority, "rejected", reason))) {
+      return res.status(409).json({ message: "This request has already been decided" });
+    }
+
     // Calculate days to restore
-    const startDate = new Date(request.leaveRequests.startDate);
-    const endDate = new Date(request.leaveRequests.endDate);
-    const days = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24)) + 1;
-
-    // Update request status
-    await db
-      .update(leaveRequests)
-      .set({ status: "rejected" })
-      .where(eq(leaveRequests.id, id));
-
-    // Restore leave balance
-    await db
-      .update(users)
-      .set({ 
-        leaveBalance: request.users.leaveBalance + days 
-      })
-      .where(eq(users.id, request.leaveRequests.userId));
+    const days = await calculateLeaveDays(db, request.leave_requests, request.users.holidayCalendar);
+    const balances = await getLeaveBalances(db, request.users.id);
+    const remainingBalance = balances[request.leave_requests.leaveType] ?? 0;
 
     // Send Slack notification
     try {
       await sendSlackNotification({
         type: "rejected",
         employeeName: request.users.name,
-        startDate: request.leaveRequests.startDate,
-        endDate: request.leaveRequests.endDate,
-        leaveType: request.leaveRequests.leaveType,
+        startDate: request.leave_requests.startDate,
+        endDate: request.leave_requests.endDate,
+        leaveType: request.leave_requests.leaveType,
+        reason,
         days,
-        remainingBalance: request.users.leaveBalance + days,
+        remainingBalance,
       });
     } catch (slackError) {
       console.error("Failed to send Slack notification:", slackError);
@@ -378,9 +822,348 @@ router.post("/:id/reject", requireAuth, requireAdmin, async (req, res) => {
 
     res.json({ message: "Leave request rejected" });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    if (error instanceof IllegalTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+
     console.error("Error rejecting leave request:", error);
     res.status(500).json({ message: "Failed to reject leave request" });
   }
 });
 
+// Approvers sign off a cancellation, or decline it and keep the leave approved
+const decideCancellation = (decision) => async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { comment } = approveLeaveRequestSchema.parse(req.body ?? {});
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const transition = decision === "approve" ? "approve_cancellation" : "decline_cancellation";
+    assertCanTransition(request.status, transition);
+
+    if (!(await getApprovalAuthority(db, req.user, null, request.userId))) {
+      return res.status(403).json({ message: "You can only review requests from your team" });
+    }
+
+    // Signing off refunds the days; declining keeps them held
+    await transitionLeaveRequest(db, request, transition, req.user.id);
+
+    if (comment) {
+      await db
+        .insert(leaveRequestComments)
+        .values({ leaveRequestId: id, authorId: req.user.id, body: comment });
+    }
+
+    res.json({
+      message: decision === "approve" ? "Cancellation approved" : "Cancellation declined; the leave stays approved",
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    if (error instanceof IllegalTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    console.error("Error deciding cancellation:", error);
+    res.status(500).json({ message: "Failed to decide cancellation" });
+  }
+};
+
+// Approve cancellation of approved leave, refunding its days
+router.post("/:id/cancellation/approve", requireAuth, requireApprover, decideCancellation("approve"));
+
+// Decline cancellation of approved leave
+router.post("/:id/cancellation/reject", requireAuth, requireApprover, decideCancellation("reject"));
+
+// Get a request's comment thread (the employee and its approvers)
+router.get("/:id/comments", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request || !(await canViewLeaveRequest(db, req.user, request))) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const comments = await getLeaveRequestComments(db, id);
+    res.json(comments);
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    res.status(500).json({ message: "Failed to fetch comments" });
+  }
+});
+
+// Post to a request's comment thread (the employee and its approvers)
+router.post("/:id/comments", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = insertLeaveRequestCommentSchema.parse(req.body);
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request || !(await canViewLeaveRequest(db, req.user, request))) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const [comment] = await db
+      .insert(leaveRequestComments)
+      .values({ ...validatedData, leaveRequestId: id, authorId: req.user.id })
+      .returning();
+
+    res.status(201).json({
+      id: comment.id,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      author: { id: req.user.id, name: req.user.name, role: req.user.role },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    console.error("Error adding comment:", error);
+    res.status(500).json({ message: "Failed to add comment" });
+  }
+});
+
+// List a request's supporting documents (the employee and its approvers)
+router.get("/:id/attachments", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request || !(await canViewLeaveRequest(db, req.user, request))) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const attachments = await getLeaveRequestAttachments(db, id);
+    res.json(attachments);
+  } catch (error) {
+    console.error("Error fetching attachments:", error);
+    res.status(500).json({ message: "Failed to fetch attachments" });
+  }
+});
+
+// The body is the file itself; oversized uploads are cut off while reading
+function readAttachment(req, res, next) {
+  const maxBytes = getAttachmentMaxBytes();
+  express.raw({ type: () => true, limit: maxBytes })(req, res, (error) => {
+    if (error?.type === "entity.too.large") {
+      return res.status(413).json({ message: `Attachments can be at most ${Math.floor(maxBytes / 1024 / 1024)} MB` });
+    }
+    next(error);
+  });
+}
+
+// Upload a supporting document, named by ?fileName= (the employee and its approvers)
+router.post("/:id/attachments", requireAuth, readAttachment, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { fileName } = uploadAttachmentSchema.parse(req.query);
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: "Send the file as the request body" });
+    }
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request || !(await canViewLeaveRequest(db, req.user, request))) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    if (!["pending", "approved", "cancellation_requested"].includes(request.status)) {
+      return res.status(409).json({ message: "Documents can only be added to pending or approved requests" });
+    }
+
+    const contentType = detectAttachmentType(req.body);
+    if (!contentType) {
+      return res.status(415).json({ message: "Attachments must be PDF, PNG, JPEG or WebP files" });
+    }
+
+    const storageKey = `${id}/${randomUUID()}`;
+    const [attachment] = await db
+      .insert(leaveRequestAttachments)
+      .values({
+        leaveRequestId: id,
+        uploadedById: req.user.id,
+        fileName,
+        contentType,
+        size: req.body.length,
+        storageKey,
+      })
+      .returning();
+
+    // Record the row first, so a file is never stored without one pointing at it
+    try {
+      await getAttachmentStorage().put(storageKey, req.body, contentType);
+    } catch (storageError) {
+      await db.delete(leaveRequestAttachments).where(eq(leaveRequestAttachments.id, attachment.id));
+      throw storageError;
+    }
+
+    res.status(201).json({
+      id: attachment.id,
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      createdAt: attachment.createdAt,
+      uploadedBy: { id: req.user.id, name: req.user.name },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+
+    console.error("Error uploading attachment:", error);
+    res.status(500).json({ message: "Failed to upload attachment" });
+  }
+});
+
+// Download a supporting document (the employee and its approvers)
+router.get("/:id/attachments/:attachmentId", requireAuth, async (req, res) => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request || !(await canViewLeaveRequest(db, req.user, request))) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const [attachment] = await db
+      .select()
+      .from(leaveRequestAttachments)
+      .where(and(eq(leaveRequestAttachments.id, attachmentId), eq(leaveRequestAttachments.leaveRequestId, id)))
+      .limit(1);
+
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    const file = await getAttachmentStorage().get(attachment.storageKey);
+    res.setHeader("Content-Type", attachment.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.send(file);
+  } catch (error) {
+    console.error("Error downloading attachment:", error);
+    res.status(500).json({ message: "Failed to download attachment" });
+  }
+});
+
+// Remove a supporting document while the request is pending (its uploader or an admin)
+router.delete("/:id/attachments/:attachmentId", requireAuth, async (req, res) => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request || !(await canViewLeaveRequest(db, req.user, request))) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const [attachment] = await db
+      .select()
+      .from(leaveRequestAttachments)
+      .where(and(eq(leaveRequestAttachments.id, attachmentId), eq(leaveRequestAttachments.leaveRequestId, id)))
+      .limit(1);
+
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    if (attachment.uploadedById !== req.user.id && req.user.role !== "admin") {
+      return res.status(403).json({ message: "You can only remove documents you uploaded" });
+    }
+    if (request.status !== "pending") {
+      return res.status(409).json({ message: "Documents can only be removed while the request is pending" });
+    }
+
+    // The stored file goes first: if that fails the row still points at it, and
+    // deleting a file that is already gone succeeds, so the request can be retried
+    await getAttachmentStorage().delete(attachment.storageKey);
+    await db.delete(leaveRequestAttachments).where(eq(leaveRequestAttachments.id, attachmentId));
+
+    res.json({ message: "Attachment deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting attachment:", error);
+    res.status(500).json({ message: "Failed to delete attachment" });
+  }
+});
+
+// Get a request's history: status changes, reminders and escalations
+router.get("/:id/history", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [request] = await db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.id, id))
+      .limit(1);
+
+    if (!request || !(await canViewLeaveRequest(db, req.user, request))) {
+      return res.status(404).json({ message: "Leave request not found" });
+    }
+
+    const history = await getLeaveRequestHistory(db, id);
+    res.json(history);
+  } catch (error) {
+    console.error("Error fetching request history:", error);
+    res.status(500).json({ message: "Failed to fetch request history" });
+  }
+});
+
 export default router;
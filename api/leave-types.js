@@ -0,0 +1,108 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { leaveTypes, insertLeaveTypeSchema, updateLeaveTypeSchema } from "../shared/schema.ts";
+import { getLeaveTypes } from "../shared/leaveTypes.ts";
+import { eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get leave types (inactive ones too with ?all=true, admin only)
+router.get("/", requireAuth, async (req, res) => {
+  try {
+    const includeInactive = req.query.all === "true" && req.user.role === "admin";
+    const types = await getLeaveTypes(db, { includeInactive });
+    res.json(types);
+  } catch (error) {
+    console.error("Error fetching leave types:", error);
+    res.status(500).json({ message: "Failed to fetch leave types" });
+  }
+});
+
+// Create leave type (admin only)
+router.post("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = insertLeaveTypeSchema.parse(req.body);
+
+    const [leaveType] = await db
+      .insert(leaveTypes)
+      .values(validatedData)
+      .onConflictDoNothing()
+      .returning();
+
+    if (!leaveType) {
+      return res.status(409).json({ message: "A leave type with this key already exists" });
+    }
+
+    res.status(201).json(leaveType);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error creating leave type:", error);
+    res.status(500).json({ message: "Failed to create leave type" });
+  }
+});
+
+// Update leave type (admin only); the key cannot change
+router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateLeaveTypeSchema.parse(req.body);
+
+    const [leaveType] = await db
+      .update(leaveTypes)
+      .set(validatedData)
+      .where(eq(leaveTypes.id, id))
+      .returning();
+
+    if (!leaveType) {
+      return res.status(404).json({ message: "Leave type not found" });
+    }
+
+    res.json(leaveType);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error updating leave type:", error);
+    res.status(500).json({ message: "Failed to update leave type" });
+  }
+});
+
+// Delete an unused leave type (admin only); types with history should be deactivated
+router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [leaveType] = await db
+      .delete(leaveTypes)
+      .where(eq(leaveTypes.id, id))
+      .returning();
+
+    if (!leaveType) {
+      return res.status(404).json({ message: "Leave type not found" });
+    }
+
+    res.json({ message: "Leave type deleted successfully" });
+  } catch (error) {
+    // Foreign key violation: requests, ledger entries or policies still use it
+    if (error.code === "23503") {
+      return res.status(409).json({ message: "Leave type is in use; deactivate it instead" });
+    }
+
+    console.error("Error deleting leave type:", error);
+    res.status(500).json({ message: "Failed to delete leave type" });
+  }
+});
+
+export default router;
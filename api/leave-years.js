@@ -0,0 +1,102 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { today } from "../shared/accruals.ts";
+import {
+  applyStatutoryEntitlements,
+  closeLeaveYear,
+  expireCarriedOverLeave,
+  getLeaveYear,
+  getLeaveYearContaining,
+  previewYearEndClose,
+} from "../shared/leaveYear.ts";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+
+const router = express.Router();
+
+function parseYear(value) {
+  const year = Number(value);
+  return Number.isInteger(year) && year >= 1900 && year <= 9999 ? year : null;
+}
+
+// Get the leave year that contains today
+router.get("/current", requireAuth, async (req, res) => {
+  try {
+    res.json(getLeaveYearContaining(today()));
+  } catch (error) {
+    console.error("Error fetching leave year:", error);
+    res.status(500).json({ message: "Failed to fetch leave year" });
+  }
+});
+
+// Dry run of the year-end close (admin only)
+router.get("/:year/close-preview", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const year = parseYear(req.params.year);
+    if (year === null) {
+      return res.status(400).json({ message: "Invalid leave year" });
+    }
+
+    const preview = await previewYearEndClose(db, year);
+    res.json(preview);
+  } catch (error) {
+    console.error("Error previewing year-end close:", error);
+    res.status(500).json({ message: "Failed to preview year-end close" });
+  }
+});
+
+// Close a leave year: expire, carry over and reset balances (admin only)
+router.post("/:year/close", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const year = parseYear(req.params.year);
+    if (year === null) {
+      return res.status(400).json({ message: "Invalid leave year" });
+    }
+
+    const leaveYear = getLeaveYear(year);
+    if (today() < leaveYear.nextStart) {
+      return res.status(400).json({ message: `Leave year ${year} does not end until ${leaveYear.end}` });
+    }
+
+    const result = await closeLeaveYear(db, year, req.user.id);
+    res.json(result);
+  } catch (error) {
+    console.error("Error closing leave year:", error);
+    res.status(500).json({ message: "Failed to close leave year" });
+  }
+});
+
+// Expire carried-over days past their expiry date (admin only)
+router.post("/expire-carry-over", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { asOf } = req.body;
+
+    if (asOf !== undefined && (typeof asOf !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(asOf))) {
+      return res.status(400).json({ message: "asOf must be in YYYY-MM-DD format" });
+    }
+
+    const result = await expireCarriedOverLeave(db, asOf);
+    res.json(result);
+  } catch (error) {
+    console.error("Error expiring carried-over leave:", error);
+    res.status(500).json({ message: "Failed to expire carried-over leave" });
+  }
+});
+
+// Grant statutory annual leave that has fallen due (admin only)
+router.post("/apply-entitlements", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { asOf } = req.body;
+
+    if (asOf !== undefined && (typeof asOf !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(asOf))) {
+      return res.status(400).json({ message: "asOf must be in YYYY-MM-DD format" });
+    }
+
+    const result = await applyStatutoryEntitlements(db, asOf);
+    res.json(result);
+  } catch (error) {
+    console.error("Error applying statutory entitlements:", error);
+    res.status(500).json({ message: "Failed to apply statutory entitlements" });
+  }
+});
+
+export default router;
@@ -14,6 +14,14 @@ export function requireAdmin(req, res, next) {
   res.status(403).json({ message: "Admin access required" });
 }
 
+// Approver authorization middleware (admins, and managers for their reports)
+export function requireApprover(req, res, next) {
+  if (req.user && (req.user.role === "admin" || req.user.role === "manager")) {
+    return next();
+  }
+  res.status(403).json({ message: "Manager or admin access required" });
+}
+
 // Employee authorization middleware (can access own resources)
 export function requireEmployee(req, res, next) {
   if (req.user && req.user.role === "employee") {
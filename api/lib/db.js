@@ -1,6 +1,8 @@
 import { drizzle } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
-import { users } from "../../../shared/schema"; // users 테이블 import 필요
+import { users } from "../../shared/schema.ts"; // users 테이블 import 필요
+import { grantDefaultBalances } from "../../shared/leaveBalances.ts";
+import { ensureDefaultLeaveTypes } from "../../shared/leaveTypes.ts";
 
 if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL is required");
@@ -14,15 +16,19 @@ export const db = drizzle(sql);
 
 // 테스트용 admin 계정 생성 함수
 export async function seedAdmin() {
+  // 기본 휴가 유형 생성 (이미 있으면 건너뜀)
+  await ensureDefaultLeaveTypes(db);
+
   // 이미 admin 계정이 있는지 확인
   const existing = await db.select().from(users).where({ email: "admin@test.com" });
   if (existing.length === 0) {
-    await db.insert(users).values({
+    const [admin] = await db.insert(users).values({
       name: "Test Admin",
       email: "admin@test.com",
       password: "admin123", // 실제 서비스에서는 해시 필요
       role: "admin"
-    });
+    }).returning();
+    await grantDefaultBalances(db, admin.id);
     console.log("Test admin account created.");
   } else {
     console.log("Test admin account already exists.");
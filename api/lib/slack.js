@@ -1,4 +1,5 @@
 import { WebClient } from "@slack/web-api";
+import { describeSlackNotification } from "../../shared/slack.ts";
 
 const slack = new WebClient(
   process.env.SLACK_BOT_TOKEN || process.env.SLACK_WEBHOOK_URL || ""
@@ -14,30 +15,7 @@ export async function sendSlackNotification(data) {
   }
 
   try {
-    const { type, employeeName, startDate, endDate, leaveType, reason, days, remainingBalance } = data;
-    
-    let message = "";
-    let color = "#36a64f"; // green
-
-    switch (type) {
-      case "new_request":
-        message = `🗓️ *New Leave Request*\n\n*Employee:* ${employeeName}\n*Dates:* ${startDate} to ${endDate} (${days} days)\n*Type:* ${leaveType}\n*Reason:* ${reason}\n*Remaining Balance:* ${remainingBalance} days`;
-        color = "#ffaa00"; // orange
-        break;
-      
-      case "approved":
-        message = `✅ *Leave Request Approved*\n\n*Employee:* ${employeeName}\n*Dates:* ${startDate} to ${endDate} (${days} days)\n*Type:* ${leaveType}\n*Remaining Balance:* ${remainingBalance} days`;
-        color = "#36a64f"; // green
-        break;
-      
-      case "rejected":
-        message = `❌ *Leave Request Rejected*\n\n*Employee:* ${employeeName}\n*Dates:* ${startDate} to ${endDate} (${days} days)\n*Type:* ${leaveType}\n*Balance Restored:* ${remainingBalance} days`;
-        color = "#ff0000"; // red
-        break;
-      
-      default:
-        message = `📋 Leave request update for ${employeeName}`;
-    }
+    const { message, color } = describeSlackNotification(data);
 
     const result = await slack.chat.postMessage({
       channel: SLACK_CHANNEL_ID,
@@ -60,3 +38,13 @@ export async function sendSlackNotification(data) {
     }
   }
 }
+
+// Post the reminders and escalations from an escalation run
+export async function sendEscalationNotifications({ reminders, escalations }) {
+  for (const notice of reminders) {
+    await sendSlackNotification({ type: "approval_reminder", ...notice });
+  }
+  for (const notice of escalations) {
+    await sendSlackNotification({ type: "approval_escalated", ...notice });
+  }
+}
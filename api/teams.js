@@ -0,0 +1,116 @@
+import express from "express";
+import { db } from "./lib/db.js";
+import { teams, insertTeamSchema } from "../shared/schema.ts";
+import { findInvalidTeamReference, getTeams } from "../shared/teams.ts";
+import { eq } from "drizzle-orm";
+import { requireAuth, requireAdmin } from "./lib/auth.js";
+import { ZodError } from "zod";
+
+const router = express.Router();
+
+// Get teams; everyone can list them to filter the team calendar
+router.get("/", requireAuth, async (req, res) => {
+  try {
+    const allTeams = await getTeams(db);
+    res.json(allTeams);
+  } catch (error) {
+    console.error("Error fetching teams:", error);
+    res.status(500).json({ message: "Failed to fetch teams" });
+  }
+});
+
+// Create team (admin only)
+router.post("/", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validatedData = insertTeamSchema.parse(req.body);
+
+    const invalid = await findInvalidTeamReference(db, null, validatedData);
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+
+    const [team] = await db
+      .insert(teams)
+      .values(validatedData)
+      .onConflictDoNothing()
+      .returning();
+
+    if (!team) {
+      return res.status(409).json({ message: "A team with this name already exists" });
+    }
+
+    res.status(201).json(team);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error creating team:", error);
+    res.status(500).json({ message: "Failed to create team" });
+  }
+});
+
+// Update team (admin only)
+router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validatedData = insertTeamSchema.parse(req.body);
+
+    const invalid = await findInvalidTeamReference(db, id, validatedData);
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+
+    const [team] = await db
+      .update(teams)
+      .set(validatedData)
+      .where(eq(teams.id, id))
+      .returning();
+
+    if (!team) {
+      return res.status(404).json({ message: "Team not found" });
+    }
+
+    res.json(team);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    if (error.code === "23505") {
+      return res.status(409).json({ message: "A team with this name already exists" });
+    }
+
+    console.error("Error updating team:", error);
+    res.status(500).json({ message: "Failed to update team" });
+  }
+});
+
+// Delete team (admin only); members and sub-teams are left without a team
+router.delete("/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [team] = await db
+      .delete(teams)
+      .where(eq(teams.id, id))
+      .returning();
+
+    if (!team) {
+      return res.status(404).json({ message: "Team not found" });
+    }
+
+    res.json({ message: "Team deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting team:", error);
+    res.status(500).json({ message: "Failed to delete team" });
+  }
+});
+
+export default router;
@@ -1,15 +1,38 @@
 import express from "express";
 import { db } from "../lib/db.js";
-import { users } from "../shared/schema.ts";
-import { eq, ne } from "drizzle-orm";
-import { requireAuth, requireAdmin } from "../lib/auth.js";
+import {
+  users,
+  teams,
+  updateEmploymentSchema,
+  updateManagerSchema,
+  updateRoleSchema,
+  updateTeamMembershipSchema,
+} from "../shared/schema.ts";
+import {
+  getAllLeaveBalances,
+  getLeaveBalances,
+  getLeaveStatement,
+  recordLeaveTransaction,
+} from "../shared/leaveBalances.ts";
+import { getEntitlementPreview } from "../shared/leaveYear.ts";
+import { getActiveLeaveType } from "../shared/leaveTypes.ts";
+import { getReportIds } from "../shared/leaveRequests.ts";
+import { eq, ne, inArray } from "drizzle-orm";
+import { requireAuth, requireAdmin, requireApprover } from "../lib/auth.js";
+import { ZodError } from "zod";
 
 const router = express.Router();
 
 // Get current user
-router.get("/me", requireAuth, (req, res) => {
-  const { password, ...userWithoutPassword } = req.user;
-  res.json(userWithoutPassword);
+router.get("/me", requireAuth, async (req, res) => {
+  try {
+    const { password, ...userWithoutPassword } = req.user;
+    const leaveBalances = await getLeaveBalances(db, req.user.id);
+    res.json({ ...userWithoutPassword, leaveBalances });
+  } catch (error) {
+    console.error("Error fetching current user:", error);
+    res.status(500).json({ message: "Failed to fetch user" });
+  }
 });
 
 // Get all users (admin only)
@@ -21,18 +44,76 @@ router.get("/", requireAuth, requireAdmin, async (req, res) => {
         name: users.name,
         email: users.email,
         role: users.role,
-        leaveBalance: users.leaveBalance,
+        managerId: users.managerId,
+        teamId: users.teamId,
+        holidayCalendar: users.holidayCalendar,
+        hireDate: users.hireDate,
+        terminationDate: users.terminationDate,
+        entitlementOverride: users.entitlementOverride,
         createdAt: users.createdAt,
       })
       .from(users);
 
-    res.json(allUsers);
+    const balances = await getAllLeaveBalances(db);
+    res.json(allUsers.map((user) => ({
+      ...user,
+      leaveBalances: balances.get(user.id) ?? {},
+      entitlement: getEntitlementPreview(user),
+    })));
   } catch (error) {
     console.error("Error fetching users:", error);
     res.status(500).json({ message: "Failed to fetch users" });
   }
 });
 
+// Get the signed-in manager's direct and indirect reports, with balances
+router.get("/team", requireAuth, requireApprover, async (req, res) => {
+  try {
+    const reportIds = await getReportIds(db, req.user.id);
+
+    const team = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        managerId: users.managerId,
+        teamId: users.teamId,
+        hireDate: users.hireDate,
+        terminationDate: users.terminationDate,
+        entitlementOverride: users.entitlementOverride,
+      })
+      .from(users)
+      .where(inArray(users.id, reportIds));
+
+    const balances = await getAllLeaveBalances(db);
+    res.json(team.map((user) => ({
+      ...user,
+      leaveBalances: balances.get(user.id) ?? {},
+      entitlement: getEntitlementPreview(user),
+    })));
+  } catch (error) {
+    console.error("Error fetching team:", error);
+    res.status(500).json({ message: "Failed to fetch team" });
+  }
+});
+
+// Get managers and admins, for picking approvers and delegates
+router.get("/approvers", requireAuth, requireApprover, async (req, res) => {
+  try {
+    const approvers = await db
+      .select({ id: users.id, name: users.name, role: users.role })
+      .from(users)
+      .where(ne(users.role, "employee"))
+      .orderBy(users.name);
+
+    res.json(approvers);
+  } catch (error) {
+    console.error("Error fetching approvers:", error);
+    res.status(500).json({ message: "Failed to fetch approvers" });
+  }
+});
+
 // Get user by ID (admin only)
 router.get("/:id", requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -44,7 +125,12 @@ router.get("/:id", requireAuth, requireAdmin, async (req, res) => {
         name: users.name,
         email: users.email,
         role: users.role,
-        leaveBalance: users.leaveBalance,
+        managerId: users.managerId,
+        teamId: users.teamId,
+        holidayCalendar: users.holidayCalendar,
+        hireDate: users.hireDate,
+        terminationDate: users.terminationDate,
+        entitlementOverride: users.entitlementOverride,
         createdAt: users.createdAt,
       })
       .from(users)
@@ -55,33 +141,96 @@ router.get("/:id", requireAuth, requireAdmin, async (req, res) => {
       return res.status(404).json({ message: "User not found" });
     }
 
-    res.json(user);
+    const leaveBalances = await getLeaveBalances(db, user.id);
+    res.json({ ...user, leaveBalances, entitlement: getEntitlementPreview(user) });
   } catch (error) {
     console.error("Error fetching user:", error);
     res.status(500).json({ message: "Failed to fetch user" });
   }
 });
 
-// Update user leave balance (admin only)
+// Get a user's leave statement (admin, or the user themselves via "me")
+router.get("/:id/leave-statement", requireAuth, async (req, res) => {
+  try {
+    const userId = req.params.id === "me" ? req.user.id : req.params.id;
+
+    if (userId !== req.user.id && req.user.role !== "admin") {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const entries = await getLeaveStatement(db, userId);
+    const leaveBalances = await getLeaveBalances(db, userId);
+
+    res.json({ userId, leaveBalances, entries });
+  } catch (error) {
+    console.error("Error fetching leave statement:", error);
+    res.status(500).json({ message: "Failed to fetch leave statement" });
+  }
+});
+
+// Manually adjust a user's balance for one leave type (admin only)
 router.patch("/:id/leave-balance", requireAuth, requireAdmin, async (req, res) => {
   try {
     const { id } = req.params;
-    const { leaveBalance } = req.body;
+    const { leaveType, amount, reason } = req.body;
+
+    if (typeof leaveType !== "string" || !(await getActiveLeaveType(db, leaveType))) {
+      return res.status(400).json({ message: "Invalid leave type" });
+    }
+    if (typeof amount !== "number" || amount === 0 || !Number.isFinite(amount)) {
+      return res.status(400).json({ message: "Adjustment amount must be a non-zero number" });
+    }
+    if (typeof reason !== "string" || reason.trim() === "") {
+      return res.status(400).json({ message: "A reason is required for manual adjustments" });
+    }
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1);
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await recordLeaveTransaction(db, {
+      userId: id,
+      leaveType,
+      kind: "adjustment",
+      amount,
+      reason: reason.trim(),
+      createdById: req.user.id,
+    });
+    const leaveBalances = await getLeaveBalances(db, id);
+
+    res.json({ id, leaveBalances });
+  } catch (error) {
+    console.error("Error updating leave balance:", error);
+    res.status(500).json({ message: "Failed to update leave balance" });
+  }
+});
+
+// Assign a user's holiday calendar (admin only)
+router.patch("/:id/holiday-calendar", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { holidayCalendar } = req.body;
 
-    if (typeof leaveBalance !== "number" || leaveBalance < 0) {
-      return res.status(400).json({ message: "Invalid leave balance" });
+    if (typeof holidayCalendar !== "string" || holidayCalendar.trim() === "") {
+      return res.status(400).json({ message: "Invalid holiday calendar" });
     }
 
     const [updatedUser] = await db
       .update(users)
-      .set({ leaveBalance })
+      .set({ holidayCalendar: holidayCalendar.trim() })
       .where(eq(users.id, id))
       .returning({
         id: users.id,
         name: users.name,
         email: users.email,
         role: users.role,
-        leaveBalance: users.leaveBalance,
+        holidayCalendar: users.holidayCalendar,
       });
 
     if (!updatedUser) {
@@ -90,8 +239,218 @@ router.patch("/:id/leave-balance", requireAuth, requireAdmin, async (req, res) =
 
     res.json(updatedUser);
   } catch (error) {
-    console.error("Error updating leave balance:", error);
-    res.status(500).json({ message: "Failed to update leave balance" });
+    console.error("Error updating holiday calendar:", error);
+    res.status(500).json({ message: "Failed to update holiday calendar" });
+  }
+});
+
+// Set a user's hire and termination dates, used to pro-rate accruals (admin only)
+router.patch("/:id/employment", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { hireDate, terminationDate } = updateEmploymentSchema.parse(req.body);
+
+    if (hireDate && terminationDate && terminationDate < hireDate) {
+      return res.status(400).json({ message: "Termination date must be on or after the hire date" });
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ hireDate: hireDate ?? null, terminationDate: terminationDate ?? null })
+      .where(eq(users.id, id))
+      .returning({
+        id: users.id,
+        name: users.name,
+        hireDate: users.hireDate,
+        terminationDate: users.terminationDate,
+      });
+
+    if (!updatedUser) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.json(updatedUser);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error updating employment dates:", error);
+    res.status(500).json({ message: "Failed to update employment dates" });
+  }
+});
+
+// Override a user's statutory yearly annual-leave allotment; null restores the statute (admin only)
+router.patch("/:id/entitlement-override", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { entitlementOverride } = req.body;
+
+    if (entitlementOverride !== null && (typeof entitlementOverride !== "number" || !Number.isFinite(entitlementOverride) || entitlementOverride < 0)) {
+      return res.status(400).json({ message: "Entitlement override must be a non-negative number or null" });
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ entitlementOverride })
+      .where(eq(users.id, id))
+      .returning({
+        id: users.id,
+        hireDate: users.hireDate,
+        terminationDate: users.terminationDate,
+        entitlementOverride: users.entitlementOverride,
+      });
+
+    if (!updatedUser) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.json({ ...updatedUser, entitlement: getEntitlementPreview(updatedUser) });
+  } catch (error) {
+    console.error("Error updating entitlement override:", error);
+    res.status(500).json({ message: "Failed to update entitlement override" });
+  }
+});
+
+// Put a user in a team; null removes them from it (admin only)
+router.patch("/:id/team", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { teamId } = updateTeamMembershipSchema.parse(req.body);
+
+    if (teamId) {
+      const [team] = await db
+        .select({ id: teams.id })
+        .from(teams)
+        .where(eq(teams.id, teamId))
+        .limit(1);
+
+      if (!team) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ teamId })
+      .where(eq(users.id, id))
+      .returning({
+        id: users.id,
+        name: users.name,
+        teamId: users.teamId,
+      });
+
+    if (!updatedUser) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.json(updatedUser);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error updating user team:", error);
+    res.status(500).json({ message: "Failed to update user team" });
+  }
+});
+
+// Assign a user's line manager; null removes it (admin only)
+router.patch("/:id/manager", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { managerId } = updateManagerSchema.parse(req.body);
+
+    if (managerId) {
+      if (managerId === id) {
+        return res.status(400).json({ message: "A user cannot manage themselves" });
+      }
+
+      const [manager] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, managerId))
+        .limit(1);
+
+      if (!manager) {
+        return res.status(400).json({ message: "Manager not found" });
+      }
+
+      // Reporting lines must not loop back to the user
+      if ((await getReportIds(db, id)).includes(managerId)) {
+        return res.status(400).json({ message: "The manager already reports to this user" });
+      }
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ managerId })
+      .where(eq(users.id, id))
+      .returning({
+        id: users.id,
+        name: users.name,
+        managerId: users.managerId,
+      });
+
+    if (!updatedUser) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.json(updatedUser);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error updating manager:", error);
+    res.status(500).json({ message: "Failed to update manager" });
+  }
+});
+
+// Change a user's role (admin only)
+router.patch("/:id/role", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { role } = updateRoleSchema.parse(req.body);
+
+    if (id === req.user.id) {
+      return res.status(400).json({ message: "You cannot change your own role" });
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning({
+        id: users.id,
+        name: users.name,
+        role: users.role,
+      });
+
+    if (!updatedUser) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.json(updatedUser);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    console.error("Error updating role:", error);
+    res.status(500).json({ message: "Failed to update role" });
   }
 });
 
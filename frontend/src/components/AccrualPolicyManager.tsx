@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+
+interface AccrualPolicy {
+  id: string;
+  name: string;
+  leaveType: string;
+  frequency: "monthly" | "pay_period";
+  amount: number;
+  payPeriodDays: number | null;
+  effectiveFrom: string;
+  active: boolean;
+}
+
+interface AccrualRunResult {
+  asOf: string;
+  posted: number;
+  skipped: number;
+}
+
+export default function AccrualPolicyManager() {
+  const [name, setName] = useState("");
+  const [leaveType, setLeaveType] = useState("annual");
+  const [frequency, setFrequency] = useState<AccrualPolicy["frequency"]>("monthly");
+  const [amount, setAmount] = useState("");
+  const [payPeriodDays, setPayPeriodDays] = useState("14");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+
+  const { data: policies = [], isLoading } = useQuery<AccrualPolicy[]>({
+    queryKey: ["/api/accrual-policies"],
+  });
+
+  const createPolicyMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/accrual-policies", {
+        name,
+        leaveType,
+        frequency,
+        amount: Number(amount),
+        payPeriodDays: frequency === "pay_period" ? Number(payPeriodDays) : null,
+        effectiveFrom,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Accrual policy added",
+        description: `${name} will accrue from ${effectiveFrom}.`,
+      });
+      setName("");
+      setAmount("");
+      queryClient.invalidateQueries({ queryKey: ["/api/accrual-policies"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to add accrual policy.",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (policy: AccrualPolicy) => {
+      const { id, ...fields } = policy;
+      return apiRequest("PUT", `/api/accrual-policies/${id}`, { ...fields, active: !policy.active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accrual-policies"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update accrual policy.",
+      });
+    },
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: async (policyId: string) => {
+      return apiRequest("DELETE", `/api/accrual-policies/${policyId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Accrual policy deleted",
+        description: "Days already accrued remain on employee balances.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/accrual-policies"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete accrual policy.",
+      });
+    },
+  });
+
+  const runAccrualsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/accrual-policies/run", {});
+      return response.json() as Promise<AccrualRunResult>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Accruals posted",
+        description: `${result.posted} posted, ${result.skipped} already recorded as of ${result.asOf}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to run accruals.",
+      });
+    },
+  });
+
+  const amountValue = Number(amount);
+  const canSubmit = name.trim() !== ""
+    && amount !== ""
+    && amountValue > 0
+    && effectiveFrom !== ""
+    && (frequency === "monthly" || Number(payPeriodDays) > 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Accrual Policies</CardTitle>
+          <CardDescription>
+            Leave earned each month or pay period, pro-rated by hire and termination date
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => runAccrualsMutation.mutate()}
+          disabled={runAccrualsMutation.isPending}
+          data-testid="button-run-accruals"
+        >
+          <Play className="h-4 w-4 mr-2" />
+          Run Accruals
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createPolicyMutation.mutate();
+          }}
+        >
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="accrual-name">Name</Label>
+            <Input
+              id="accrual-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Monthly annual leave"
+              data-testid="input-accrual-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Leave Type</Label>
+            <Select value={leaveType} onValueChange={setLeaveType}>
+              <SelectTrigger data-testid="select-accrual-leave-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {leaveTypes.map((type) => (
+                  <SelectItem key={type.key} value={type.key}>{type.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select
+              value={frequency}
+              onValueChange={(value) => setFrequency(value as AccrualPolicy["frequency"])}
+            >
+              <SelectTrigger data-testid="select-accrual-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="monthly">Monthly</SelectItem>
+                <SelectItem value="pay_period">Pay period</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="accrual-amount">Days per period</Label>
+            <Input
+              id="accrual-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              placeholder="e.g. 1.25"
+              data-testid="input-accrual-amount"
+            />
+          </div>
+          {frequency === "pay_period" ? (
+            <div className="space-y-2">
+              <Label htmlFor="accrual-period-days">Period length (days)</Label>
+              <Input
+                id="accrual-period-days"
+                type="number"
+                min="1"
+                value={payPeriodDays}
+                onChange={(event) => setPayPeriodDays(event.target.value)}
+                data-testid="input-accrual-period-days"
+              />
+            </div>
+          ) : (
+            <div />
+          )}
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="accrual-effective-from">Effective from</Label>
+            <Input
+              id="accrual-effective-from"
+              type="date"
+              value={effectiveFrom}
+              onChange={(event) => setEffectiveFrom(event.target.value)}
+              data-testid="input-accrual-effective-from"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!canSubmit || createPolicyMutation.isPending}
+            data-testid="button-add-accrual-policy"
+          >
+            Add Policy
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : policies.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">
+              No accrual policies. New employees receive their full entitlement up front.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Accrues</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id} data-testid={`accrual-policy-row-${policy.id}`}>
+                  <TableCell className="font-medium">{policy.name}</TableCell>
+                  <TableCell>{labelFor(policy.leaveType)}</TableCell>
+                  <TableCell>
+                    {policy.amount} days per{" "}
+                    {policy.frequency === "monthly" ? "month" : `${policy.payPeriodDays}-day pay period`}
+                  </TableCell>
+                  <TableCell>{format(parseISO(policy.effectiveFrom), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant={policy.active ? "default" : "outline"}
+                      onClick={() => toggleActiveMutation.mutate(policy)}
+                      disabled={toggleActiveMutation.isPending}
+                      data-testid={`button-toggle-accrual-policy-${policy.id}`}
+                    >
+                      {policy.active ? "Active" : "Paused"}
+                    </Button>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deletePolicyMutation.mutate(policy.id)}
+                      disabled={deletePolicyMutation.isPending}
+                      data-testid={`button-delete-accrual-policy-${policy.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,22 +1,64 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format, parseISO } from "date-fns";
+import { MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { useTeams } from "@/hooks/use-teams";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  formatAge,
+  formatLeaveDates,
+  formatStatus,
+  slaColors,
+  slaLabels,
+  type ApprovalStep,
+  type CoverageReport,
+  type DayPortion,
+  type RequestSla,
+} from "@/lib/leaveFormat";
 import LeaveCalendar from "./LeaveCalendar";
+import HolidayManager from "./HolidayManager";
+import EmployeeStatementDialog, { type EntitlementPreview } from "./EmployeeStatementDialog";
+import AccrualPolicyManager from "./AccrualPolicyManager";
+import YearEndClose from "./YearEndClose";
+import LeaveTypeManager from "./LeaveTypeManager";
+import ApprovalChainManager from "./ApprovalChainManager";
+import AutoApprovalRuleManager from "./AutoApprovalRuleManager";
+import ApprovalSlaSettings from "./ApprovalSlaSettings";
+import ApprovalTrail from "./ApprovalTrail";
+import LeaveRequestDetailDialog from "./LeaveRequestDetailDialog";
+import DelegationManager from "./DelegationManager";
+import LeaveRequestForm from "./LeaveRequestForm";
+import TeamManager from "./TeamManager";
+import BlackoutPeriodManager from "./BlackoutPeriodManager";
 
 interface LeaveRequest {
   id: string;
   startDate: string;
   endDate: string;
+  startPortion: DayPortion;
+  endPortion: DayPortion;
+  hours: number | null;
   leaveType: string;
   status: string;
   reason: string;
+  // Set when an auto-approval rule approved the request on submission
+  autoApprovalRuleName: string | null;
+  // Differs from the employee when an admin or manager filed on their behalf
+  createdById: string | null;
+  seriesId: string | null;
+  approvals: ApprovalStep[];
+  // Only set while the request is pending
+  sla: RequestSla | null;
+  coverage: CoverageReport | null;
   user: {
     id: string;
     name: string;
@@ -25,37 +67,77 @@ interface LeaveRequest {
   createdAt: string;
 }
 
+interface BulkDecisionResult {
+  id: string;
+  outcome: "approved" | "rejected" | "step_approved" | "skipped" | "forbidden" | "not_found" | "conflict";
+  message: string;
+}
+
 interface User {
   id: string;
   name: string;
   email: string;
   role: string;
-  leaveBalance: number;
+  managerId: string | null;
+  teamId: string | null;
+  hireDate: string | null;
+  terminationDate: string | null;
+  entitlementOverride: number | null;
+  entitlement: EntitlementPreview | null;
+  leaveBalances: Record<string, number>;
+}
+
+interface AdminDashboardProps {
+  // "team" limits the dashboard to a manager's reports and their requests
+  scope?: "company" | "team";
 }
 
-export default function AdminDashboard() {
+const roleLabels: Record<string, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  employee: "Employee",
+};
+
+export default function AdminDashboard({ scope = "company" }: AdminDashboardProps) {
+  const isTeam = scope === "team";
+  const usersQueryKey = isTeam ? ["/api/users/team"] : ["/api/users"];
+  const [statementUser, setStatementUser] = useState<User | null>(null);
+  const [detailRequest, setDetailRequest] = useState<LeaveRequest | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkNote, setBulkNote] = useState("");
+  const [filingForEmployee, setFilingForEmployee] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+  const { teams, labelFor: teamLabelFor } = useTeams();
+  const balanceTypes = leaveTypes.filter((leaveType) => leaveType.deductsBalance);
 
   const { data: leaveRequests = [], isLoading: requestsLoading } = useQuery<LeaveRequest[]>({
     queryKey: ["/api/leave-requests", { all: true }],
   });
 
   const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
-    queryKey: ["/api/users"],
+    queryKey: usersQueryKey,
   });
 
+  const managers = users.filter((user) => user.role === "manager" || user.role === "admin");
+
+  // Only shown when a statutory scheme is configured on the server
+  const hasStatutoryEntitlement = users.some((user) => user.entitlement);
+
   const approveRequestMutation = useMutation({
     mutationFn: async (requestId: string) => {
-      return apiRequest("POST", `/api/leave-requests/${requestId}/approve`);
+      const response = await apiRequest("POST", `/api/leave-requests/${requestId}/approve`);
+      return response.json() as Promise<{ message: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      // Earlier steps of an approval chain leave the request pending
       toast({
         title: "Request approved",
-        description: "The leave request has been approved successfully.",
+        description: result.message,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: usersQueryKey });
     },
     onError: (error) => {
       toast({
@@ -66,23 +148,128 @@ export default function AdminDashboard() {
     },
   });
 
-  const rejectRequestMutation = useMutation({
-    mutationFn: async (requestId: string) => {
-      return apiRequest("POST", `/api/leave-requests/${requestId}/reject`);
+  // One note goes with every selected request: an approval comment or the rejection reason
+  const bulkDecisionMutation = useMutation({
+    mutationFn: async ({ ids, decision }: { ids: string[]; decision: "approve" | "reject" }) => {
+      const note = bulkNote.trim();
+      const response = await apiRequest("POST", `/api/leave-requests/bulk/${decision}`, decision === "approve"
+        ? { ids, comment: note || undefined }
+        : { ids, reason: note });
+      return response.json() as Promise<{ message: string; results: BulkDecisionResult[] }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      const notDecided = result.results.filter((entry) =>
+        entry.outcome === "skipped" || entry.outcome === "forbidden" || entry.outcome === "not_found" || entry.outcome === "conflict"
+      );
+      toast({
+        title: "Requests decided",
+        description: notDecided.length > 0
+          ? `${result.message}. ${notDecided.length} skipped: ${notDecided.map((entry) => entry.message).join("; ")}.`
+          : result.message,
+      });
+      setSelectedIds([]);
+      setBulkNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+      queryClient.invalidateQueries({ queryKey: usersQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to decide requests.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+    },
+  });
+
+  const decideCancellationMutation = useMutation({
+    mutationFn: async ({ requestId, decision }: { requestId: string; decision: "approve" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/leave-requests/${requestId}/cancellation/${decision}`);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Cancellation decided",
+        description: result.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+      queryClient.invalidateQueries({ queryKey: usersQueryKey });
+    },
+    onError: (error) => {
       toast({
-        title: "Request rejected",
-        description: "The leave request has been rejected.",
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to decide cancellation.",
+      });
+    },
+  });
+
+  // The escalation job normally runs on a schedule; admins can run it on demand
+  const runEscalationsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/approval-sla/run");
+      return response.json() as Promise<{ reminders: unknown[]; escalations: unknown[] }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "SLA check complete",
+        description: `${result.reminders.length} reminded, ${result.escalations.length} escalated.`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to run escalations.",
+      });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      return apiRequest("PATCH", `/api/users/${userId}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update role.",
+      });
+    },
+  });
+
+  const updateManagerMutation = useMutation({
+    mutationFn: async ({ userId, managerId }: { userId: string; managerId: string | null }) => {
+      return apiRequest("PATCH", `/api/users/${userId}/manager`, { managerId });
+    },
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
     },
     onError: (error) => {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to reject request.",
+        description: error.message || "Failed to update manager.",
+      });
+    },
+  });
+
+  const updateTeamMutation = useMutation({
+    mutationFn: async ({ userId, teamId }: { userId: string; teamId: string | null }) => {
+      return apiRequest("PATCH", `/api/users/${userId}/team`, { teamId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update team.",
       });
     },
   });
@@ -95,6 +282,8 @@ export default function AdminDashboard() {
         return 'bg-yellow-100 text-yellow-800';
       case 'rejected':
         return 'bg-red-100 text-red-800';
+      case 'cancellation_requested':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -105,21 +294,36 @@ export default function AdminDashboard() {
     new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
 
+  // Selections of requests that have since left pending are dropped
+  const selectedPendingIds = selectedIds.filter((id) => pendingRequests.some((request) => request.id === id));
+  const allPendingSelected = pendingRequests.length > 0 && selectedPendingIds.length === pendingRequests.length;
+
+  const toggleSelected = (requestId: string, selected: boolean) => {
+    setSelectedIds((current) => selected
+      ? [...current, requestId]
+      : current.filter((id) => id !== requestId));
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-3xl font-bold" data-testid="admin-dashboard-title">Admin Dashboard</h1>
+        <h1 className="text-3xl font-bold" data-testid="admin-dashboard-title">
+          {isTeam ? "My Team" : "Admin Dashboard"}
+        </h1>
+        <Button onClick={() => setFilingForEmployee(true)} data-testid="button-new-request-for-employee">
+          New Request for Employee
+        </Button>
       </div>
 
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Employees</CardTitle>
+            <CardTitle className="text-sm font-medium">{isTeam ? "Team Members" : "Total Employees"}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold" data-testid="total-employees">
-              {users.filter(user => user.role === 'employee').length}
+              {isTeam ? users.length : users.filter(user => user.role === 'employee').length}
             </div>
           </CardContent>
         </Card>
@@ -161,19 +365,74 @@ export default function AdminDashboard() {
       <Tabs defaultValue="requests" className="space-y-4">
         <TabsList>
           <TabsTrigger value="requests" data-testid="tab-requests">Leave Requests</TabsTrigger>
-          <TabsTrigger value="employees" data-testid="tab-employees">Employees</TabsTrigger>
+          <TabsTrigger value="employees" data-testid="tab-employees">{isTeam ? "Team" : "Employees"}</TabsTrigger>
           <TabsTrigger value="calendar" data-testid="tab-calendar">Calendar</TabsTrigger>
+          <TabsTrigger value="delegation" data-testid="tab-delegation">Delegation</TabsTrigger>
+          {!isTeam && (
+            <>
+              <TabsTrigger value="teams" data-testid="tab-teams">Teams</TabsTrigger>
+              <TabsTrigger value="holidays" data-testid="tab-holidays">Holidays & Blackouts</TabsTrigger>
+              <TabsTrigger value="leave-types" data-testid="tab-leave-types">Leave Types</TabsTrigger>
+              <TabsTrigger value="approvals" data-testid="tab-approvals">Approvals</TabsTrigger>
+              <TabsTrigger value="accruals" data-testid="tab-accruals">Accruals</TabsTrigger>
+              <TabsTrigger value="year-end" data-testid="tab-year-end">Year End</TabsTrigger>
+            </>
+          )}
         </TabsList>
 
         <TabsContent value="requests">
           <Card>
-            <CardHeader>
-              <CardTitle>Leave Requests</CardTitle>
-              <CardDescription>
-                Manage employee leave requests
-              </CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Leave Requests</CardTitle>
+                <CardDescription>
+                  {isTeam ? "Review leave requests from your reports" : "Manage employee leave requests"}
+                </CardDescription>
+              </div>
+              {!isTeam && (
+                <Button
+                  variant="outline"
+                  onClick={() => runEscalationsMutation.mutate()}
+                  disabled={runEscalationsMutation.isPending}
+                  data-testid="button-run-escalations"
+                >
+                  Check SLAs
+                </Button>
+              )}
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              {selectedPendingIds.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 rounded-md border p-3" data-testid="bulk-actions">
+                  <span className="text-sm font-medium">{selectedPendingIds.length} selected</span>
+                  <Input
+                    className="max-w-sm"
+                    value={bulkNote}
+                    onChange={(event) => setBulkNote(event.target.value)}
+                    placeholder="Comment, required to reject"
+                    data-testid="input-bulk-note"
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => bulkDecisionMutation.mutate({ ids: selectedPendingIds, decision: "approve" })}
+                    disabled={bulkDecisionMutation.isPending}
+                    data-testid="button-bulk-approve"
+                  >
+                    Approve Selected
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => bulkDecisionMutation.mutate({ ids: selectedPendingIds, decision: "reject" })}
+                    disabled={bulkDecisionMutation.isPending || bulkNote.trim() === ""}
+                    data-testid="button-bulk-reject"
+                  >
+                    Reject Selected
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setSelectedIds([])}>
+                    Clear
+                  </Button>
+                </div>
+              )}
               {requestsLoading ? (
                 <div className="flex items-center justify-center h-32">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
@@ -182,51 +441,150 @@ export default function AdminDashboard() {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-8">
+                        <input
+                          type="checkbox"
+                          aria-label="Select all pending requests"
+                          checked={allPendingSelected}
+                          disabled={pendingRequests.length === 0}
+                          onChange={(event) => setSelectedIds(event.target.checked
+                            ? pendingRequests.map((request) => request.id)
+                            : [])}
+                          data-testid="checkbox-select-all-requests"
+                        />
+                      </TableHead>
                       <TableHead>Employee</TableHead>
                       <TableHead>Dates</TableHead>
                       <TableHead>Type</TableHead>
                       <TableHead>Reason</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>Waiting</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {allRequests.map((request) => (
                       <TableRow key={request.id} data-testid={`request-row-${request.id}`}>
+                        <TableCell>
+                          {request.status === 'pending' && (
+                            <input
+                              type="checkbox"
+                              aria-label={`Select request from ${request.user.name}`}
+                              checked={selectedPendingIds.includes(request.id)}
+                              onChange={(event) => toggleSelected(request.id, event.target.checked)}
+                              data-testid={`checkbox-request-${request.id}`}
+                            />
+                          )}
+                        </TableCell>
                         <TableCell className="font-medium">{request.user.name}</TableCell>
                         <TableCell>
-                          {format(parseISO(request.startDate), 'MMM dd')} - {format(parseISO(request.endDate), 'MMM dd')}
+                          {formatLeaveDates(request)}
                         </TableCell>
-                        <TableCell className="capitalize">{request.leaveType}</TableCell>
+                        <TableCell>{labelFor(request.leaveType)}</TableCell>
                         <TableCell className="max-w-xs truncate">{request.reason}</TableCell>
                         <TableCell>
                           <Badge className={getStatusColor(request.status)}>
-                            {request.status}
+                            {formatStatus(request.status)}
                           </Badge>
+                          {request.autoApprovalRuleName && (
+                            <Badge
+                              variant="outline"
+                              className="ml-1"
+                              data-testid={`auto-approved-${request.id}`}
+                            >
+                              Auto-approved: {request.autoApprovalRuleName}
+                            </Badge>
+                          )}
+                          {request.createdById && request.createdById !== request.user.id && (
+                            <Badge
+                              variant="outline"
+                              className="ml-1"
+                              data-testid={`entered-by-${request.id}`}
+                            >
+                              Entered by {users.find((user) => user.id === request.createdById)?.name ?? "an approver"}
+                            </Badge>
+                          )}
+                          {request.seriesId && (
+                            <Badge variant="outline" className="ml-1" data-testid={`recurring-${request.id}`}>
+                              Repeats
+                            </Badge>
+                          )}
+                          {request.coverage?.breached && (
+                            <Badge
+                              className="ml-1 cursor-pointer bg-red-100 text-red-800"
+                              onClick={() => setDetailRequest(request)}
+                              title="Approving leaves the team below its minimum staffing; open for the daily breakdown"
+                              data-testid={`coverage-breach-${request.id}`}
+                            >
+                              Short-staffed
+                            </Badge>
+                          )}
+                          <ApprovalTrail requestId={request.id} status={request.status} approvals={request.approvals} />
                         </TableCell>
                         <TableCell>
-                          {request.status === 'pending' && (
-                            <div className="flex space-x-2">
-                              <Button
-                                size="sm"
-                                onClick={() => approveRequestMutation.mutate(request.id)}
-                                disabled={approveRequestMutation.isPending}
-                                data-testid={`button-approve-${request.id}`}
-                              >
-                                Approve
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                onClick={() => rejectRequestMutation.mutate(request.id)}
-                                disabled={rejectRequestMutation.isPending}
-                                data-testid={`button-reject-${request.id}`}
-                              >
-                                Reject
-                              </Button>
+                          {request.sla ? (
+                            <div className="space-y-1" data-testid={`request-sla-${request.id}`}>
+                              <div className="text-sm">{formatAge(request.sla.ageHours)}</div>
+                              <Badge className={slaColors[request.sla.status]}>{slaLabels[request.sla.status]}</Badge>
                             </div>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
                           )}
                         </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            {request.status === 'pending' && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  onClick={() => approveRequestMutation.mutate(request.id)}
+                                  disabled={approveRequestMutation.isPending}
+                                  data-testid={`button-approve-${request.id}`}
+                                >
+                                  Approve
+                                </Button>
+                                {/* Rejecting needs a reason, entered in the detail dialog */}
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => setDetailRequest(request)}
+                                  data-testid={`button-reject-${request.id}`}
+                                >
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                            {request.status === 'cancellation_requested' && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  onClick={() => decideCancellationMutation.mutate({ requestId: request.id, decision: "approve" })}
+                                  disabled={decideCancellationMutation.isPending}
+                                  data-testid={`button-approve-cancellation-${request.id}`}
+                                >
+                                  Approve Cancellation
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => decideCancellationMutation.mutate({ requestId: request.id, decision: "reject" })}
+                                  disabled={decideCancellationMutation.isPending}
+                                  data-testid={`button-keep-leave-${request.id}`}
+                                >
+                                  Keep Leave
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setDetailRequest(request)}
+                              data-testid={`button-details-${request.id}`}
+                            >
+                              <MessageSquare className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -239,9 +597,11 @@ export default function AdminDashboard() {
         <TabsContent value="employees">
           <Card>
             <CardHeader>
-              <CardTitle>Employee Management</CardTitle>
+              <CardTitle>{isTeam ? "Team Members" : "Employee Management"}</CardTitle>
               <CardDescription>
-                View employee information and leave balances
+                {isTeam
+                  ? "Your direct and indirect reports and their leave balances"
+                  : "View employee information and leave balances"}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -256,7 +616,14 @@ export default function AdminDashboard() {
                       <TableHead>Name</TableHead>
                       <TableHead>Email</TableHead>
                       <TableHead>Role</TableHead>
-                      <TableHead>Leave Balance</TableHead>
+                      <TableHead>Manager</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Hired</TableHead>
+                      {hasStatutoryEntitlement && <TableHead>Entitlement</TableHead>}
+                      {balanceTypes.map((leaveType) => (
+                        <TableHead key={leaveType.key}>{leaveType.name}</TableHead>
+                      ))}
+                      {!isTeam && <TableHead>Actions</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -264,8 +631,101 @@ export default function AdminDashboard() {
                       <TableRow key={user.id} data-testid={`user-row-${user.id}`}>
                         <TableCell className="font-medium">{user.name}</TableCell>
                         <TableCell>{user.email}</TableCell>
-                        <TableCell className="capitalize">{user.role}</TableCell>
-                        <TableCell>{user.leaveBalance} days</TableCell>
+                        <TableCell>
+                          {isTeam ? (
+                            roleLabels[user.role] ?? user.role
+                          ) : (
+                            <Select
+                              value={user.role}
+                              onValueChange={(role) => updateRoleMutation.mutate({ userId: user.id, role })}
+                            >
+                              <SelectTrigger className="w-32" data-testid={`select-role-${user.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(roleLabels).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {isTeam ? (
+                            users.find((manager) => manager.id === user.managerId)?.name ?? "You"
+                          ) : (
+                            <Select
+                              value={user.managerId ?? "none"}
+                              onValueChange={(managerId) => updateManagerMutation.mutate({
+                                userId: user.id,
+                                managerId: managerId === "none" ? null : managerId,
+                              })}
+                            >
+                              <SelectTrigger className="w-40" data-testid={`select-manager-${user.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No manager</SelectItem>
+                                {managers
+                                  .filter((manager) => manager.id !== user.id)
+                                  .map((manager) => (
+                                    <SelectItem key={manager.id} value={manager.id}>{manager.name}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {isTeam ? (
+                            teamLabelFor(user.teamId) || "—"
+                          ) : (
+                            <Select
+                              value={user.teamId ?? "none"}
+                              onValueChange={(teamId) => updateTeamMutation.mutate({
+                                userId: user.id,
+                                teamId: teamId === "none" ? null : teamId,
+                              })}
+                            >
+                              <SelectTrigger className="w-48" data-testid={`select-team-${user.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No team</SelectItem>
+                                {teams.map((team) => (
+                                  <SelectItem key={team.id} value={team.id}>{teamLabelFor(team.id)}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {user.hireDate ? format(parseISO(user.hireDate), 'MMM dd, yyyy') : "—"}
+                        </TableCell>
+                        {hasStatutoryEntitlement && (
+                          <TableCell data-testid={`user-entitlement-${user.id}`}>
+                            {user.entitlement ? `${user.entitlement.effectiveDays} days` : "—"}
+                            {user.entitlement?.override != null && (
+                              <Badge variant="outline" className="ml-2">override</Badge>
+                            )}
+                          </TableCell>
+                        )}
+                        {balanceTypes.map(({ key: leaveType }) => (
+                          <TableCell key={leaveType} data-testid={`user-balance-${user.id}-${leaveType}`}>
+                            {user.leaveBalances[leaveType] ?? 0} days
+                          </TableCell>
+                        ))}
+                        {!isTeam && (
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setStatementUser(user)}
+                              data-testid={`button-statement-${user.id}`}
+                            >
+                              Statement
+                            </Button>
+                          </TableCell>
+                        )}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -278,7 +738,55 @@ export default function AdminDashboard() {
         <TabsContent value="calendar">
           <LeaveCalendar showAllEmployees={true} />
         </TabsContent>
+
+        <TabsContent value="delegation">
+          <DelegationManager showAll={!isTeam} />
+        </TabsContent>
+
+        <TabsContent value="holidays" className="space-y-6">
+          <HolidayManager />
+          <BlackoutPeriodManager />
+        </TabsContent>
+
+        <TabsContent value="teams">
+          <TeamManager />
+        </TabsContent>
+
+        <TabsContent value="leave-types">
+          <LeaveTypeManager />
+        </TabsContent>
+
+        <TabsContent value="approvals" className="space-y-6">
+          <ApprovalChainManager />
+          <AutoApprovalRuleManager />
+          <ApprovalSlaSettings />
+        </TabsContent>
+
+        <TabsContent value="accruals">
+          <AccrualPolicyManager />
+        </TabsContent>
+
+        <TabsContent value="year-end">
+          <YearEndClose />
+        </TabsContent>
       </Tabs>
+
+      <EmployeeStatementDialog
+        employee={users.find((user) => user.id === statementUser?.id) ?? null}
+        onOpenChange={(open) => !open && setStatementUser(null)}
+      />
+
+      <LeaveRequestDetailDialog
+        request={leaveRequests.find((request) => request.id === detailRequest?.id) ?? null}
+        onOpenChange={(open) => !open && setDetailRequest(null)}
+        canReview
+      />
+
+      <LeaveRequestForm
+        open={filingForEmployee}
+        onOpenChange={setFilingForEmployee}
+        employees={users}
+      />
     </div>
   );
 }
@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Edit2, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { apiRequest } from "@/lib/queryClient";
+import { describeApprover } from "@/lib/leaveFormat";
+
+interface ChainStep {
+  approverRole: "manager" | "admin" | null;
+  approverId: string | null;
+}
+
+interface ApprovalChain {
+  id: string;
+  name: string;
+  leaveType: string | null;
+  minDays: number | null;
+  unpaidOnly: boolean;
+  priority: number;
+  active: boolean;
+  steps: ChainStep[];
+}
+
+interface Approver {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface ChainDraft {
+  name: string;
+  leaveType: string;
+  minDays: string;
+  unpaidOnly: boolean;
+  priority: string;
+  // "role:manager", "role:admin" or "user:<id>"
+  steps: string[];
+}
+
+const ANY_LEAVE_TYPE = "any";
+
+const emptyDraft: ChainDraft = {
+  name: "",
+  leaveType: ANY_LEAVE_TYPE,
+  minDays: "",
+  unpaidOnly: false,
+  priority: "0",
+  steps: ["role:manager"],
+};
+
+function stepToValue(step: ChainStep) {
+  return step.approverId ? `user:${step.approverId}` : `role:${step.approverRole}`;
+}
+
+function valueToStep(value: string): ChainStep {
+  const [kind, id] = value.split(":");
+  return kind === "user"
+    ? { approverRole: null, approverId: id }
+    : { approverRole: id as ChainStep["approverRole"], approverId: null };
+}
+
+function toPayload(draft: ChainDraft, active: boolean) {
+  return {
+    name: draft.name,
+    leaveType: draft.leaveType === ANY_LEAVE_TYPE ? null : draft.leaveType,
+    minDays: draft.minDays === "" ? null : Number(draft.minDays),
+    unpaidOnly: draft.unpaidOnly,
+    priority: Number(draft.priority || 0),
+    active,
+    steps: draft.steps.map(valueToStep),
+  };
+}
+
+export default function ApprovalChainManager() {
+  const [draft, setDraft] = useState<ChainDraft>(emptyDraft);
+  const [editing, setEditing] = useState<ApprovalChain | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+
+  const { data: chains = [], isLoading } = useQuery<ApprovalChain[]>({
+    queryKey: ["/api/approval-chains"],
+  });
+
+  const { data: approvers = [] } = useQuery<Approver[]>({
+    queryKey: ["/api/users/approvers"],
+  });
+
+  const stepLabel = (step: ChainStep) => describeApprover({
+    approverRole: step.approverRole,
+    approver: step.approverId
+      ? { id: step.approverId, name: approvers.find((approver) => approver.id === step.approverId)?.name ?? "Unknown user" }
+      : null,
+  });
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editing) {
+        return apiRequest("PUT", `/api/approval-chains/${editing.id}`, toPayload(draft, editing.active));
+      }
+      return apiRequest("POST", "/api/approval-chains", toPayload(draft, true));
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Approval chain updated" : "Approval chain added",
+        description: "New and edited requests will follow it; requests under way keep their steps.",
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-chains"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save approval chain.",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (chain: ApprovalChain) => {
+      const { id, ...fields } = chain;
+      return apiRequest("PUT", `/api/approval-chains/${id}`, { ...fields, active: !chain.active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-chains"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update approval chain.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (chain: ApprovalChain) => {
+      return apiRequest("DELETE", `/api/approval-chains/${chain.id}`);
+    },
+    onSuccess: (_, chain) => {
+      toast({
+        title: "Approval chain deleted",
+        description: `${chain.name} has been removed.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-chains"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete approval chain.",
+      });
+    },
+  });
+
+  const startEditing = (chain: ApprovalChain) => {
+    setEditing(chain);
+    setDraft({
+      name: chain.name,
+      leaveType: chain.leaveType ?? ANY_LEAVE_TYPE,
+      minDays: chain.minDays == null ? "" : String(chain.minDays),
+      unpaidOnly: chain.unpaidOnly,
+      priority: String(chain.priority),
+      steps: chain.steps.map(stepToValue),
+    });
+  };
+
+  const updateDraft = <K extends keyof ChainDraft>(field: K, value: ChainDraft[K]) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const updateStep = (index: number, value: string) => {
+    updateDraft("steps", draft.steps.map((step, i) => (i === index ? value : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...draft.steps];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    updateDraft("steps", steps);
+  };
+
+  const describeRule = (chain: ApprovalChain) => {
+    const rules = [chain.leaveType ? labelFor(chain.leaveType) : "Any leave type"];
+    if (chain.minDays != null) {
+      rules.push(`more than ${chain.minDays} days`);
+    }
+    if (chain.unpaidOnly) {
+      rules.push("unpaid only");
+    }
+    return rules.join(", ");
+  };
+
+  const canSubmit = draft.name.trim() !== ""
+    && draft.steps.length > 0
+    && (draft.minDays === "" || Number(draft.minDays) >= 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval Chains</CardTitle>
+        <CardDescription>
+          Ordered approval steps for requests matching a rule. The first matching chain by priority
+          applies; requests no chain matches are approved by an admin or the employee's manager.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="approval-chain-name">Name</Label>
+              <Input
+                id="approval-chain-name"
+                value={draft.name}
+                onChange={(event) => updateDraft("name", event.target.value)}
+                placeholder="e.g. Long annual leave"
+                data-testid="input-approval-chain-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Leave Type</Label>
+              <Select value={draft.leaveType} onValueChange={(value) => updateDraft("leaveType", value)}>
+                <SelectTrigger data-testid="select-approval-chain-leave-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_LEAVE_TYPE}>Any leave type</SelectItem>
+                  {leaveTypes.map((type) => (
+                    <SelectItem key={type.key} value={type.key}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval-chain-min-days">More than (days)</Label>
+              <Input
+                id="approval-chain-min-days"
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.minDays}
+                onChange={(event) => updateDraft("minDays", event.target.value)}
+                placeholder="Any length"
+                data-testid="input-approval-chain-min-days"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval-chain-priority">Priority</Label>
+              <Input
+                id="approval-chain-priority"
+                type="number"
+                step="1"
+                value={draft.priority}
+                onChange={(event) => updateDraft("priority", event.target.value)}
+                data-testid="input-approval-chain-priority"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.unpaidOnly}
+              onChange={(event) => updateDraft("unpaidOnly", event.target.checked)}
+              data-testid="checkbox-approval-chain-unpaid-only"
+            />
+            Only unpaid leave
+          </label>
+
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            {draft.steps.map((step, index) => (
+              <div key={index} className="flex items-center gap-2" data-testid={`approval-chain-step-${index}`}>
+                <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                <Select value={step} onValueChange={(value) => updateStep(index, value)}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="role:manager">Line manager</SelectItem>
+                    <SelectItem value="role:admin">Any admin</SelectItem>
+                    {approvers.map((approver) => (
+                      <SelectItem key={approver.id} value={`user:${approver.id}`}>{approver.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => moveStep(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => moveStep(index, 1)}
+                  disabled={index === draft.steps.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => updateDraft("steps", draft.steps.filter((_, i) => i !== index))}
+                  disabled={draft.steps.length === 1}
+                  data-testid={`button-remove-approval-step-${index}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => updateDraft("steps", [...draft.steps, "role:admin"])}
+              data-testid="button-add-approval-step"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Step
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              disabled={!canSubmit || saveMutation.isPending}
+              data-testid="button-save-approval-chain"
+            >
+              {editing ? "Save Changes" : "Add Approval Chain"}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : chains.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">
+              No approval chains. Requests are approved in a single step.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {chains.map((chain) => (
+                <TableRow key={chain.id} data-testid={`approval-chain-row-${chain.id}`}>
+                  <TableCell className="font-medium">{chain.name}</TableCell>
+                  <TableCell>{describeRule(chain)}</TableCell>
+                  <TableCell className="space-x-1">
+                    {chain.steps.map((step, index) => (
+                      <Badge key={index} variant="outline">{index + 1}. {stepLabel(step)}</Badge>
+                    ))}
+                  </TableCell>
+                  <TableCell>{chain.priority}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant={chain.active ? "default" : "outline"}
+                      onClick={() => toggleActiveMutation.mutate(chain)}
+                      disabled={toggleActiveMutation.isPending}
+                      data-testid={`button-toggle-approval-chain-${chain.id}`}
+                    >
+                      {chain.active ? "Active" : "Inactive"}
+                    </Button>
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => startEditing(chain)}
+                      data-testid={`button-edit-approval-chain-${chain.id}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(chain)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-approval-chain-${chain.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ApprovalSla {
+  reminderHours: number;
+  escalationHours: number;
+}
+
+export default function ApprovalSlaSettings() {
+  const [reminderHours, setReminderHours] = useState("");
+  const [escalationHours, setEscalationHours] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sla } = useQuery<ApprovalSla>({
+    queryKey: ["/api/approval-sla"],
+  });
+
+  useEffect(() => {
+    if (sla) {
+      setReminderHours(String(sla.reminderHours));
+      setEscalationHours(String(sla.escalationHours));
+    }
+  }, [sla]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", "/api/approval-sla", {
+        reminderHours: Number(reminderHours),
+        escalationHours: Number(escalationHours),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Approval SLA saved",
+        description: "The next SLA check uses the new thresholds.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-sla"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save approval SLA.",
+      });
+    },
+  });
+
+  const canSubmit = Number(reminderHours) > 0 && Number(escalationHours) >= Number(reminderHours);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval SLA</CardTitle>
+        <CardDescription>
+          How long a request may wait on one approver. Past the reminder time they are nudged;
+          past the escalation time the request moves to their manager, or to the admins. The
+          clock restarts for each new approver.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="sla-reminder-hours">Remind after (hours)</Label>
+            <Input
+              id="sla-reminder-hours"
+              type="number"
+              min="1"
+              step="1"
+              value={reminderHours}
+              onChange={(event) => setReminderHours(event.target.value)}
+              data-testid="input-sla-reminder-hours"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-escalation-hours">Escalate after (hours)</Label>
+            <Input
+              id="sla-escalation-hours"
+              type="number"
+              min="1"
+              step="1"
+              value={escalationHours}
+              onChange={(event) => setEscalationHours(event.target.value)}
+              data-testid="input-sla-escalation-hours"
+            />
+          </div>
+          <div>
+            <Button
+              type="submit"
+              disabled={!canSubmit || saveMutation.isPending}
+              data-testid="button-save-sla"
+            >
+              Save SLA
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
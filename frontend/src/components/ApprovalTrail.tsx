@@ -0,0 +1,31 @@
+import { format, parseISO } from "date-fns";
+import { formatApprovalDecision, formatWaitingOn, type ApprovalStep } from "@/lib/leaveFormat";
+
+interface ApprovalTrailProps {
+  requestId: string;
+  status: string;
+  approvals: ApprovalStep[];
+}
+
+// Decisions made so far and, while pending, the step the request is waiting on
+export default function ApprovalTrail({ requestId, status, approvals }: ApprovalTrailProps) {
+  const decided = approvals.filter((step) => step.status !== "pending");
+  const waitingOn = status === "pending" ? formatWaitingOn(approvals) : null;
+
+  if (decided.length === 0 && !waitingOn) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs text-muted-foreground" data-testid={`approval-trail-${requestId}`}>
+      {decided.map((step) => (
+        <p key={step.id}>
+          {formatApprovalDecision(step)}
+          {step.decidedAt && ` · ${format(parseISO(step.decidedAt), 'MMM dd')}`}
+          {step.comment && `: “${step.comment}”`}
+        </p>
+      ))}
+      {waitingOn && <p data-testid={`waiting-on-${requestId}`}>{waitingOn}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Edit2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { apiRequest } from "@/lib/queryClient";
+
+interface AutoApprovalRule {
+  id: string;
+  name: string;
+  leaveType: string | null;
+  maxDays: number | null;
+  minNoticeDays: number | null;
+  maxTeamOnLeave: number | null;
+  minTenureMonths: number | null;
+  active: boolean;
+}
+
+interface RuleDraft {
+  name: string;
+  leaveType: string;
+  maxDays: string;
+  minNoticeDays: string;
+  maxTeamOnLeave: string;
+  minTenureMonths: string;
+}
+
+const ANY_LEAVE_TYPE = "any";
+
+const emptyDraft: RuleDraft = {
+  name: "",
+  leaveType: ANY_LEAVE_TYPE,
+  maxDays: "",
+  minNoticeDays: "",
+  maxTeamOnLeave: "",
+  minTenureMonths: "",
+};
+
+const optionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+function toPayload(draft: RuleDraft, active: boolean) {
+  return {
+    name: draft.name,
+    leaveType: draft.leaveType === ANY_LEAVE_TYPE ? null : draft.leaveType,
+    maxDays: optionalNumber(draft.maxDays),
+    minNoticeDays: optionalNumber(draft.minNoticeDays),
+    maxTeamOnLeave: optionalNumber(draft.maxTeamOnLeave),
+    minTenureMonths: optionalNumber(draft.minTenureMonths),
+    active,
+  };
+}
+
+export default function AutoApprovalRuleManager() {
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+  const [editing, setEditing] = useState<AutoApprovalRule | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+
+  const { data: rules = [], isLoading } = useQuery<AutoApprovalRule[]>({
+    queryKey: ["/api/auto-approval-rules"],
+  });
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editing) {
+        return apiRequest("PUT", `/api/auto-approval-rules/${editing.id}`, toPayload(draft, editing.active));
+      }
+      return apiRequest("POST", "/api/auto-approval-rules", toPayload(draft, true));
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Auto-approval rule updated" : "Auto-approval rule added",
+        description: "New requests meeting it will be approved as they are submitted.",
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/auto-approval-rules"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save auto-approval rule.",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (rule: AutoApprovalRule) => {
+      const { id, ...fields } = rule;
+      return apiRequest("PUT", `/api/auto-approval-rules/${id}`, { ...fields, active: !rule.active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auto-approval-rules"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update auto-approval rule.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (rule: AutoApprovalRule) => {
+      return apiRequest("DELETE", `/api/auto-approval-rules/${rule.id}`);
+    },
+    onSuccess: (_, rule) => {
+      toast({
+        title: "Auto-approval rule deleted",
+        description: `${rule.name} has been removed.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auto-approval-rules"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete auto-approval rule.",
+      });
+    },
+  });
+
+  const startEditing = (rule: AutoApprovalRule) => {
+    setEditing(rule);
+    setDraft({
+      name: rule.name,
+      leaveType: rule.leaveType ?? ANY_LEAVE_TYPE,
+      maxDays: rule.maxDays == null ? "" : String(rule.maxDays),
+      minNoticeDays: rule.minNoticeDays == null ? "" : String(rule.minNoticeDays),
+      maxTeamOnLeave: rule.maxTeamOnLeave == null ? "" : String(rule.maxTeamOnLeave),
+      minTenureMonths: rule.minTenureMonths == null ? "" : String(rule.minTenureMonths),
+    });
+  };
+
+  const updateDraft = <K extends keyof RuleDraft>(field: K, value: RuleDraft[K]) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const describeConditions = (rule: AutoApprovalRule) => {
+    const conditions = [rule.leaveType ? labelFor(rule.leaveType) : "Any leave type"];
+    if (rule.maxDays != null) {
+      conditions.push(`up to ${rule.maxDays} days`);
+    }
+    if (rule.minNoticeDays != null) {
+      conditions.push(`${rule.minNoticeDays}+ days' notice`);
+    }
+    if (rule.maxTeamOnLeave != null) {
+      conditions.push(`at most ${rule.maxTeamOnLeave} teammates away`);
+    }
+    if (rule.minTenureMonths != null) {
+      conditions.push(`${rule.minTenureMonths}+ months' tenure`);
+    }
+    return conditions.join(", ");
+  };
+
+  const canSubmit = draft.name.trim() !== ""
+    && (draft.maxDays === "" || Number(draft.maxDays) > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Auto-Approval Rules</CardTitle>
+        <CardDescription>
+          Requests meeting every condition of an active rule are approved as soon as they are
+          submitted. Leave a condition blank to ignore it; teammates are employees sharing a manager.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="auto-approval-name">Name</Label>
+              <Input
+                id="auto-approval-name"
+                value={draft.name}
+                onChange={(event) => updateDraft("name", event.target.value)}
+                placeholder="e.g. Single sick days"
+                data-testid="input-auto-approval-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Leave Type</Label>
+              <Select value={draft.leaveType} onValueChange={(value) => updateDraft("leaveType", value)}>
+                <SelectTrigger data-testid="select-auto-approval-leave-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_LEAVE_TYPE}>Any leave type</SelectItem>
+                  {leaveTypes.map((type) => (
+                    <SelectItem key={type.key} value={type.key}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auto-approval-max-days">Up to (days)</Label>
+              <Input
+                id="auto-approval-max-days"
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.maxDays}
+                onChange={(event) => updateDraft("maxDays", event.target.value)}
+                placeholder="Any length"
+                data-testid="input-auto-approval-max-days"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auto-approval-notice">Notice (days)</Label>
+              <Input
+                id="auto-approval-notice"
+                type="number"
+                min="0"
+                step="1"
+                value={draft.minNoticeDays}
+                onChange={(event) => updateDraft("minNoticeDays", event.target.value)}
+                placeholder="No notice needed"
+                data-testid="input-auto-approval-notice"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auto-approval-team">Teammates away at most</Label>
+              <Input
+                id="auto-approval-team"
+                type="number"
+                min="0"
+                step="1"
+                value={draft.maxTeamOnLeave}
+                onChange={(event) => updateDraft("maxTeamOnLeave", event.target.value)}
+                placeholder="Any number"
+                data-testid="input-auto-approval-team"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auto-approval-tenure">Tenure (months)</Label>
+              <Input
+                id="auto-approval-tenure"
+                type="number"
+                min="0"
+                step="1"
+                value={draft.minTenureMonths}
+                onChange={(event) => updateDraft("minTenureMonths", event.target.value)}
+                placeholder="Any tenure"
+                data-testid="input-auto-approval-tenure"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              disabled={!canSubmit || saveMutation.isPending}
+              data-testid="button-save-auto-approval"
+            >
+              {editing ? "Save Changes" : "Add Rule"}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">
+              No auto-approval rules. Every request waits for an approver.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Conditions</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id} data-testid={`auto-approval-row-${rule.id}`}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{describeConditions(rule)}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant={rule.active ? "default" : "outline"}
+                      onClick={() => toggleActiveMutation.mutate(rule)}
+                      disabled={toggleActiveMutation.isPending}
+                      data-testid={`button-toggle-auto-approval-${rule.id}`}
+                    >
+                      {rule.active ? "Active" : "Inactive"}
+                    </Button>
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => startEditing(rule)}
+                      data-testid={`button-edit-auto-approval-${rule.id}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(rule)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-auto-approval-${rule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Edit2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { useTeams } from "@/hooks/use-teams";
+import { useBlackoutPeriods, type BlackoutPeriod } from "@/hooks/use-blackout-periods";
+import { apiRequest } from "@/lib/queryClient";
+import { formatLeaveDates } from "@/lib/leaveFormat";
+
+interface BlackoutDraft {
+  name: string;
+  startDate: string;
+  endDate: string;
+  teamId: string;
+  leaveType: string;
+}
+
+const ANY = "any";
+
+const emptyDraft: BlackoutDraft = { name: "", startDate: "", endDate: "", teamId: ANY, leaveType: ANY };
+
+export default function BlackoutPeriodManager() {
+  const [draft, setDraft] = useState<BlackoutDraft>(emptyDraft);
+  const [editing, setEditing] = useState<BlackoutPeriod | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { blackoutPeriods, isLoading } = useBlackoutPeriods();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+  const { teams, labelFor: teamLabelFor } = useTeams();
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: draft.name.trim(),
+        startDate: draft.startDate,
+        endDate: draft.endDate,
+        teamId: draft.teamId === ANY ? null : draft.teamId,
+        leaveType: draft.leaveType === ANY ? null : draft.leaveType,
+      };
+      if (editing) {
+        return apiRequest("PUT", `/api/blackout-periods/${editing.id}`, payload);
+      }
+      return apiRequest("POST", "/api/blackout-periods", payload);
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Blackout period updated" : "Blackout period added",
+        description: `${draft.name.trim()} has been saved.`,
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/blackout-periods"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save blackout period.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (period: BlackoutPeriod) => {
+      return apiRequest("DELETE", `/api/blackout-periods/${period.id}`);
+    },
+    onSuccess: (_, period) => {
+      toast({
+        title: "Blackout period deleted",
+        description: `${period.name} has been removed.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/blackout-periods"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete blackout period.",
+      });
+    },
+  });
+
+  const startEditing = (period: BlackoutPeriod) => {
+    setEditing(period);
+    setDraft({
+      name: period.name,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      teamId: period.teamId ?? ANY,
+      leaveType: period.leaveType ?? ANY,
+    });
+  };
+
+  const canSubmit = draft.name.trim() !== ""
+    && draft.startDate !== ""
+    && draft.endDate !== ""
+    && draft.endDate >= draft.startDate;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Blackout Periods</CardTitle>
+        <CardDescription>
+          Dates on which leave can't be requested, for everyone or for one team and the teams
+          nested below it. Admins and managers can still record leave as approved without review.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="blackout-name">Name</Label>
+              <Input
+                id="blackout-name"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                placeholder="e.g. Quarter-end close"
+                data-testid="input-blackout-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-start">From</Label>
+              <Input
+                id="blackout-start"
+                type="date"
+                value={draft.startDate}
+                onChange={(event) => setDraft({ ...draft, startDate: event.target.value })}
+                data-testid="input-blackout-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-end">To</Label>
+              <Input
+                id="blackout-end"
+                type="date"
+                value={draft.endDate}
+                min={draft.startDate || undefined}
+                onChange={(event) => setDraft({ ...draft, endDate: event.target.value })}
+                data-testid="input-blackout-end"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select value={draft.teamId} onValueChange={(teamId) => setDraft({ ...draft, teamId })}>
+                <SelectTrigger data-testid="select-blackout-team">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Everyone</SelectItem>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{teamLabelFor(team.id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Leave type</Label>
+              <Select value={draft.leaveType} onValueChange={(leaveType) => setDraft({ ...draft, leaveType })}>
+                <SelectTrigger data-testid="select-blackout-leave-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All leave types</SelectItem>
+                  {leaveTypes.map((leaveType) => (
+                    <SelectItem key={leaveType.key} value={leaveType.key}>{leaveType.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              disabled={!canSubmit || saveMutation.isPending}
+              data-testid="button-save-blackout"
+            >
+              {editing ? "Save Changes" : "Add Blackout Period"}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : blackoutPeriods.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No blackout periods.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Leave type</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {blackoutPeriods.map((period) => (
+                <TableRow key={period.id} data-testid={`blackout-row-${period.id}`}>
+                  <TableCell className="font-medium">{period.name}</TableCell>
+                  <TableCell>
+                    {formatLeaveDates(period, 'MMM dd, yyyy')}
+                  </TableCell>
+                  <TableCell>{period.teamId ? teamLabelFor(period.teamId) : "Everyone"}</TableCell>
+                  <TableCell>{period.leaveType ? labelFor(period.leaveType) : "All"}</TableCell>
+                  <TableCell className="space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => startEditing(period)}
+                      data-testid={`button-edit-blackout-${period.id}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(period)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-blackout-${period.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Delegation {
+  id: string;
+  delegator: { id: string; name: string };
+  delegate: { id: string; name: string };
+  startDate: string | null;
+  endDate: string | null;
+  active: boolean;
+}
+
+interface Approver {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface CurrentUser {
+  id: string;
+  role: string;
+}
+
+interface DelegationManagerProps {
+  // Admins see everyone's delegations, not just their own
+  showAll?: boolean;
+}
+
+export default function DelegationManager({ showAll = false }: DelegationManagerProps) {
+  const [delegateId, setDelegateId] = useState("");
+  const [mode, setMode] = useState<"on-leave" | "dates">("on-leave");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: me } = useQuery<CurrentUser>({
+    queryKey: ["/api/users/me"],
+  });
+
+  const { data: delegations = [], isLoading } = useQuery<Delegation[]>({
+    queryKey: ["/api/delegations", ...(showAll ? [{ all: true }] : [])],
+  });
+
+  const { data: approvers = [] } = useQuery<Approver[]>({
+    queryKey: ["/api/users/approvers"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/delegations", {
+        delegateId,
+        startDate: mode === "dates" ? startDate : null,
+        endDate: mode === "dates" ? endDate : null,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Delegation added",
+        description: mode === "dates"
+          ? "Your delegate can approve requests on your behalf over those dates."
+          : "Your delegate can approve requests on your behalf whenever you are on approved leave.",
+      });
+      setDelegateId("");
+      setStartDate("");
+      setEndDate("");
+      queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to add delegation.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (delegationId: string) => {
+      return apiRequest("DELETE", `/api/delegations/${delegationId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Delegation removed",
+        description: "Approval rights are no longer delegated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to remove delegation.",
+      });
+    },
+  });
+
+  const candidates = approvers.filter((approver) => approver.id !== me?.id);
+  const canSubmit = delegateId !== ""
+    && (mode === "on-leave" || (startDate !== "" && endDate !== "" && startDate <= endDate));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval Delegation</CardTitle>
+        <CardDescription>
+          Let another manager or admin approve requests on your behalf while you are away
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Delegate</Label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger data-testid="select-delegate">
+                <SelectValue placeholder="Choose a delegate" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((approver) => (
+                  <SelectItem key={approver.id} value={approver.id}>{approver.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>When</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as typeof mode)}>
+              <SelectTrigger data-testid="select-delegation-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="on-leave">Whenever I'm on leave</SelectItem>
+                <SelectItem value="dates">Between dates</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === "dates" ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-start">From</Label>
+                <Input
+                  id="delegation-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(event) => setStartDate(event.target.value)}
+                  data-testid="input-delegation-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-end">To</Label>
+                <Input
+                  id="delegation-end"
+                  type="date"
+                  value={endDate}
+                  onChange={(event) => setEndDate(event.target.value)}
+                  data-testid="input-delegation-end"
+                />
+              </div>
+            </>
+          ) : (
+            <div className="md:col-span-2" />
+          )}
+          <Button
+            type="submit"
+            disabled={!canSubmit || createMutation.isPending}
+            data-testid="button-add-delegation"
+          >
+            Delegate
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : delegations.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No delegations.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Approver</TableHead>
+                <TableHead>Delegate</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {delegations.map((delegation) => (
+                <TableRow key={delegation.id} data-testid={`delegation-row-${delegation.id}`}>
+                  <TableCell className="font-medium">{delegation.delegator.name}</TableCell>
+                  <TableCell>{delegation.delegate.name}</TableCell>
+                  <TableCell>
+                    {delegation.startDate && delegation.endDate
+                      ? `${format(parseISO(delegation.startDate), 'MMM dd, yyyy')} - ${format(parseISO(delegation.endDate), 'MMM dd, yyyy')}`
+                      : "While on leave"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={delegation.active ? "default" : "outline"}>
+                      {delegation.active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {(delegation.delegator.id === me?.id || me?.role === "admin") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => deleteMutation.mutate(delegation.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-delegation-${delegation.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,24 +1,33 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format, parseISO } from "date-fns";
-import { Plus, Edit2, Trash2 } from "lucide-react";
+import { Plus, Edit2, XCircle, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
 import { apiRequest } from "@/lib/queryClient";
+import { formatLeaveDates, formatStatus, type ApprovalStep, type DayPortion } from "@/lib/leaveFormat";
 import LeaveRequestForm from "./LeaveRequestForm";
 import LeaveCalendar from "./LeaveCalendar";
+import LeaveStatement, { leaveStatementQueryKey } from "./LeaveStatement";
+import ApprovalTrail from "./ApprovalTrail";
+import LeaveRequestDetailDialog from "./LeaveRequestDetailDialog";
 
 interface LeaveRequest {
   id: string;
   startDate: string;
   endDate: string;
+  startPortion: DayPortion;
+  endPortion: DayPortion;
+  hours: number | null;
   leaveType: string;
   status: string;
   reason: string;
+  approvals: ApprovalStep[];
   createdAt: string;
 }
 
@@ -27,14 +36,17 @@ interface User {
   name: string;
   email: string;
   role: string;
-  leaveBalance: number;
+  teamId: string | null;
+  leaveBalances: Record<string, number>;
 }
 
 export default function EmployeeDashboard() {
   const [showRequestForm, setShowRequestForm] = useState(false);
   const [editingRequest, setEditingRequest] = useState<LeaveRequest | null>(null);
+  const [detailRequest, setDetailRequest] = useState<LeaveRequest | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
 
   const { data: user, isLoading: userLoading } = useQuery<User>({
     queryKey: ["/api/users/me"],
@@ -44,23 +56,26 @@ export default function EmployeeDashboard() {
     queryKey: ["/api/leave-requests"],
   });
 
-  const deleteRequestMutation = useMutation({
+  const cancelRequestMutation = useMutation({
     mutationFn: async (requestId: string) => {
-      return apiRequest("DELETE", `/api/leave-requests/${requestId}`);
+      const response = await apiRequest("POST", `/api/leave-requests/${requestId}/cancel`);
+      return response.json() as Promise<{ message: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      // Approved leave stays booked until an approver signs off the cancellation
       toast({
-        title: "Request deleted",
-        description: "Your leave request has been deleted successfully.",
+        title: "Request cancelled",
+        description: result.message,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users/me"] });
+      queryClient.invalidateQueries({ queryKey: leaveStatementQueryKey("me") });
     },
     onError: (error) => {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to delete request.",
+        description: error.message || "Failed to cancel request.",
       });
     },
   });
@@ -73,6 +88,8 @@ export default function EmployeeDashboard() {
         return 'bg-yellow-100 text-yellow-800';
       case 'rejected':
         return 'bg-red-100 text-red-800';
+      case 'cancellation_requested':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -131,7 +148,7 @@ export default function EmployeeDashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold" data-testid="leave-balance">
-              {user?.leaveBalance || 0} days
+              {user?.leaveBalances?.annual ?? 0} days
             </div>
             <p className="text-xs text-muted-foreground">
               Annual leave remaining
@@ -179,10 +196,31 @@ export default function EmployeeDashboard() {
         </Card>
       </div>
 
+      {/* Per-type balance breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Leave Balances</CardTitle>
+          <CardDescription>Remaining days for each leave type</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {leaveTypes.filter((leaveType) => leaveType.deductsBalance).map(({ key: leaveType, name }) => (
+              <div key={leaveType} className="rounded-md border p-3" data-testid={`balance-${leaveType}`}>
+                <div className="text-sm text-muted-foreground">{name}</div>
+                <div className="text-xl font-bold">
+                  {user?.leaveBalances?.[leaveType] ?? 0} days
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       <Tabs defaultValue="requests" className="space-y-4">
         <TabsList>
           <TabsTrigger value="requests" data-testid="tab-requests">My Requests</TabsTrigger>
           <TabsTrigger value="calendar" data-testid="tab-calendar">Calendar</TabsTrigger>
+          <TabsTrigger value="statement" data-testid="tab-statement">Statement</TabsTrigger>
         </TabsList>
 
         <TabsContent value="requests">
@@ -221,14 +259,15 @@ export default function EmployeeDashboard() {
                     {sortedRequests.map((request) => (
                       <TableRow key={request.id} data-testid={`request-row-${request.id}`}>
                         <TableCell className="font-medium">
-                          {format(parseISO(request.startDate), 'MMM dd')} - {format(parseISO(request.endDate), 'MMM dd')}
+                          {formatLeaveDates(request)}
                         </TableCell>
-                        <TableCell className="capitalize">{request.leaveType}</TableCell>
+                        <TableCell>{labelFor(request.leaveType)}</TableCell>
                         <TableCell className="max-w-xs truncate">{request.reason}</TableCell>
                         <TableCell>
                           <Badge className={getStatusColor(request.status)}>
-                            {request.status}
+                            {formatStatus(request.status)}
                           </Badge>
+                          <ApprovalTrail requestId={request.id} status={request.status} approvals={request.approvals} />
                         </TableCell>
                         <TableCell>
                           {format(parseISO(request.createdAt), 'MMM dd, yyyy')}
@@ -245,14 +284,25 @@ export default function EmployeeDashboard() {
                                 <Edit2 className="h-4 w-4" />
                               </Button>
                             )}
+                            {(request.status === 'pending' || request.status === 'approved') && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => cancelRequestMutation.mutate(request.id)}
+                                disabled={cancelRequestMutation.isPending}
+                                title={request.status === 'pending' ? "Withdraw request" : "Request cancellation"}
+                                data-testid={`button-cancel-${request.id}`}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => deleteRequestMutation.mutate(request.id)}
-                              disabled={deleteRequestMutation.isPending}
-                              data-testid={`button-delete-${request.id}`}
+                              onClick={() => setDetailRequest(request)}
+                              data-testid={`button-details-${request.id}`}
                             >
-                              <Trash2 className="h-4 w-4" />
+                              <MessageSquare className="h-4 w-4" />
                             </Button>
                           </div>
                         </TableCell>
@@ -266,7 +316,21 @@ export default function EmployeeDashboard() {
         </TabsContent>
 
         <TabsContent value="calendar">
-          <LeaveCalendar showAllEmployees={false} />
+          <LeaveCalendar showAllEmployees={false} teamId={user?.teamId} />
+        </TabsContent>
+
+        <TabsContent value="statement">
+          <Card>
+            <CardHeader>
+              <CardTitle>Leave Statement</CardTitle>
+              <CardDescription>
+                Every change to your leave balances and why it happened
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeaveStatement userId="me" />
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
 
@@ -275,6 +339,11 @@ export default function EmployeeDashboard() {
         onOpenChange={handleFormClose}
         editingRequest={editingRequest}
       />
+
+      <LeaveRequestDetailDialog
+        request={leaveRequests.find((request) => request.id === detailRequest?.id) ?? null}
+        onOpenChange={(open) => !open && setDetailRequest(null)}
+      />
     </div>
   );
 }
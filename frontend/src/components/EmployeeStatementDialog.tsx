@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { apiRequest } from "@/lib/queryClient";
+import LeaveStatement, { leaveStatementQueryKey } from "./LeaveStatement";
+
+export interface EntitlementPreview {
+  rule: string;
+  basis: "anniversary" | "fiscal_year";
+  yearsOfService: number;
+  statutoryDays: number;
+  effectiveDays: number;
+  override: number | null;
+  grants: { date: string; amount: number; reason: string }[];
+}
+
+interface EmployeeStatementDialogProps {
+  employee: {
+    id: string;
+    name: string;
+    hireDate: string | null;
+    terminationDate: string | null;
+    entitlementOverride: number | null;
+    entitlement: EntitlementPreview | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function EmployeeStatementDialog({ employee, onOpenChange }: EmployeeStatementDialogProps) {
+  const [leaveType, setLeaveType] = useState("annual");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [hireDate, setHireDate] = useState("");
+  const [terminationDate, setTerminationDate] = useState("");
+  const [entitlementOverride, setEntitlementOverride] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+
+  useEffect(() => {
+    setHireDate(employee?.hireDate ?? "");
+    setTerminationDate(employee?.terminationDate ?? "");
+    setEntitlementOverride(employee?.entitlementOverride != null ? String(employee.entitlementOverride) : "");
+  }, [employee]);
+
+  const employmentMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/users/${employee!.id}/employment`, {
+        hireDate: hireDate || null,
+        terminationDate: terminationDate || null,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Employment dates saved",
+        description: `Accruals for ${employee!.name} will be pro-rated from these dates.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save employment dates.",
+      });
+    },
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: async (override: number | null) => {
+      return apiRequest("PATCH", `/api/users/${employee!.id}/entitlement-override`, {
+        entitlementOverride: override,
+      });
+    },
+    onSuccess: (_, override) => {
+      toast({
+        title: override === null ? "Override cleared" : "Override saved",
+        description: override === null
+          ? `${employee!.name} will receive the statutory allotment.`
+          : `${employee!.name} will receive ${override} days at the next yearly grant.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save entitlement override.",
+      });
+    },
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/users/${employee!.id}/leave-balance`, {
+        leaveType,
+        amount: Number(amount),
+        reason,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Balance adjusted",
+        description: `${employee!.name}'s ${labelFor(leaveType).toLowerCase()} balance has been adjusted.`,
+      });
+      setAmount("");
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: leaveStatementQueryKey(employee!.id) });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to adjust balance.",
+      });
+    },
+  });
+
+  const amountValue = Number(amount);
+  const canSubmit = amount !== "" && Number.isFinite(amountValue) && amountValue !== 0 && reason.trim() !== "";
+
+  return (
+    <Dialog open={!!employee} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Leave Statement — {employee?.name}</DialogTitle>
+          <DialogDescription>
+            Every change to this employee's balances, with the reason and linked request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            employmentMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="employment-hire-date">Hire Date</Label>
+            <Input
+              id="employment-hire-date"
+              type="date"
+              value={hireDate}
+              onChange={(event) => setHireDate(event.target.value)}
+              data-testid="input-hire-date"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employment-termination-date">Termination Date</Label>
+            <Input
+              id="employment-termination-date"
+              type="date"
+              value={terminationDate}
+              onChange={(event) => setTerminationDate(event.target.value)}
+              data-testid="input-termination-date"
+            />
+          </div>
+          <div />
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={employmentMutation.isPending}
+            data-testid="button-save-employment"
+          >
+            Save Dates
+          </Button>
+        </form>
+
+        {employee?.entitlement && (
+          <div className="rounded-md border p-4 space-y-3" data-testid="entitlement-preview">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="text-sm">
+                <span className="font-medium">{employee.entitlement.rule}</span>
+                {" · "}
+                {employee.entitlement.basis === "anniversary" ? "hire anniversary" : "fiscal year"} basis
+                {" · "}
+                {employee.entitlement.yearsOfService} years of service
+              </p>
+              <p className="text-sm">
+                Statutory {employee.entitlement.statutoryDays} days
+                {employee.entitlement.override != null && (
+                  <span className="font-medium"> → {employee.entitlement.effectiveDays} days (override)</span>
+                )}
+              </p>
+            </div>
+            {employee.entitlement.grants.length > 0 ? (
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {employee.entitlement.grants.map((grant) => (
+                  <li key={grant.date}>
+                    {grant.date}: +{grant.amount} — {grant.reason}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {employee.hireDate ? "Nothing granted yet this entitlement year." : "Set a hire date to compute the entitlement."}
+              </p>
+            )}
+            <form
+              className="flex flex-col md:flex-row md:items-end gap-4"
+              onSubmit={(event) => {
+                event.preventDefault();
+                overrideMutation.mutate(Number(entitlementOverride));
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="entitlement-override">Yearly allotment override (days)</Label>
+                <Input
+                  id="entitlement-override"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={entitlementOverride}
+                  onChange={(event) => setEntitlementOverride(event.target.value)}
+                  placeholder="Statutory"
+                  data-testid="input-entitlement-override"
+                />
+              </div>
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={entitlementOverride === "" || overrideMutation.isPending}
+                data-testid="button-save-entitlement-override"
+              >
+                Save Override
+              </Button>
+              {employee.entitlement.override != null && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => overrideMutation.mutate(null)}
+                  disabled={overrideMutation.isPending}
+                  data-testid="button-clear-entitlement-override"
+                >
+                  Use Statutory
+                </Button>
+              )}
+            </form>
+          </div>
+        )}
+
+        <form
+          className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            adjustMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Leave Type</Label>
+            <Select value={leaveType} onValueChange={setLeaveType}>
+              <SelectTrigger data-testid="select-adjustment-leave-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {leaveTypes.map((type) => (
+                  <SelectItem key={type.key} value={type.key}>{type.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-amount">Days (+/-)</Label>
+            <Input
+              id="adjustment-amount"
+              type="number"
+              step="0.5"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              placeholder="e.g. 2 or -1.5"
+              data-testid="input-adjustment-amount"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-reason">Reason</Label>
+            <Input
+              id="adjustment-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Reason for adjustment"
+              data-testid="input-adjustment-reason"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!canSubmit || adjustMutation.isPending}
+            data-testid="button-adjust-balance"
+          >
+            Adjust Balance
+          </Button>
+        </form>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {employee && <LeaveStatement userId={employee.id} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Holiday {
+  id: string;
+  calendar: string;
+  date: string;
+  name: string;
+}
+
+interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+export default function HolidayManager() {
+  const [calendar, setCalendar] = useState("default");
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: calendars = [] } = useQuery<string[]>({
+    queryKey: ["/api/holidays/calendars"],
+  });
+
+  const { data: holidays = [], isLoading } = useQuery<Holiday[]>({
+    queryKey: [`/api/holidays?calendar=${encodeURIComponent(calendar)}`],
+    enabled: calendar.trim() !== "",
+  });
+
+  const invalidateHolidays = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/holidays"),
+    });
+  };
+
+  const createHolidayMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/holidays", { calendar, date, name });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Holiday added",
+        description: `${name} has been added to the ${calendar} calendar.`,
+      });
+      setDate("");
+      setName("");
+      invalidateHolidays();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to add holiday.",
+      });
+    },
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (holidayId: string) => {
+      return apiRequest("DELETE", `/api/holidays/${holidayId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Holiday deleted",
+        description: "The holiday has been removed.",
+      });
+      invalidateHolidays();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete holiday.",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const ics = await file.text();
+      const response = await apiRequest("POST", "/api/holidays/import", { calendar, ics });
+      return response.json() as Promise<ImportResult>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Holidays imported",
+        description: `${result.imported} imported, ${result.skipped} already present.`,
+      });
+      invalidateHolidays();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to import holidays.",
+      });
+    },
+  });
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Public Holidays</CardTitle>
+        <CardDescription>
+          Holidays are non-working days and are not deducted from leave balances
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-calendar">Calendar</Label>
+            <Input
+              id="holiday-calendar"
+              list="holiday-calendars"
+              value={calendar}
+              onChange={(event) => setCalendar(event.target.value)}
+              placeholder="e.g. KR"
+              data-testid="input-holiday-calendar"
+            />
+            <datalist id="holiday-calendars">
+              {calendars.map((value) => (
+                <option key={value} value={value} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-import">Import from .ics</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id="holiday-import"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleImport}
+                disabled={importMutation.isPending || calendar.trim() === ""}
+                data-testid="input-holiday-import"
+              />
+              <Upload className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </div>
+        </div>
+
+        <form
+          className="flex flex-col md:flex-row md:items-end gap-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createHolidayMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="holiday-date">Date</Label>
+            <Input
+              id="holiday-date"
+              type="date"
+              value={date}
+              onChange={(event) => setDate(event.target.value)}
+              data-testid="input-holiday-date"
+            />
+          </div>
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="holiday-name">Name</Label>
+            <Input
+              id="holiday-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Chuseok"
+              data-testid="input-holiday-name"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!date || !name || calendar.trim() === "" || createHolidayMutation.isPending}
+            data-testid="button-add-holiday"
+          >
+            Add Holiday
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : holidays.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No holidays in this calendar.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {holidays.map((holiday) => (
+                <TableRow key={holiday.id} data-testid={`holiday-row-${holiday.id}`}>
+                  <TableCell className="font-medium">
+                    {format(parseISO(holiday.date), 'EEE, MMM dd, yyyy')}
+                  </TableCell>
+                  <TableCell>{holiday.name}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                      disabled={deleteHolidayMutation.isPending}
+                      data-testid={`button-delete-holiday-${holiday.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
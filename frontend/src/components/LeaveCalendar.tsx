@@ -4,30 +4,74 @@ import { format, parseISO } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { useTeams } from "@/hooks/use-teams";
+import { findBlackout, useBlackoutPeriods } from "@/hooks/use-blackout-periods";
+import { formatLeaveDates, formatStatus, getPartialDays, type DayPortion } from "@/lib/leaveFormat";
 
 interface LeaveRequest {
   id: string;
   startDate: string;
   endDate: string;
+  startPortion: DayPortion;
+  endPortion: DayPortion;
+  hours: number | null;
   leaveType: string;
   status: string;
+  // Occurrences of a recurring request are listed one by one
+  seriesId: string | null;
   user: {
     name: string;
     email: string;
   };
 }
 
+interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
 interface LeaveCalendarProps {
   showAllEmployees?: boolean;
+  // Lets an employee switch to the approved leave of their own team
+  teamId?: string | null;
 }
 
-export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalendarProps) {
+const ALL_TEAMS = "all";
+const OWN_LEAVE = "own";
+
+export default function LeaveCalendar({ showAllEmployees = false, teamId = null }: LeaveCalendarProps) {
   const [selectedMonth, setSelectedMonth] = useState<Date>(new Date());
+  const [teamFilter, setTeamFilter] = useState(showAllEmployees ? ALL_TEAMS : OWN_LEAVE);
+  const { leaveTypes, labelFor, colorFor } = useLeaveTypes();
+  const { teams, labelFor: teamLabelFor } = useTeams();
+  const { blackoutPeriods, applicableTo } = useBlackoutPeriods();
+
+  const team = teamFilter === ALL_TEAMS || teamFilter === OWN_LEAVE ? undefined : teamFilter;
+  const showNames = showAllEmployees || !!team;
+
+  // Admins looking at every team see every blackout
+  const blackouts = teamFilter === ALL_TEAMS ? blackoutPeriods : applicableTo(team ?? teamId);
+  const monthKey = format(selectedMonth, 'yyyy-MM');
+  const monthBlackouts = blackouts.filter((blackout) =>
+    blackout.startDate.slice(0, 7) <= monthKey && monthKey <= blackout.endDate.slice(0, 7)
+  );
 
   const { data: leaveRequests = [], isLoading } = useQuery<LeaveRequest[]>({
-    queryKey: ["/api/leave-requests", { all: showAllEmployees }],
+    queryKey: ["/api/leave-requests", team ? { all: showAllEmployees, team } : { all: showAllEmployees }],
   });
 
+  const { data: holidays = [] } = useQuery<Holiday[]>({
+    queryKey: ["/api/holidays"],
+  });
+
+  const holidaysByDate = holidays.reduce((acc, holiday) => {
+    acc[holiday.date] = holiday;
+    return acc;
+  }, {} as Record<string, Holiday>);
+
   // Convert leave requests to calendar events
   const leaveDates = leaveRequests.reduce((acc, request) => {
     const start = parseISO(request.startDate);
@@ -47,6 +91,9 @@ export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalenda
     return acc;
   }, {} as Record<string, LeaveRequest[]>);
 
+  // Days where leave covers only part of the day (half days or hourly leave)
+  const partialDates = new Set(leaveRequests.flatMap((request) => getPartialDays(request)));
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'approved':
@@ -55,6 +102,8 @@ export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalenda
         return 'bg-yellow-100 text-yellow-800';
       case 'rejected':
         return 'bg-red-100 text-red-800';
+      case 'cancellation_requested':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -63,8 +112,14 @@ export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalenda
   const modifiers = {
     hasLeave: (date: Date) => {
       const dateKey = format(date, 'yyyy-MM-dd');
-      return !!leaveDates[dateKey];
+      return !!leaveDates[dateKey] && !holidaysByDate[dateKey] && !partialDates.has(dateKey);
+    },
+    partialLeave: (date: Date) => {
+      const dateKey = format(date, 'yyyy-MM-dd');
+      return partialDates.has(dateKey) && !holidaysByDate[dateKey];
     },
+    holiday: (date: Date) => !!holidaysByDate[format(date, 'yyyy-MM-dd')],
+    blackout: (date: Date) => !!findBlackout(blackouts, format(date, 'yyyy-MM-dd')),
   };
 
   const modifiersStyles = {
@@ -72,6 +127,18 @@ export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalenda
       backgroundColor: 'var(--primary)',
       color: 'white',
     },
+    partialLeave: {
+      background: 'linear-gradient(135deg, var(--primary) 50%, transparent 50%)',
+    },
+    holiday: {
+      color: '#dc2626',
+      textDecoration: 'line-through',
+      opacity: 0.7,
+    },
+    blackout: {
+      backgroundColor: '#e5e7eb',
+      color: '#6b7280',
+    },
   };
 
   if (isLoading) {
@@ -91,10 +158,34 @@ export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalenda
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle data-testid="calendar-title">
-          {showAllEmployees ? "Team Leave Calendar" : "My Leave Calendar"}
+          {showNames ? "Team Leave Calendar" : "My Leave Calendar"}
         </CardTitle>
+        {showAllEmployees && teams.length > 0 && (
+          <Select value={teamFilter} onValueChange={setTeamFilter}>
+            <SelectTrigger className="w-56" data-testid="select-calendar-team">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+              {teams.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{teamLabelFor(option.id)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {!showAllEmployees && teamId && (
+          <Select value={teamFilter} onValueChange={setTeamFilter}>
+            <SelectTrigger className="w-56" data-testid="select-calendar-team">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={OWN_LEAVE}>Your leave</SelectItem>
+              <SelectItem value={teamId}>{teamLabelFor(teamId) || "Your team"}</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -115,9 +206,65 @@ export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalenda
               <Badge className="bg-green-100 text-green-800">Approved</Badge>
               <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>
               <Badge className="bg-red-100 text-red-800">Rejected</Badge>
+              <Badge variant="outline">Half day / hours</Badge>
+              <Badge variant="outline" className="text-red-600 line-through">Holiday</Badge>
+              <Badge variant="outline" className="bg-gray-200 text-gray-500">Blackout</Badge>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {leaveTypes.map((leaveType) => (
+                <span
+                  key={leaveType.key}
+                  className="flex items-center gap-1.5 text-sm"
+                  data-testid={`legend-leave-type-${leaveType.key}`}
+                >
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: leaveType.color }} />
+                  {leaveType.name}
+                </span>
+              ))}
             </div>
           </div>
 
+          {/* Holidays in selected month */}
+          {holidays.some((holiday) => holiday.date.startsWith(format(selectedMonth, 'yyyy-MM'))) && (
+            <div className="space-y-2">
+              <h4 className="font-semibold">Holidays</h4>
+              <div className="flex flex-wrap gap-2">
+                {holidays
+                  .filter((holiday) => holiday.date.startsWith(format(selectedMonth, 'yyyy-MM')))
+                  .map((holiday) => (
+                    <Badge
+                      key={holiday.id}
+                      variant="outline"
+                      className="text-red-600"
+                      data-testid={`holiday-${holiday.id}`}
+                    >
+                      {format(parseISO(holiday.date), 'MMM dd')} · {holiday.name}
+                    </Badge>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {/* Blackout periods touching the selected month */}
+          {monthBlackouts.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-semibold">Blackout Periods</h4>
+              <div className="flex flex-wrap gap-2">
+                {monthBlackouts.map((blackout) => (
+                  <Badge
+                    key={blackout.id}
+                    variant="outline"
+                    className="bg-gray-100 text-gray-600"
+                    data-testid={`blackout-${blackout.id}`}
+                  >
+                    {formatLeaveDates(blackout)} · {blackout.name}
+                    {blackout.leaveType && ` (${labelFor(blackout.leaveType)} only)`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Leave requests for selected month */}
           <div className="space-y-2">
             <h4 className="font-semibold">
@@ -138,15 +285,22 @@ export default function LeaveCalendar({ showAllEmployees = false }: LeaveCalenda
                   >
                     <div>
                       <div className="font-medium">
-                        {showAllEmployees ? request.user.name : "Your leave"}
+                        {showNames ? request.user.name : "Your leave"}
                       </div>
                       <div className="text-sm text-muted-foreground">
-                        {format(parseISO(request.startDate), 'MMM dd')} - {format(parseISO(request.endDate), 'MMM dd')}
+                        {formatLeaveDates(request)}
+                        {request.seriesId && " · repeats"}
+                      </div>
+                      <div className="flex items-center gap-1.5 text-sm">
+                        <span
+                          className="h-2 w-2 rounded-full"
+                          style={{ backgroundColor: colorFor(request.leaveType) }}
+                        />
+                        {labelFor(request.leaveType)}
                       </div>
-                      <div className="text-sm capitalize">{request.leaveType}</div>
                     </div>
                     <Badge className={getStatusColor(request.status)}>
-                      {request.status}
+                      {formatStatus(request.status)}
                     </Badge>
                   </div>
                 ))}
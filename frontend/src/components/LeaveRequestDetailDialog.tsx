@@ -0,0 +1,530 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Paperclip, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { apiRequest, uploadFile } from "@/lib/queryClient";
+import {
+  describeApprover,
+  formatApprovalDecision,
+  formatLeaveDates,
+  formatStatus,
+  type ApprovalStep,
+  type CoverageReport,
+  type DayPortion,
+} from "@/lib/leaveFormat";
+
+export interface LeaveRequestDetail {
+  id: string;
+  startDate: string;
+  endDate: string;
+  startPortion: DayPortion;
+  endPortion: DayPortion;
+  hours: number | null;
+  leaveType: string;
+  status: string;
+  reason: string;
+  approvals: ApprovalStep[];
+  // Set on each occurrence of a recurring request
+  seriesId?: string | null;
+  // Set for approvers while the request is pending
+  coverage?: CoverageReport | null;
+  user?: { id: string; name: string };
+}
+
+interface LeaveRequestComment {
+  id: string;
+  body: string;
+  createdAt: string;
+  author: { id: string; name: string; role: string };
+}
+
+interface LeaveRequestAttachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+  uploadedBy: { id: string; name: string };
+}
+
+// e.g. "240 KB" or "1.5 MB"
+function formatFileSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface LeaveRequestEvent {
+  id: string;
+  kind: "status_changed" | "reminder_sent" | "escalated";
+  fromStatus: string | null;
+  toStatus: string | null;
+  detail: string | null;
+  createdAt: string;
+  actor: { id: string; name: string } | null;
+}
+
+// e.g. "pending → approved by Dana"; reminders and escalations carry their own text
+function describeEvent(event: LeaveRequestEvent) {
+  if (event.kind !== "status_changed") {
+    return event.detail ?? "";
+  }
+  const change = `${formatStatus(event.fromStatus ?? "")} → ${formatStatus(event.toStatus ?? "")}`;
+  if (event.detail) {
+    return `${change}: ${event.detail}`;
+  }
+  return event.actor ? `${change} by ${event.actor.name}` : change;
+}
+
+interface LeaveRequestDetailDialogProps {
+  request: LeaveRequestDetail | null;
+  onOpenChange: (open: boolean) => void;
+  // Shows the approve/reject controls while the request is pending
+  canReview?: boolean;
+}
+
+const statusColors: Record<string, string> = {
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  cancellation_requested: "bg-orange-100 text-orange-800",
+};
+
+export default function LeaveRequestDetailDialog({
+  request,
+  onOpenChange,
+  canReview = false,
+}: LeaveRequestDetailDialogProps) {
+  const [decisionNote, setDecisionNote] = useState("");
+  const [commentBody, setCommentBody] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { labelFor } = useLeaveTypes();
+
+  useEffect(() => {
+    setDecisionNote("");
+    setCommentBody("");
+  }, [request?.id]);
+
+  const commentsQueryKey = ["/api/leave-requests", request?.id ?? "", "comments"];
+  const { data: comments = [], isLoading: commentsLoading } = useQuery<LeaveRequestComment[]>({
+    queryKey: commentsQueryKey,
+    enabled: !!request,
+  });
+
+  const attachmentsQueryKey = ["/api/leave-requests", request?.id ?? "", "attachments"];
+  const { data: attachments = [] } = useQuery<LeaveRequestAttachment[]>({
+    queryKey: attachmentsQueryKey,
+    enabled: !!request,
+  });
+
+  const { data: currentUser } = useQuery<{ id: string; role: string }>({
+    queryKey: ["/api/users/me"],
+    enabled: !!request,
+  });
+
+  const { data: history = [] } = useQuery<LeaveRequestEvent[]>({
+    queryKey: ["/api/leave-requests", request?.id ?? "", "history"],
+    enabled: !!request,
+  });
+
+  const onDecided = () => {
+    setDecisionNote("");
+    queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users/team"] });
+    onOpenChange(false);
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leave-requests/${request!.id}/approve`, {
+        comment: decisionNote.trim() || undefined,
+      });
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Request approved",
+        description: result.message,
+      });
+      onDecided();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to approve request.",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/leave-requests/${request!.id}/reject`, {
+        reason: decisionNote.trim(),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Request rejected",
+        description: "The employee can see your reason on the request.",
+      });
+      onDecided();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to reject request.",
+      });
+    },
+  });
+
+  // Decides every pending occurrence of the series with the same note
+  const seriesMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const note = decisionNote.trim();
+      const response = await apiRequest(
+        "POST",
+        `/api/leave-requests/series/${request!.seriesId}/${decision}`,
+        decision === "approve" ? { comment: note || undefined } : { reason: note }
+      );
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Series decided",
+        description: result.message,
+      });
+      onDecided();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to decide the series.",
+      });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/leave-requests/${request!.id}/comments`, {
+        body: commentBody.trim(),
+      });
+    },
+    onSuccess: () => {
+      setCommentBody("");
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to post comment.",
+      });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      return uploadFile(
+        `/api/leave-requests/${request!.id}/attachments?fileName=${encodeURIComponent(file.name)}`,
+        file
+      );
+    },
+    onSuccess: () => {
+      toast({
+        title: "Document uploaded",
+        description: "Approvers can now open it from the request.",
+      });
+      queryClient.invalidateQueries({ queryKey: attachmentsQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to upload document.",
+      });
+    },
+    onSettled: () => {
+      if (fileInput.current) {
+        fileInput.current.value = "";
+      }
+    },
+  });
+
+  const deleteAttachmentMutation = useMutation({
+    mutationFn: async (attachment: LeaveRequestAttachment) => {
+      return apiRequest("DELETE", `/api/leave-requests/${request!.id}/attachments/${attachment.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attachmentsQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to remove document.",
+      });
+    },
+  });
+
+  const canAttach = !!request && ["pending", "approved", "cancellation_requested"].includes(request.status);
+  const canRemove = (attachment: LeaveRequestAttachment) =>
+    request?.status === "pending"
+    && (attachment.uploadedBy.id === currentUser?.id || currentUser?.role === "admin");
+
+  const isDeciding = approveMutation.isPending || rejectMutation.isPending || seriesMutation.isPending;
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {request?.user ? `Leave Request — ${request.user.name}` : "Leave Request"}
+          </DialogTitle>
+          <DialogDescription>
+            {request && `${labelFor(request.leaveType)} · ${formatLeaveDates(request, 'MMM dd, yyyy')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-sm">{request.reason}</p>
+              <Badge className={statusColors[request.status] ?? "bg-gray-100 text-gray-800"}>
+                {formatStatus(request.status)}
+              </Badge>
+            </div>
+
+            {request.approvals.length > 0 && (
+              <div className="space-y-2">
+                <Label>Approvals</Label>
+                <ol className="space-y-2 text-sm" data-testid="request-approvals">
+                  {request.approvals.map((step) => (
+                    <li key={step.id} className="rounded-md border p-2">
+                      <div className="flex justify-between gap-2">
+                        <span>{step.position}. {describeApprover(step)}</span>
+                        <span className="text-muted-foreground">
+                          {step.status === "pending" ? "Pending" : formatApprovalDecision(step)}
+                        </span>
+                      </div>
+                      {step.comment && (
+                        <p className="mt-1 text-muted-foreground" data-testid={`approval-comment-${step.id}`}>
+                          “{step.comment}”
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {request.coverage && request.coverage.days.length > 0 && (
+              <div className="space-y-2">
+                <Label>Team coverage if approved</Label>
+                <ul className="space-y-1 text-sm" data-testid="request-coverage">
+                  {request.coverage.days.map((day) => (
+                    <li
+                      key={`${day.date}-${day.teamId}`}
+                      className={`flex justify-between gap-2 rounded-md border p-2 ${day.breached ? "border-red-300 bg-red-50" : ""}`}
+                    >
+                      <span>{format(parseISO(day.date), 'EEE, MMM dd')} · {day.teamName}</span>
+                      <span className={day.breached ? "text-red-700" : "text-muted-foreground"}>
+                        {day.present} of {day.members} present (minimum {day.minimumPresent})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {(attachments.length > 0 || canAttach) && (
+              <div className="space-y-2">
+                <Label>Supporting documents</Label>
+                {attachments.length > 0 && (
+                  <ul className="space-y-1 text-sm" data-testid="request-attachments">
+                    {attachments.map((attachment) => (
+                      <li key={attachment.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                        <a
+                          href={`/api/leave-requests/${request.id}/attachments/${attachment.id}`}
+                          className="flex items-center gap-2 underline-offset-4 hover:underline"
+                          data-testid={`link-attachment-${attachment.id}`}
+                        >
+                          <Paperclip className="h-4 w-4 shrink-0" />
+                          {attachment.fileName}
+                        </a>
+                        <span className="flex shrink-0 items-center gap-2 text-muted-foreground">
+                          {formatFileSize(attachment.size)} · {attachment.uploadedBy.name}
+                          {canRemove(attachment) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => deleteAttachmentMutation.mutate(attachment)}
+                              disabled={deleteAttachmentMutation.isPending}
+                              data-testid={`button-delete-attachment-${attachment.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {canAttach && (
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">PDF, PNG, JPEG or WebP</p>
+                    <input
+                      ref={fileInput}
+                      type="file"
+                      accept="application/pdf,image/png,image/jpeg,image/webp"
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        if (file) {
+                          uploadMutation.mutate(file);
+                        }
+                      }}
+                      data-testid="input-attachment"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => fileInput.current?.click()}
+                      disabled={uploadMutation.isPending}
+                      data-testid="button-upload-attachment"
+                    >
+                      {uploadMutation.isPending ? "Uploading…" : "Upload Document"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {canReview && request.status === "pending" && (
+              <div className="space-y-2">
+                <Label htmlFor="decision-note">Comment (required to reject)</Label>
+                <Textarea
+                  id="decision-note"
+                  value={decisionNote}
+                  onChange={(event) => setDecisionNote(event.target.value)}
+                  placeholder="Add a note for the employee"
+                  data-testid="input-decision-note"
+                />
+                <div className="flex justify-end gap-2">
+                  {request.seriesId && (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => seriesMutation.mutate("reject")}
+                        disabled={decisionNote.trim() === "" || isDeciding}
+                        data-testid="button-dialog-reject-series"
+                      >
+                        Reject Series
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => seriesMutation.mutate("approve")}
+                        disabled={isDeciding}
+                        data-testid="button-dialog-approve-series"
+                      >
+                        Approve Series
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="destructive"
+                    onClick={() => rejectMutation.mutate()}
+                    disabled={decisionNote.trim() === "" || isDeciding}
+                    data-testid="button-dialog-reject"
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    onClick={() => approveMutation.mutate()}
+                    disabled={isDeciding}
+                    data-testid="button-dialog-approve"
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {history.length > 0 && (
+              <div className="space-y-2">
+                <Label>History</Label>
+                <ul className="space-y-1 text-sm" data-testid="request-history">
+                  {history.map((event) => (
+                    <li key={event.id} className="flex justify-between gap-2">
+                      <span>{describeEvent(event)}</span>
+                      <span className="shrink-0 text-muted-foreground">
+                        {format(parseISO(event.createdAt), 'MMM dd, HH:mm')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Comments</Label>
+              {commentsLoading ? (
+                <p className="text-sm text-muted-foreground">Loading comments…</p>
+              ) : comments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No comments yet.</p>
+              ) : (
+                <ul className="space-y-2" data-testid="request-comments">
+                  {comments.map((comment) => (
+                    <li key={comment.id} className="rounded-md bg-muted p-2 text-sm">
+                      <p className="text-xs text-muted-foreground">
+                        {comment.author.name} · {format(parseISO(comment.createdAt), 'MMM dd, yyyy HH:mm')}
+                      </p>
+                      <p className="whitespace-pre-wrap">{comment.body}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form
+                className="space-y-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  commentMutation.mutate();
+                }}
+              >
+                <Textarea
+                  value={commentBody}
+                  onChange={(event) => setCommentBody(event.target.value)}
+                  placeholder="Write a comment"
+                  data-testid="input-comment"
+                />
+                <div className="flex justify-end">
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={commentBody.trim() === "" || commentMutation.isPending}
+                    data-testid="button-post-comment"
+                  >
+                    Post Comment
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,8 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { format } from "date-fns";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { differenceInCalendarDays, format, isSameDay } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -10,47 +10,226 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { findBlackout, useBlackoutPeriods } from "@/hooks/use-blackout-periods";
 import { apiRequest } from "@/lib/queryClient";
+import { dayPortionLabels, formatLeaveDates, type DayPortion } from "@/lib/leaveFormat";
+import { findOverlappingRequests } from "@shared/leaveOverlap";
+import { describeRecurrence, expandRecurrence, MAX_OCCURRENCES } from "@shared/recurrence";
+import { earliestStartDate, isAttachmentRequired } from "@shared/leavePolicies";
 
 const leaveRequestSchema = z.object({
   startDate: z.date(),
   endDate: z.date(),
-  leaveType: z.enum(["annual", "sick", "personal", "emergency"]),
+  startPortion: z.enum(["full", "am", "pm"]),
+  endPortion: z.enum(["full", "am", "pm"]),
+  hours: z.string().regex(/^(\d+(\.\d+)?)?$/, "Hours must be a number"),
+  leaveType: z.string().min(1, "Leave type is required"),
   reason: z.string().min(1, "Reason is required"),
+  userId: z.string(),
+  skipApproval: z.boolean(),
+  repeat: z.enum(["none", "weekly", "monthly"]),
+  repeatEvery: z.string().regex(/^\d*$/, "Enter a whole number"),
+  ends: z.enum(["count", "until"]),
+  occurrences: z.string().regex(/^\d*$/, "Enter a whole number"),
+  until: z.string(),
 }).refine((data) => data.endDate >= data.startDate, {
   message: "End date must be after or equal to start date",
   path: ["endDate"],
+}).refine((data) => !data.hours || isSameDay(data.startDate, data.endDate), {
+  message: "Hourly leave must start and end on the same day",
+  path: ["hours"],
+}).refine((data) => data.repeat === "none" || data.ends !== "count" || Number(data.occurrences) >= 2, {
+  message: "A series has at least 2 occurrences",
+  path: ["occurrences"],
+}).refine((data) => data.repeat === "none" || data.ends !== "until" || data.until !== "", {
+  message: "Pick the last date of the series",
+  path: ["until"],
 });
 
 type LeaveRequestFormData = z.infer<typeof leaveRequestSchema>;
 
+interface LeaveDaysPreview {
+  startDate: string;
+  endDate: string;
+  days: number;
+}
+
+interface ExistingRequest {
+  id: string;
+  startDate: string;
+  endDate: string;
+  startPortion: DayPortion;
+  endPortion: DayPortion;
+  hours: number | null;
+  leaveType: string;
+  status: string;
+  user?: { id: string };
+}
+
+interface Employee {
+  id: string;
+  name: string;
+  teamId?: string | null;
+}
+
+// Normalise the form into the span the API expects: one portion for a
+// single day, and no half day when hours are given
+function toLeaveSpan(data: Pick<LeaveRequestFormData, "startDate" | "endDate" | "startPortion" | "endPortion" | "hours">) {
+  const hours = data.hours ? Number(data.hours) : null;
+  const startPortion = hours ? "full" : data.startPortion;
+
+  return {
+    startDate: format(data.startDate, 'yyyy-MM-dd'),
+    endDate: format(data.endDate, 'yyyy-MM-dd'),
+    startPortion,
+    endPortion: isSameDay(data.startDate, data.endDate) ? startPortion : data.endPortion,
+    hours,
+  };
+}
+
+// The recurrence rule the API expects, or null for a one-off request
+function toRecurrence(data: Pick<LeaveRequestFormData, "repeat" | "repeatEvery" | "ends" | "occurrences" | "until">) {
+  if (data.repeat === "none") {
+    return null;
+  }
+  return {
+    frequency: data.repeat,
+    interval: Number(data.repeatEvery) || 1,
+    count: data.ends === "count" ? Math.min(Number(data.occurrences), MAX_OCCURRENCES) : null,
+    until: data.ends === "until" ? data.until : null,
+  };
+}
+
 interface LeaveRequestFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   editingRequest?: any;
+  // Admins and managers filing for someone else pick from these employees
+  employees?: Employee[];
 }
 
-export default function LeaveRequestForm({ open, onOpenChange, editingRequest }: LeaveRequestFormProps) {
+export default function LeaveRequestForm({ open, onOpenChange, editingRequest, employees }: LeaveRequestFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+  const { applicableTo } = useBlackoutPeriods();
+  const onBehalf = !!employees;
+
+  const { data: currentUser } = useQuery<{ teamId: string | null }>({
+    queryKey: ["/api/users/me"],
+    enabled: open && !onBehalf,
+  });
+
+  const { data: requests = [] } = useQuery<ExistingRequest[]>({
+    queryKey: onBehalf ? ["/api/leave-requests", { all: true }] : ["/api/leave-requests"],
+    enabled: open,
+  });
 
   const form = useForm<LeaveRequestFormData>({
     resolver: zodResolver(leaveRequestSchema),
     defaultValues: {
       startDate: editingRequest ? new Date(editingRequest.startDate) : new Date(),
       endDate: editingRequest ? new Date(editingRequest.endDate) : new Date(),
-      leaveType: editingRequest?.leaveType || "annual",
+      startPortion: editingRequest?.startPortion || "full",
+      endPortion: editingRequest?.endPortion || "full",
+      hours: editingRequest?.hours != null ? String(editingRequest.hours) : "",
+      leaveType: editingRequest?.leaveType || "",
       reason: editingRequest?.reason || "",
+      userId: "",
+      skipApproval: false,
+      repeat: "none",
+      repeatEvery: "1",
+      ends: "count",
+      occurrences: "10",
+      until: "",
     },
   });
 
+  const startDate = form.watch("startDate");
+  const endDate = form.watch("endDate");
+  const startPortion = form.watch("startPortion");
+  const endPortion = form.watch("endPortion");
+  const hours = form.watch("hours");
+  const employeeId = form.watch("userId");
+  const repeat = form.watch("repeat");
+  const ends = form.watch("ends");
+  const recurrence = toRecurrence({
+    repeat,
+    repeatEvery: form.watch("repeatEvery"),
+    ends,
+    occurrences: form.watch("occurrences"),
+    until: form.watch("until"),
+  });
+  const existingRequests = onBehalf
+    ? requests.filter((request) => request.user?.id === employeeId)
+    : requests;
+
+  // The leave type's booking rules, greyed out in the date pickers; leave
+  // recorded without review is exempt from them
+  const leaveTypeKey = form.watch("leaveType");
+  const selectedLeaveType = leaveTypes.find((leaveType) => leaveType.key === leaveTypeKey);
+  const bookingRulesApply = !(onBehalf && form.watch("skipApproval"));
+  const blackouts = bookingRulesApply
+    ? applicableTo(
+      onBehalf ? employees.find((employee) => employee.id === employeeId)?.teamId : currentUser?.teamId,
+      leaveTypeKey || undefined
+    )
+    : [];
+  const earliestStart = bookingRulesApply && selectedLeaveType?.minNoticeDays != null
+    ? earliestStartDate({ leaveType: selectedLeaveType, today: format(new Date(), 'yyyy-MM-dd') })
+    : null;
+  const maxConsecutiveDays = bookingRulesApply ? selectedLeaveType?.maxConsecutiveDays ?? null : null;
+  const isBlockedDate = (date: Date) => {
+    const dateKey = format(date, 'yyyy-MM-dd');
+    return !!findBlackout(blackouts, dateKey) || (!!earliestStart && dateKey < earliestStart);
+  };
+  const singleDay = !!startDate && !!endDate && isSameDay(startDate, endDate);
+  const hasValidRange = !!startDate && !!endDate && endDate >= startDate &&
+    /^(\d+(\.\d+)?)?$/.test(hours) && (!hours || singleDay);
+
+  let previewUrl = "";
+  let occurrenceCount = 1;
+  // Warn before submit; the server rejects overlapping requests with a 409
+  let conflicts: ExistingRequest[] = [];
+  if (hasValidRange) {
+    const span = toLeaveSpan({ startDate, endDate, startPortion, endPortion, hours });
+    const params = new URLSearchParams({
+      startDate: span.startDate,
+      endDate: span.endDate,
+      startPortion: span.startPortion,
+      endPortion: span.endPortion,
+    });
+    if (span.hours) {
+      params.set("hours", String(span.hours));
+    }
+    // Working days depend on the employee's holiday calendar
+    if (onBehalf && employeeId) {
+      params.set("userId", employeeId);
+    }
+    previewUrl = `/api/leave-requests/preview?${params.toString()}`;
+    const occurrences = recurrence ? expandRecurrence(span, recurrence) : [span];
+    occurrenceCount = occurrences.length;
+    conflicts = occurrences.flatMap((occurrence) =>
+      findOverlappingRequests(occurrence, existingRequests, editingRequest?.id)
+    );
+  }
+
+  const { data: preview, isFetching: previewLoading } = useQuery<LeaveDaysPreview>({
+    queryKey: [previewUrl],
+    enabled: open && hasValidRange && (!onBehalf || !!employeeId),
+  });
+
   const mutation = useMutation({
     mutationFn: async (data: LeaveRequestFormData) => {
       const payload = {
-        ...data,
-        startDate: format(data.startDate, 'yyyy-MM-dd'),
-        endDate: format(data.endDate, 'yyyy-MM-dd'),
+        leaveType: data.leaveType,
+        reason: data.reason,
+        ...toLeaveSpan(data),
+        ...(onBehalf ? { userId: data.userId, skipApproval: data.skipApproval } : {}),
+        ...(editingRequest ? {} : { recurrence: toRecurrence(data) }),
       };
 
       if (editingRequest) {
@@ -59,15 +238,30 @@ export default function LeaveRequestForm({ open, onOpenChange, editingRequest }:
         return apiRequest("POST", "/api/leave-requests", payload);
       }
     },
-    onSuccess: () => {
+    onSuccess: async (response) => {
+      const { coverageWarning } = await response.json() as { coverageWarning?: string };
       toast({
         title: editingRequest ? "Leave request updated" : "Leave request submitted",
         description: editingRequest 
           ? "Your leave request has been updated successfully." 
-          : "Your leave request has been submitted successfully.",
+          : onBehalf
+            ? "The leave has been recorded for the employee."
+            : "Your leave request has been submitted successfully.",
       });
+      // Teams may allow leave that leaves them short, but the requester should know
+      if (coverageWarning) {
+        toast({
+          title: "Team coverage",
+          description: coverageWarning,
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/leave-requests"] });
+      if (onBehalf) {
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users/team"] });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/users/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/leave-statement"] });
       onOpenChange(false);
       form.reset();
     },
@@ -89,16 +283,42 @@ export default function LeaveRequestForm({ open, onOpenChange, editingRequest }:
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
           <DialogTitle data-testid="dialog-title">
-            {editingRequest ? "Edit Leave Request" : "Submit Leave Request"}
+            {editingRequest ? "Edit Leave Request" : onBehalf ? "New Request for Employee" : "Submit Leave Request"}
           </DialogTitle>
           <DialogDescription>
             {editingRequest 
               ? "Update your leave request details below." 
-              : "Fill out the form below to submit your leave request."}
+              : onBehalf
+                ? "Record leave for an employee, including leave that has already been taken."
+                : "Fill out the form below to submit your leave request."}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {employees && (
+              <FormField
+                control={form.control}
+                name="userId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Employee</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-employee">
+                          <SelectValue placeholder="Select employee" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {employees.map((employee) => (
+                          <SelectItem key={employee.id} value={employee.id}>{employee.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -111,7 +331,7 @@ export default function LeaveRequestForm({ open, onOpenChange, editingRequest }:
                         mode="single"
                         selected={field.value}
                         onSelect={(date) => field.onChange(date)}
-                        disabled={(date) => date < new Date()}
+                        disabled={(date) => (!onBehalf && date < new Date()) || isBlockedDate(date)}
                         className="rounded-md border"
                         data-testid="calendar-start-date"
                       />
@@ -131,7 +351,9 @@ export default function LeaveRequestForm({ open, onOpenChange, editingRequest }:
                         mode="single"
                         selected={field.value}
                         onSelect={(date) => field.onChange(date)}
-                        disabled={(date) => date < form.watch("startDate")}
+                        disabled={(date) => date < form.watch("startDate")
+                          || isBlockedDate(date)
+                          || (maxConsecutiveDays != null && differenceInCalendarDays(date, form.watch("startDate")) >= maxConsecutiveDays)}
                         className="rounded-md border"
                         data-testid="calendar-end-date"
                       />
@@ -141,23 +363,247 @@ export default function LeaveRequestForm({ open, onOpenChange, editingRequest }:
                 )}
               />
             </div>
+            {(blackouts.some((blackout) => blackout.endDate >= format(new Date(), 'yyyy-MM-dd')) || earliestStart || maxConsecutiveDays != null) && (
+              <div className="space-y-1 text-sm text-muted-foreground" data-testid="booking-rules">
+                {earliestStart && (
+                  <p>{selectedLeaveType?.name} needs {selectedLeaveType?.minNoticeDays} days' notice.</p>
+                )}
+                {maxConsecutiveDays != null && (
+                  <p>{selectedLeaveType?.name} can be taken for at most {maxConsecutiveDays} days at a time.</p>
+                )}
+                {blackouts.filter((blackout) => blackout.endDate >= format(new Date(), 'yyyy-MM-dd')).map((blackout) => (
+                  <p key={blackout.id}>
+                    Unavailable during {blackout.name}, {formatLeaveDates(blackout)}.
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startPortion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{singleDay ? "Day" : "First Day"}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!!hours}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-start-portion">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(dayPortionLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {singleDay ? (
+                <FormField
+                  control={form.control}
+                  name="hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hours (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0.5"
+                          step="0.5"
+                          placeholder="Whole or half day"
+                          disabled={startPortion !== "full"}
+                          data-testid="input-hours"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="endPortion"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last Day</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-end-portion">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(dayPortionLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <div className="rounded-md border bg-muted/50 px-3 py-2 text-sm" data-testid="leave-days-preview">
+              {!hasValidRange
+                ? "Select a valid date range to see the leave duration."
+                : previewLoading || !preview
+                  ? "Calculating working days..."
+                  : occurrenceCount > 1
+                    ? `Each occurrence uses ${preview.days} working day${preview.days === 1 ? "" : "s"} of leave, ${occurrenceCount} occurrences in all.`
+                    : `This request uses ${preview.days} working day${preview.days === 1 ? "" : "s"} of leave.`}
+            </div>
+            {!!selectedLeaveType && !!preview && hasValidRange && bookingRulesApply
+              && isAttachmentRequired(selectedLeaveType, preview.days) && (
+              <p className="text-sm text-muted-foreground" data-testid="attachment-required">
+                {selectedLeaveType.name} of this length needs a supporting document before it can be
+                approved; upload it from the request once it is submitted.
+              </p>
+            )}
+            {!editingRequest && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="repeat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeat</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-repeat">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Does not repeat</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                          <SelectItem value="monthly">Monthly, same weekday</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {repeat !== "none" && (
+                  <FormField
+                    control={form.control}
+                    name="repeatEvery"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Every ({repeat === "weekly" ? "weeks" : "months"})</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" max="12" step="1" data-testid="input-repeat-every" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {repeat !== "none" && (
+                  <FormField
+                    control={form.control}
+                    name="ends"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ends</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-repeat-ends">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="count">After a number of times</SelectItem>
+                            <SelectItem value="until">On a date</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {repeat !== "none" && (ends === "count" ? (
+                  <FormField
+                    control={form.control}
+                    name="occurrences"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Occurrences</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="2"
+                            max={MAX_OCCURRENCES}
+                            step="1"
+                            data-testid="input-repeat-occurrences"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="until"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" data-testid="input-repeat-until" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                {recurrence && hasValidRange && (
+                  <p className="col-span-2 text-sm text-muted-foreground" data-testid="recurrence-summary">
+                    Repeats {describeRecurrence(recurrence)}. Each occurrence is reviewed as its own request.
+                  </p>
+                )}
+              </div>
+            )}
+            {conflicts.length > 0 && (
+              <Alert variant="destructive" data-testid="leave-overlap-warning">
+                <AlertTitle>Overlaps an existing request</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4">
+                    {conflicts.map((conflict) => (
+                      <li key={conflict.id}>
+                        {labelFor(conflict.leaveType)}, {formatLeaveDates(conflict)} ({conflict.status})
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
             <FormField
               control={form.control}
               name="leaveType"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Leave Type</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger data-testid="select-leave-type">
                         <SelectValue placeholder="Select leave type" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="annual">Annual Leave</SelectItem>
-                      <SelectItem value="sick">Sick Leave</SelectItem>
-                      <SelectItem value="personal">Personal Leave</SelectItem>
-                      <SelectItem value="emergency">Emergency Leave</SelectItem>
+                      {leaveTypes.map((leaveType) => (
+                        <SelectItem key={leaveType.key} value={leaveType.key}>
+                          <span className="flex items-center gap-2">
+                            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: leaveType.color }} />
+                            {leaveType.name}
+                          </span>
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -181,6 +627,25 @@ export default function LeaveRequestForm({ open, onOpenChange, editingRequest }:
                 </FormItem>
               )}
             />
+            {onBehalf && (
+              <FormField
+                control={form.control}
+                name="skipApproval"
+                render={({ field }) => (
+                  <FormItem>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={(event) => field.onChange(event.target.checked)}
+                        data-testid="checkbox-skip-approval"
+                      />
+                      Record as approved without review
+                    </label>
+                  </FormItem>
+                )}
+              />
+            )}
             <div className="flex justify-end space-x-2">
               <Button 
                 type="button" 
@@ -192,7 +657,7 @@ export default function LeaveRequestForm({ open, onOpenChange, editingRequest }:
               </Button>
               <Button 
                 type="submit" 
-                disabled={mutation.isPending}
+                disabled={mutation.isPending || conflicts.length > 0 || (onBehalf && !employeeId)}
                 data-testid="button-submit"
               >
                 {mutation.isPending 
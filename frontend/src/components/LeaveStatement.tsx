@@ -0,0 +1,127 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+import { formatLeaveDates } from "@/lib/leaveFormat";
+
+interface LeaveStatementEntry {
+  id: string;
+  leaveType: string;
+  kind: string;
+  amount: number;
+  reason: string;
+  createdAt: string;
+  balanceAfter: number;
+  leaveRequest: {
+    id: string;
+    startDate: string;
+    endDate: string;
+    status: string;
+  } | null;
+  createdBy: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+interface LeaveStatementResponse {
+  userId: string;
+  leaveBalances: Record<string, number>;
+  entries: LeaveStatementEntry[];
+}
+
+interface LeaveStatementProps {
+  // A user id, or "me" for the signed-in user
+  userId: string;
+}
+
+export function leaveStatementQueryKey(userId: string) {
+  return [`/api/users/${userId}/leave-statement`];
+}
+
+const kindColors: Record<string, string> = {
+  grant: "bg-blue-100 text-blue-800",
+  accrual: "bg-blue-100 text-blue-800",
+  debit: "bg-orange-100 text-orange-800",
+  refund: "bg-green-100 text-green-800",
+  adjustment: "bg-purple-100 text-purple-800",
+  carry_over: "bg-blue-100 text-blue-800",
+  expiry: "bg-red-100 text-red-800",
+};
+
+export default function LeaveStatement({ userId }: LeaveStatementProps) {
+  const { labelFor } = useLeaveTypes();
+  const { data, isLoading } = useQuery<LeaveStatementResponse>({
+    queryKey: leaveStatementQueryKey(userId),
+    // Approvals elsewhere in the app change balances, so never show a cached statement
+    refetchOnMount: "always",
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const entries = (data?.entries ?? []).slice().reverse();
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">No balance changes recorded yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Entry</TableHead>
+          <TableHead className="text-right">Days</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Request</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id} data-testid={`statement-row-${entry.id}`}>
+            <TableCell>{format(parseISO(entry.createdAt), 'MMM dd, yyyy')}</TableCell>
+            <TableCell>{labelFor(entry.leaveType)}</TableCell>
+            <TableCell>
+              <Badge className={kindColors[entry.kind] ?? "bg-gray-100 text-gray-800"}>
+                {entry.kind.replace("_", " ")}
+              </Badge>
+            </TableCell>
+            <TableCell className={`text-right font-medium ${entry.amount < 0 ? "text-red-600" : "text-green-700"}`}>
+              {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+            </TableCell>
+            <TableCell className="text-right">{entry.balanceAfter}</TableCell>
+            <TableCell className="max-w-xs">
+              <div className="truncate">{entry.reason}</div>
+              {entry.createdBy && (
+                <div className="text-xs text-muted-foreground">by {entry.createdBy.name}</div>
+              )}
+            </TableCell>
+            <TableCell>
+              {entry.leaveRequest ? (
+                <span className="text-sm">
+                  {formatLeaveDates(entry.leaveRequest)}{" "}
+                  <span className="text-muted-foreground">({entry.leaveRequest.status})</span>
+                </span>
+              ) : (
+                <span className="text-muted-foreground">—</span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Edit2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { LeaveTypeDefinition } from "@/hooks/use-leave-types";
+import { apiRequest } from "@/lib/queryClient";
+
+interface LeaveTypeDraft {
+  key: string;
+  name: string;
+  color: string;
+  deductsBalance: boolean;
+  requiresAttachment: boolean;
+  paid: boolean;
+  defaultEntitlement: string;
+  // Blank for no rule
+  minNoticeDays: string;
+  maxConsecutiveDays: string;
+  // Blank when every request needs a document
+  attachmentRequiredAfterDays: string;
+}
+
+const emptyDraft: LeaveTypeDraft = {
+  key: "",
+  name: "",
+  color: "#3b82f6",
+  deductsBalance: true,
+  requiresAttachment: false,
+  paid: true,
+  defaultEntitlement: "0",
+  minNoticeDays: "",
+  maxConsecutiveDays: "",
+  attachmentRequiredAfterDays: "",
+};
+
+function toPayload(draft: LeaveTypeDraft) {
+  return {
+    name: draft.name,
+    color: draft.color,
+    deductsBalance: draft.deductsBalance,
+    requiresAttachment: draft.requiresAttachment,
+    paid: draft.paid,
+    defaultEntitlement: Number(draft.defaultEntitlement || 0),
+    minNoticeDays: draft.minNoticeDays === "" ? null : Number(draft.minNoticeDays),
+    maxConsecutiveDays: draft.maxConsecutiveDays === "" ? null : Number(draft.maxConsecutiveDays),
+    attachmentRequiredAfterDays: draft.requiresAttachment && draft.attachmentRequiredAfterDays !== ""
+      ? Number(draft.attachmentRequiredAfterDays)
+      : null,
+  };
+}
+
+export default function LeaveTypeManager() {
+  const [draft, setDraft] = useState<LeaveTypeDraft>(emptyDraft);
+  const [editing, setEditing] = useState<LeaveTypeDefinition | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: leaveTypes = [], isLoading } = useQuery<LeaveTypeDefinition[]>({
+    queryKey: ["/api/leave-types?all=true"],
+  });
+
+  const invalidateLeaveTypes = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/leave-types"),
+    });
+  };
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editing) {
+        return apiRequest("PUT", `/api/leave-types/${editing.id}`, {
+          ...toPayload(draft),
+          active: editing.active,
+        });
+      }
+      return apiRequest("POST", "/api/leave-types", { key: draft.key, ...toPayload(draft) });
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Leave type updated" : "Leave type added",
+        description: `${draft.name} is ${editing ? "saved" : "now available to employees"}.`,
+      });
+      resetForm();
+      invalidateLeaveTypes();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save leave type.",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (leaveType: LeaveTypeDefinition) => {
+      const { id, key, ...fields } = leaveType;
+      return apiRequest("PUT", `/api/leave-types/${id}`, { ...fields, active: !leaveType.active });
+    },
+    onSuccess: () => {
+      invalidateLeaveTypes();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update leave type.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (leaveType: LeaveTypeDefinition) => {
+      return apiRequest("DELETE", `/api/leave-types/${leaveType.id}`);
+    },
+    onSuccess: (_, leaveType) => {
+      toast({
+        title: "Leave type deleted",
+        description: `${leaveType.name} has been removed.`,
+      });
+      invalidateLeaveTypes();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete leave type.",
+      });
+    },
+  });
+
+  const startEditing = (leaveType: LeaveTypeDefinition) => {
+    setEditing(leaveType);
+    setDraft({
+      key: leaveType.key,
+      name: leaveType.name,
+      color: leaveType.color,
+      deductsBalance: leaveType.deductsBalance,
+      requiresAttachment: leaveType.requiresAttachment,
+      paid: leaveType.paid,
+      defaultEntitlement: String(leaveType.defaultEntitlement),
+      minNoticeDays: leaveType.minNoticeDays?.toString() ?? "",
+      maxConsecutiveDays: leaveType.maxConsecutiveDays?.toString() ?? "",
+      attachmentRequiredAfterDays: leaveType.attachmentRequiredAfterDays?.toString() ?? "",
+    });
+  };
+
+  const updateDraft = <K extends keyof LeaveTypeDraft>(field: K, value: LeaveTypeDraft[K]) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const canSubmit = draft.name.trim() !== ""
+    && (editing || /^[a-z][a-z0-9_]*$/.test(draft.key))
+    && Number(draft.defaultEntitlement || 0) >= 0
+    && (draft.maxConsecutiveDays === "" || Number(draft.maxConsecutiveDays) >= 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leave Types</CardTitle>
+        <CardDescription>
+          The kinds of leave employees can request. Types already used by requests or balances
+          cannot be deleted; deactivate them instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="leave-type-key">Key</Label>
+            <Input
+              id="leave-type-key"
+              value={draft.key}
+              onChange={(event) => updateDraft("key", event.target.value)}
+              placeholder="e.g. parental"
+              disabled={!!editing}
+              data-testid="input-leave-type-key"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-type-name">Name</Label>
+            <Input
+              id="leave-type-name"
+              value={draft.name}
+              onChange={(event) => updateDraft("name", event.target.value)}
+              placeholder="e.g. Parental Leave"
+              data-testid="input-leave-type-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-type-color">Color</Label>
+            <Input
+              id="leave-type-color"
+              type="color"
+              value={draft.color}
+              onChange={(event) => updateDraft("color", event.target.value)}
+              data-testid="input-leave-type-color"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-type-entitlement">Yearly entitlement (days)</Label>
+            <Input
+              id="leave-type-entitlement"
+              type="number"
+              min="0"
+              step="0.5"
+              value={draft.defaultEntitlement}
+              onChange={(event) => updateDraft("defaultEntitlement", event.target.value)}
+              data-testid="input-leave-type-entitlement"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-type-notice">Minimum notice (days)</Label>
+            <Input
+              id="leave-type-notice"
+              type="number"
+              min="0"
+              step="1"
+              value={draft.minNoticeDays}
+              onChange={(event) => updateDraft("minNoticeDays", event.target.value)}
+              placeholder="None"
+              data-testid="input-leave-type-notice"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-type-max-consecutive">Longest request (days)</Label>
+            <Input
+              id="leave-type-max-consecutive"
+              type="number"
+              min="1"
+              step="1"
+              value={draft.maxConsecutiveDays}
+              onChange={(event) => updateDraft("maxConsecutiveDays", event.target.value)}
+              placeholder="No limit"
+              data-testid="input-leave-type-max-consecutive"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-type-attachment-after">Document needed after (days)</Label>
+            <Input
+              id="leave-type-attachment-after"
+              type="number"
+              min="0"
+              step="1"
+              value={draft.attachmentRequiredAfterDays}
+              onChange={(event) => updateDraft("attachmentRequiredAfterDays", event.target.value)}
+              placeholder="Always"
+              disabled={!draft.requiresAttachment}
+              data-testid="input-leave-type-attachment-after"
+            />
+          </div>
+          <div className="flex flex-wrap gap-4 md:col-span-2">
+            {([
+              ["deductsBalance", "Deducts from balance"],
+              ["paid", "Paid"],
+              ["requiresAttachment", "Requires attachment"],
+            ] as const).map(([field, label]) => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft[field]}
+                  onChange={(event) => updateDraft(field, event.target.checked)}
+                  data-testid={`checkbox-leave-type-${field}`}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              disabled={!canSubmit || saveMutation.isPending}
+              data-testid="button-save-leave-type"
+            >
+              {editing ? "Save Changes" : "Add Leave Type"}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Entitlement</TableHead>
+                <TableHead>Options</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaveTypes.map((leaveType) => (
+                <TableRow key={leaveType.id} data-testid={`leave-type-row-${leaveType.key}`}>
+                  <TableCell className="font-medium">
+                    <span className="flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: leaveType.color }} />
+                      {leaveType.name}
+                    </span>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{leaveType.key}</TableCell>
+                  <TableCell>
+                    {leaveType.deductsBalance ? `${leaveType.defaultEntitlement} days` : "—"}
+                  </TableCell>
+                  <TableCell className="space-x-1">
+                    {!leaveType.deductsBalance && <Badge variant="outline">No balance</Badge>}
+                    {!leaveType.paid && <Badge variant="outline">Unpaid</Badge>}
+                    {leaveType.requiresAttachment && (
+                      <Badge variant="outline">
+                        {leaveType.attachmentRequiredAfterDays != null
+                          ? `Attachment over ${leaveType.attachmentRequiredAfterDays} days`
+                          : "Attachment"}
+                      </Badge>
+                    )}
+                    {leaveType.minNoticeDays != null && (
+                      <Badge variant="outline">{leaveType.minNoticeDays} days' notice</Badge>
+                    )}
+                    {leaveType.maxConsecutiveDays != null && (
+                      <Badge variant="outline">At most {leaveType.maxConsecutiveDays} days</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant={leaveType.active ? "default" : "outline"}
+                      onClick={() => toggleActiveMutation.mutate(leaveType)}
+                      disabled={toggleActiveMutation.isPending}
+                      data-testid={`button-toggle-leave-type-${leaveType.key}`}
+                    >
+                      {leaveType.active ? "Active" : "Inactive"}
+                    </Button>
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => startEditing(leaveType)}
+                      data-testid={`button-edit-leave-type-${leaveType.key}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(leaveType)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-leave-type-${leaveType.key}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
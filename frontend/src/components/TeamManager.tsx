@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Edit2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTeams, type Team } from "@/hooks/use-teams";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Member {
+  id: string;
+  name: string;
+  teamId: string | null;
+}
+
+interface TeamDraft {
+  name: string;
+  parentId: string;
+  leadId: string;
+  // Blank for no staffing rule
+  minimumPresent: string;
+  coverageEnforcement: Team["coverageEnforcement"];
+}
+
+const NONE = "none";
+
+const emptyDraft: TeamDraft = {
+  name: "",
+  parentId: NONE,
+  leadId: NONE,
+  minimumPresent: "",
+  coverageEnforcement: "warn",
+};
+
+const enforcementLabels: Record<Team["coverageEnforcement"], string> = {
+  warn: "Warn only",
+  block: "Refuse the request",
+};
+
+export default function TeamManager() {
+  const [draft, setDraft] = useState<TeamDraft>(emptyDraft);
+  const [editing, setEditing] = useState<Team | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { teams, isLoading, labelFor } = useTeams();
+
+  const { data: users = [] } = useQuery<Member[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: draft.name.trim(),
+        parentId: draft.parentId === NONE ? null : draft.parentId,
+        leadId: draft.leadId === NONE ? null : draft.leadId,
+        minimumPresent: draft.minimumPresent === "" ? null : Number(draft.minimumPresent),
+        coverageEnforcement: draft.coverageEnforcement,
+      };
+      if (editing) {
+        return apiRequest("PUT", `/api/teams/${editing.id}`, payload);
+      }
+      return apiRequest("POST", "/api/teams", payload);
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Team updated" : "Team added",
+        description: `${draft.name.trim()} has been saved.`,
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save team.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (team: Team) => {
+      return apiRequest("DELETE", `/api/teams/${team.id}`);
+    },
+    onSuccess: (_, team) => {
+      toast({
+        title: "Team deleted",
+        description: `${team.name} has been removed; its members no longer have a team.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete team.",
+      });
+    },
+  });
+
+  const startEditing = (team: Team) => {
+    setEditing(team);
+    setDraft({
+      name: team.name,
+      parentId: team.parentId ?? NONE,
+      leadId: team.leadId ?? NONE,
+      minimumPresent: team.minimumPresent?.toString() ?? "",
+      coverageEnforcement: team.coverageEnforcement,
+    });
+  };
+
+  // A team can't sit below itself or one of its own sub-teams
+  const isWithin = (teamId: string, ancestorId: string): boolean => {
+    const seen = new Set<string>();
+    for (let current = teams.find((team) => team.id === teamId); current && !seen.has(current.id);
+      current = teams.find((team) => team.id === current!.parentId)) {
+      if (current.id === ancestorId) {
+        return true;
+      }
+      seen.add(current.id);
+    }
+    return false;
+  };
+  const parentOptions = editing ? teams.filter((team) => !isWithin(team.id, editing.id)) : teams;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Teams</CardTitle>
+        <CardDescription>
+          Departments are teams without a parent. Members of a team can see its approved leave
+          on their calendar, and filters for a team include the teams nested below it. A minimum
+          staffing rule counts the members of nested teams too.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Name</Label>
+              <Input
+                id="team-name"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                placeholder="e.g. Engineering"
+                data-testid="input-team-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Part of</Label>
+              <Select value={draft.parentId} onValueChange={(parentId) => setDraft({ ...draft, parentId })}>
+                <SelectTrigger data-testid="select-team-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No parent (department)</SelectItem>
+                  {parentOptions.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{labelFor(team.id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Lead</Label>
+              <Select value={draft.leadId} onValueChange={(leadId) => setDraft({ ...draft, leadId })}>
+                <SelectTrigger data-testid="select-team-lead">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No lead</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-minimum-present">Minimum present</Label>
+              <Input
+                id="team-minimum-present"
+                type="number"
+                min={1}
+                step={1}
+                value={draft.minimumPresent}
+                onChange={(event) => setDraft({ ...draft, minimumPresent: event.target.value })}
+                placeholder="No minimum"
+                data-testid="input-team-minimum-present"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>When leave would breach it</Label>
+              <Select
+                value={draft.coverageEnforcement}
+                onValueChange={(coverageEnforcement) => setDraft({
+                  ...draft,
+                  coverageEnforcement: coverageEnforcement as Team["coverageEnforcement"],
+                })}
+                disabled={draft.minimumPresent === ""}
+              >
+                <SelectTrigger data-testid="select-team-coverage-enforcement">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(enforcementLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              disabled={draft.name.trim() === "" || saveMutation.isPending}
+              data-testid="button-save-team"
+            >
+              {editing ? "Save Changes" : "Add Team"}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : teams.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No teams yet.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead>Lead</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Minimum Staffing</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.map((team) => (
+                <TableRow key={team.id} data-testid={`team-row-${team.id}`}>
+                  <TableCell className="font-medium">{labelFor(team.id)}</TableCell>
+                  <TableCell>{users.find((user) => user.id === team.leadId)?.name ?? "—"}</TableCell>
+                  <TableCell>{users.filter((user) => user.teamId === team.id).length}</TableCell>
+                  <TableCell>
+                    {team.minimumPresent != null
+                      ? `${team.minimumPresent} present · ${team.coverageEnforcement === "block" ? "refuses" : "warns"}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => startEditing(team)}
+                      data-testid={`button-edit-team-${team.id}`}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(team)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-team-${team.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
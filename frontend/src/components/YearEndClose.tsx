@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useLeaveTypes } from "@/hooks/use-leave-types";
+
+interface CarryOverRule {
+  id: string;
+  leaveType: string;
+  maxDays: number;
+  expiryMonths: number | null;
+}
+
+interface LeaveYear {
+  year: number;
+  start: string;
+  end: string;
+  nextStart: string;
+}
+
+interface YearEndPreview extends LeaveYear {
+  closed: boolean;
+  employees: {
+    userId: string;
+    name: string;
+    leaveTypes: {
+      leaveType: string;
+      balance: number;
+      carry: number;
+      expire: number;
+      reset: number;
+      carryExpiresOn: string | null;
+    }[];
+  }[];
+}
+
+interface RuleDraft {
+  maxDays: string;
+  expiryMonths: string;
+}
+
+function formatDate(date: string) {
+  return format(parseISO(date), 'MMM dd, yyyy');
+}
+
+export default function YearEndClose() {
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [year, setYear] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { leaveTypes, labelFor } = useLeaveTypes();
+
+  const { data: rules = [] } = useQuery<CarryOverRule[]>({
+    queryKey: ["/api/carry-over-rules"],
+  });
+
+  const { data: currentYear } = useQuery<LeaveYear>({
+    queryKey: ["/api/leave-years/current"],
+  });
+
+  const previewQueryKey = [`/api/leave-years/${year}/close-preview`];
+  const { data: preview, isLoading: previewLoading } = useQuery<YearEndPreview>({
+    queryKey: previewQueryKey,
+    enabled: /^\d{4}$/.test(year),
+  });
+
+  // Default to the leave year that has just ended
+  useEffect(() => {
+    if (currentYear && year === "") {
+      setYear(String(currentYear.year - 1));
+    }
+  }, [currentYear, year]);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(rules.map((rule) => [rule.leaveType, {
+      maxDays: String(rule.maxDays),
+      expiryMonths: rule.expiryMonths ? String(rule.expiryMonths) : "",
+    }])));
+  }, [rules]);
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/carry-over-rules"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/leave-years/"),
+    });
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (leaveType: string) => {
+      const draft = drafts[leaveType] ?? { maxDays: "0", expiryMonths: "" };
+      return apiRequest("PUT", `/api/carry-over-rules/${leaveType}`, {
+        maxDays: Number(draft.maxDays || 0),
+        expiryMonths: draft.expiryMonths ? Number(draft.expiryMonths) : null,
+      });
+    },
+    onSuccess: (_, leaveType) => {
+      toast({
+        title: "Carry-over rule saved",
+        description: `${labelFor(leaveType)} balances will be closed at year end.`,
+      });
+      invalidateRules();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save carry-over rule.",
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (leaveType: string) => {
+      return apiRequest("DELETE", `/api/carry-over-rules/${leaveType}`);
+    },
+    onSuccess: (_, leaveType) => {
+      toast({
+        title: "Carry-over rule removed",
+        description: `${labelFor(leaveType)} balances will roll forward unchanged.`,
+      });
+      invalidateRules();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to remove carry-over rule.",
+      });
+    },
+  });
+
+  const closeYearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leave-years/${year}/close`);
+      return response.json() as Promise<YearEndPreview & { posted: number; skipped: number }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: `Leave year ${result.year} closed`,
+        description: `${result.posted} balance entries posted, ${result.skipped} already recorded.`,
+      });
+      queryClient.invalidateQueries({ queryKey: previewQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to close leave year.",
+      });
+    },
+  });
+
+  const updateDraft = (leaveType: string, field: keyof RuleDraft, value: string) => {
+    setDrafts((current) => ({
+      ...current,
+      [leaveType]: { ...(current[leaveType] ?? { maxDays: "0", expiryMonths: "" }), [field]: value },
+    }));
+  };
+
+  const ruleFor = (leaveType: string) => rules.find((rule) => rule.leaveType === leaveType);
+  const yearEnded = !!preview && !!currentYear && currentYear.start >= preview.nextStart;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Carry-over Rules</CardTitle>
+          <CardDescription>
+            At year end, balances above the cap expire and the entitlement resets. Leave types
+            without a rule roll forward unchanged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Leave Type</TableHead>
+                <TableHead>Carry-over cap (days)</TableHead>
+                <TableHead>Carried days expire after (months)</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaveTypes.map(({ key: leaveType, name }) => (
+                <TableRow key={leaveType} data-testid={`carry-over-rule-row-${leaveType}`}>
+                  <TableCell className="font-medium">
+                    {name}
+                    {!ruleFor(leaveType) && (
+                      <span className="ml-2 text-xs text-muted-foreground">no rule</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      className="w-28"
+                      value={drafts[leaveType]?.maxDays ?? ""}
+                      onChange={(event) => updateDraft(leaveType, "maxDays", event.target.value)}
+                      placeholder="0"
+                      data-testid={`input-carry-over-max-${leaveType}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      className="w-28"
+                      value={drafts[leaveType]?.expiryMonths ?? ""}
+                      onChange={(event) => updateDraft(leaveType, "expiryMonths", event.target.value)}
+                      placeholder="Never"
+                      data-testid={`input-carry-over-expiry-${leaveType}`}
+                    />
+                  </TableCell>
+                  <TableCell className="space-x-2">
+                    <Button
+                      size="sm"
+                      onClick={() => saveRuleMutation.mutate(leaveType)}
+                      disabled={saveRuleMutation.isPending}
+                      data-testid={`button-save-carry-over-${leaveType}`}
+                    >
+                      Save
+                    </Button>
+                    {ruleFor(leaveType) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => deleteRuleMutation.mutate(leaveType)}
+                        disabled={deleteRuleMutation.isPending}
+                        data-testid={`button-delete-carry-over-${leaveType}`}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Year-end Close</CardTitle>
+            <CardDescription>
+              {preview
+                ? `Leave year ${preview.year}: ${formatDate(preview.start)} – ${formatDate(preview.end)}`
+                : "Preview what will carry, expire and reset before closing a leave year"}
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="close-year">Leave year</Label>
+              <Input
+                id="close-year"
+                className="w-24"
+                value={year}
+                onChange={(event) => setYear(event.target.value)}
+                data-testid="input-close-year"
+              />
+            </div>
+            <Button
+              onClick={() => {
+                if (window.confirm(`Close leave year ${year}? This posts the changes below to every balance.`)) {
+                  closeYearMutation.mutate();
+                }
+              }}
+              disabled={!yearEnded || preview?.closed || closeYearMutation.isPending}
+              data-testid="button-close-year"
+            >
+              {preview?.closed ? "Closed" : "Close Year"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {previewLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : !preview || rules.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">
+                Add a carry-over rule to close leave years.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Year-end balance</TableHead>
+                  <TableHead className="text-right">Carries</TableHead>
+                  <TableHead className="text-right">Expires</TableHead>
+                  <TableHead className="text-right">Resets to</TableHead>
+                  <TableHead>Carried days expire</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.employees.flatMap((employee) =>
+                  employee.leaveTypes.map((plan, index) => (
+                    <TableRow
+                      key={`${employee.userId}-${plan.leaveType}`}
+                      data-testid={`close-preview-row-${employee.userId}-${plan.leaveType}`}
+                    >
+                      <TableCell className="font-medium">{index === 0 ? employee.name : ""}</TableCell>
+                      <TableCell>{labelFor(plan.leaveType)}</TableCell>
+                      <TableCell className="text-right">{plan.balance}</TableCell>
+                      <TableCell className="text-right">{plan.carry}</TableCell>
+                      <TableCell className={`text-right ${plan.expire > 0 ? "text-red-600 font-medium" : ""}`}>
+                        {plan.expire > 0 ? `-${plan.expire}` : 0}
+                      </TableCell>
+                      <TableCell className="text-right">{plan.carry + plan.reset}</TableCell>
+                      <TableCell>
+                        {plan.carryExpiresOn ? (
+                          formatDate(plan.carryExpiresOn)
+                        ) : plan.carry > 0 ? (
+                          <Badge variant="outline">Never</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
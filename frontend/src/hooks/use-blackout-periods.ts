@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTeams } from "@/hooks/use-teams";
+import { blackoutApplies } from "@shared/leavePolicies";
+
+export interface BlackoutPeriod {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  // Organisation-wide when null
+  teamId: string | null;
+  // Every leave type when null
+  leaveType: string | null;
+}
+
+// Blackout periods, plus the ones covering a member of a given team
+export function useBlackoutPeriods() {
+  const { data: blackoutPeriods = [], isLoading } = useQuery<BlackoutPeriod[]>({
+    queryKey: ["/api/blackout-periods"],
+  });
+  const { chainFor } = useTeams();
+
+  return {
+    blackoutPeriods,
+    isLoading,
+    applicableTo: (teamId: string | null | undefined, leaveType?: string) =>
+      blackoutPeriods.filter((period) => blackoutApplies(period, chainFor(teamId), leaveType)),
+  };
+}
+
+// The period covering a YYYY-MM-DD date, if any
+export function findBlackout<T extends Pick<BlackoutPeriod, "startDate" | "endDate">>(
+  periods: T[],
+  date: string
+): T | undefined {
+  return periods.find((period) => period.startDate <= date && date <= period.endDate);
+}
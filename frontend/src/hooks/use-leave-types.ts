@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface LeaveTypeDefinition {
+  id: string;
+  key: string;
+  name: string;
+  color: string;
+  deductsBalance: boolean;
+  requiresAttachment: boolean;
+  // With requiresAttachment, only requests longer than this need a document
+  attachmentRequiredAfterDays: number | null;
+  paid: boolean;
+  defaultEntitlement: number;
+  minNoticeDays: number | null;
+  maxConsecutiveDays: number | null;
+  active: boolean;
+}
+
+// Active leave types, plus lookups for rendering the keys stored on requests and
+// ledger entries. Keys of retired types are shown as-is.
+export function useLeaveTypes() {
+  const { data: leaveTypes = [], isLoading } = useQuery<LeaveTypeDefinition[]>({
+    queryKey: ["/api/leave-types"],
+  });
+
+  const byKey = new Map(leaveTypes.map((leaveType) => [leaveType.key, leaveType]));
+
+  return {
+    leaveTypes,
+    isLoading,
+    labelFor: (key: string) => byKey.get(key)?.name ?? key,
+    colorFor: (key: string) => byKey.get(key)?.color ?? "#6b7280",
+  };
+}
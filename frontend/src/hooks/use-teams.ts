@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface Team {
+  id: string;
+  name: string;
+  parentId: string | null;
+  leadId: string | null;
+  minimumPresent: number | null;
+  coverageEnforcement: "warn" | "block";
+}
+
+// Teams, plus their full path for display, e.g. "Engineering / Platform"
+export function useTeams() {
+  const { data: teams = [], isLoading } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const byId = new Map(teams.map((team) => [team.id, team]));
+
+  const pathFor = (id: string | null): string => {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    for (let team = id ? byId.get(id) : undefined; team && !seen.has(team.id); team = team.parentId ? byId.get(team.parentId) : undefined) {
+      seen.add(team.id);
+      names.unshift(team.name);
+    }
+    return names.join(" / ");
+  };
+
+  // The team and every team above it, nearest first
+  const chainFor = (id: string | null | undefined): string[] => {
+    const ids: string[] = [];
+    for (let team = id ? byId.get(id) : undefined; team && !ids.includes(team.id); team = team.parentId ? byId.get(team.parentId) : undefined) {
+      ids.push(team.id);
+    }
+    return ids;
+  };
+
+  return {
+    teams: teams.slice().sort((a, b) => pathFor(a.id).localeCompare(pathFor(b.id))),
+    isLoading,
+    labelFor: pathFor,
+    chainFor,
+  };
+}
@@ -0,0 +1,134 @@
+import { format, parseISO } from "date-fns";
+
+export type DayPortion = "full" | "am" | "pm";
+
+export interface LeaveDates {
+  startDate: string;
+  endDate: string;
+  startPortion?: DayPortion;
+  endPortion?: DayPortion;
+  hours?: number | null;
+}
+
+export const dayPortionLabels: Record<DayPortion, string> = {
+  full: "Full day",
+  am: "Morning (AM)",
+  pm: "Afternoon (PM)",
+};
+
+// e.g. "cancellation requested"
+export function formatStatus(status: string) {
+  return status.replace(/_/g, " ");
+}
+
+function portionSuffix(portion: DayPortion | undefined) {
+  return portion && portion !== "full" ? ` (${portion.toUpperCase()})` : "";
+}
+
+// e.g. "Mar 03 (PM) - Mar 05", "Mar 03 (AM)" or "Mar 03 (2h)"
+export function formatLeaveDates(request: LeaveDates, pattern = "MMM dd") {
+  const start = format(parseISO(request.startDate), pattern);
+
+  if (request.hours != null) {
+    return `${start} (${request.hours}h)`;
+  }
+
+  if (request.startDate === request.endDate) {
+    return `${start}${portionSuffix(request.startPortion)}`;
+  }
+
+  const end = format(parseISO(request.endDate), pattern);
+  return `${start}${portionSuffix(request.startPortion)} - ${end}${portionSuffix(request.endPortion)}`;
+}
+
+// Dates of a request that are only partially taken off
+export function getPartialDays(request: LeaveDates): string[] {
+  if (request.hours != null) {
+    return [request.startDate];
+  }
+
+  const dates: string[] = [];
+  if (request.startPortion && request.startPortion !== "full") {
+    dates.push(request.startDate);
+  }
+  if (request.endDate !== request.startDate && request.endPortion && request.endPortion !== "full") {
+    dates.push(request.endDate);
+  }
+  return dates;
+}
+
+export interface ApprovalStep {
+  id: string;
+  position: number;
+  approverRole: "manager" | "admin" | null;
+  approver: { id: string; name: string } | null;
+  status: "pending" | "approved" | "rejected";
+  decidedBy: { id: string; name: string } | null;
+  onBehalfOf: { id: string; name: string } | null;
+  comment: string | null;
+  decidedAt: string | null;
+}
+
+export function describeApprover(step: Pick<ApprovalStep, "approverRole" | "approver">) {
+  if (step.approver) {
+    return step.approver.name;
+  }
+  return step.approverRole === "manager" ? "Line manager" : "Any admin";
+}
+
+// e.g. "Waiting on Line manager (step 1 of 2)"; null once no step is pending
+export function formatWaitingOn(approvals: ApprovalStep[] | undefined) {
+  const current = approvals?.find((step) => step.status === "pending");
+  if (!current) {
+    return null;
+  }
+  return `Waiting on ${describeApprover(current)} (step ${current.position} of ${approvals!.length})`;
+}
+
+// e.g. "Approved by Dana on behalf of Sam"
+export function formatApprovalDecision(step: ApprovalStep) {
+  const verb = step.status === "approved" ? "Approved" : "Rejected";
+  const by = step.decidedBy?.name ?? "a former user";
+  return step.onBehalfOf ? `${verb} by ${by} on behalf of ${step.onBehalfOf.name}` : `${verb} by ${by}`;
+}
+
+export interface RequestSla {
+  ageHours: number;
+  status: "on_track" | "at_risk" | "breached";
+}
+
+export const slaLabels: Record<RequestSla["status"], string> = {
+  on_track: "On track",
+  at_risk: "At risk",
+  breached: "Overdue",
+};
+
+export const slaColors: Record<RequestSla["status"], string> = {
+  on_track: "bg-green-100 text-green-800",
+  at_risk: "bg-yellow-100 text-yellow-800",
+  breached: "bg-red-100 text-red-800",
+};
+
+// e.g. "5h" or "2d 3h"
+export function formatAge(hours: number) {
+  return hours < 24 ? `${hours}h` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export interface CoverageDay {
+  date: string;
+  teamId: string;
+  teamName: string;
+  members: number;
+  absent: number;
+  present: number;
+  minimumPresent: number;
+  enforcement: "warn" | "block";
+  breached: boolean;
+}
+
+// Staffing on each working day of a pending request, were it approved
+export interface CoverageReport {
+  breached: boolean;
+  blocking: boolean;
+  days: CoverageDay[];
+}
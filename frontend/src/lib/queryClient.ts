@@ -23,13 +23,43 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as the raw request body, e.g. a supporting document
+export async function uploadFile(url: string, file: File): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// String parts form the path and object parts the query string, so
+// ["/api/leave-requests", { all: true }] fetches /api/leave-requests?all=true
+function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const path = queryKey.filter((part) => typeof part !== "object").join("/");
+  const params = new URLSearchParams();
+  for (const part of queryKey) {
+    if (part && typeof part === "object") {
+      for (const [key, value] of Object.entries(part)) {
+        params.set(key, String(value));
+      }
+    }
+  }
+
+  const search = params.toString();
+  return search ? `${path}${path.includes("?") ? "&" : "?"}${search}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
       credentials: "include",
     });
 
@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { LogOut, User } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
@@ -15,7 +16,7 @@ interface User {
   name: string;
   email: string;
   role: string;
-  leaveBalance: number;
+  leaveBalances: Record<string, number>;
 }
 
 export default function DashboardPage() {
@@ -88,7 +89,7 @@ export default function DashboardPage() {
             
             <div className="flex items-center space-x-4">
               <span className="text-sm text-gray-600" data-testid="user-role">
-                {user.role === 'admin' ? 'Administrator' : 'Employee'}
+                {user.role === 'admin' ? 'Administrator' : user.role === 'manager' ? 'Manager' : 'Employee'}
               </span>
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -128,7 +129,24 @@ export default function DashboardPage() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-        {user.role === 'admin' ? <AdminDashboard /> : <EmployeeDashboard />}
+        {user.role === 'admin' ? (
+          <AdminDashboard />
+        ) : user.role === 'manager' ? (
+          <Tabs defaultValue="team" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="team" data-testid="tab-my-team">My Team</TabsTrigger>
+              <TabsTrigger value="mine" data-testid="tab-my-leave">My Leave</TabsTrigger>
+            </TabsList>
+            <TabsContent value="team">
+              <AdminDashboard scope="team" />
+            </TabsContent>
+            <TabsContent value="mine">
+              <EmployeeDashboard />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <EmployeeDashboard />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,10 @@
+import { db } from "../api/lib/db.js";
+import { applyStatutoryEntitlements } from "../shared/leaveYear.ts";
+
+// Usage: npm run entitlements:apply -- [YYYY-MM-DD]
+// (tsx loads the shared TypeScript modules; plain node can't)
+(async () => {
+  const { asOf, posted, skipped } = await applyStatutoryEntitlements(db, process.argv[2]);
+  console.log(`Statutory entitlements as of ${asOf}: ${posted} granted, ${skipped} already recorded`);
+  process.exit(0);
+})();
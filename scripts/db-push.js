@@ -0,0 +1,105 @@
+import { spawnSync } from "child_process";
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { sql } from "drizzle-orm";
+import { db } from "../api/lib/db.js";
+import { leaveTransactions } from "../shared/schema.ts";
+import { DEFAULT_LEAVE_TYPES, ensureDefaultLeaveTypes } from "../shared/leaveTypes.ts";
+
+// Usage: npm run db:push [-- drizzle-kit push options]
+// Wraps drizzle-kit push with the data moves a schema change can't do by itself.
+// Balances from the old users.leave_balance column are saved to a file before the
+// push drops the column, then posted to the ledger as opening grants. The file is
+// kept until they are posted, so a failed run can simply be run again. Before the
+// push, the default leave types are created too, because existing requests start
+// referencing them by key when it adds the foreign key.
+const LEGACY_BALANCES_FILE = "legacy-leave-balances.json";
+
+async function hasColumn(table, column) {
+  const { rows } = await db.execute(sql`
+    select 1 from information_schema.columns
+    where table_schema = current_schema() and table_name = ${table} and column_name = ${column}
+  `);
+  return rows.length > 0;
+}
+
+// Only the columns the foreign key needs; the push adds the rest
+async function prepareLeaveTypes() {
+  await db.execute(sql`
+    create table if not exists leave_types (
+      id varchar primary key default gen_random_uuid(),
+      key text not null constraint leave_types_key_unique unique,
+      name text not null,
+      color text not null default '#3b82f6',
+      deducts_balance boolean not null default true,
+      requires_attachment boolean not null default false,
+      paid boolean not null default true,
+      default_entitlement real not null default 0,
+      active boolean not null default true,
+      created_at timestamp not null default now()
+    )
+  `);
+
+  for (const leaveType of DEFAULT_LEAVE_TYPES) {
+    await db.execute(sql`
+      insert into leave_types (key, name, color, default_entitlement)
+      values (${leaveType.key}, ${leaveType.name}, ${leaveType.color}, ${leaveType.defaultEntitlement})
+      on conflict (key) do nothing
+    `);
+  }
+}
+
+async function saveLegacyBalances() {
+  if (existsSync(LEGACY_BALANCES_FILE) || !(await hasColumn("users", "leave_balance"))) {
+    return;
+  }
+
+  const { rows } = await db.execute(sql`select id, leave_balance from users`);
+  writeFileSync(LEGACY_BALANCES_FILE, JSON.stringify(rows));
+  console.log(`Saved ${rows.length} legacy leave balances to ${LEGACY_BALANCES_FILE}`);
+}
+
+// One opening grant of annual leave per user; the key makes re-running harmless
+async function postOpeningBalances() {
+  if (!existsSync(LEGACY_BALANCES_FILE)) {
+    return;
+  }
+
+  const balances = JSON.parse(readFileSync(LEGACY_BALANCES_FILE, "utf8"));
+  const grants = balances
+    .filter((balance) => Number(balance.leave_balance) !== 0)
+    .map((balance) => ({
+      userId: balance.id,
+      leaveType: "annual",
+      kind: "grant",
+      amount: Number(balance.leave_balance),
+      reason: "Opening balance",
+      idempotencyKey: `opening:${balance.id}:annual`,
+    }));
+
+  await ensureDefaultLeaveTypes(db);
+  let posted = 0;
+  for (let i = 0; i < grants.length; i += 500) {
+    const inserted = await db
+      .insert(leaveTransactions)
+      .values(grants.slice(i, i + 500))
+      .onConflictDoNothing({ target: leaveTransactions.idempotencyKey })
+      .returning({ id: leaveTransactions.id });
+    posted += inserted.length;
+  }
+
+  unlinkSync(LEGACY_BALANCES_FILE);
+  console.log(`Opening balances: ${posted} posted, ${grants.length - posted} already recorded`);
+}
+
+(async () => {
+  await prepareLeaveTypes();
+  await saveLegacyBalances();
+
+  const push = spawnSync("npx", ["drizzle-kit", "push", ...process.argv.slice(2)], { stdio: "inherit" });
+  if (push.status !== 0) {
+    process.exit(push.status ?? 1);
+  }
+
+  await postOpeningBalances();
+  process.exit(0);
+})();
@@ -0,0 +1,13 @@
+import { db } from "../api/lib/db.js";
+import { runEscalations } from "../shared/escalations.ts";
+import { sendEscalationNotifications } from "../api/lib/slack.js";
+
+// Usage: npm run escalations:run
+// (tsx loads the shared TypeScript modules; plain node can't)
+// Run it every hour or so; each approver is reminded, and escalated from, at most once per request
+(async () => {
+  const result = await runEscalations(db);
+  await sendEscalationNotifications(result);
+  console.log(`Escalations: ${result.reminders.length} reminded, ${result.escalations.length} escalated`);
+  process.exit(0);
+})();
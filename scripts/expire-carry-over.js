@@ -0,0 +1,10 @@
+import { db } from "../api/lib/db.js";
+import { expireCarriedOverLeave } from "../shared/leaveYear.ts";
+
+// Usage: npm run carry-over:expire -- [YYYY-MM-DD]
+// (tsx loads the shared TypeScript modules; plain node can't)
+(async () => {
+  const { asOf, posted, skipped } = await expireCarriedOverLeave(db, process.argv[2]);
+  console.log(`Carry-over expiry as of ${asOf}: ${posted} expired, ${skipped} already recorded`);
+  process.exit(0);
+})();
@@ -0,0 +1,10 @@
+import { db } from "../api/lib/db.js";
+import { runAccruals } from "../shared/accruals.ts";
+
+// Usage: npm run accruals:run -- [YYYY-MM-DD]
+// (tsx loads the shared TypeScript modules; plain node can't)
+(async () => {
+  const { asOf, posted, skipped } = await runAccruals(db, process.argv[2]);
+  console.log(`Accruals as of ${asOf}: ${posted} posted, ${skipped} already recorded`);
+  process.exit(0);
+})();
@@ -4,7 +4,7 @@ import { setupVite, serveStatic, log } from "./vite";
 
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "1mb" })); // room for .ics holiday imports
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -1,14 +1,121 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
+import { randomUUID } from "crypto";
 import { createServer, type Server } from "http";
 import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import bcrypt from "bcrypt";
-import { eq, and, desc, ne } from "drizzle-orm";
+import { eq, and, desc, ne, inArray, type SQL } from "drizzle-orm";
 import { db } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
-import { users, leaveRequests, insertUserSchema, insertLeaveRequestSchema } from "@shared/schema";
+import {
+  users,
+  leaveRequests,
+  teams,
+  holidays,
+  accrualPolicies,
+  carryOverRules,
+  leaveTypes,
+  approvalChains,
+  approvalDelegations,
+  autoApprovalRules,
+  blackoutPeriods,
+  leaveRequestComments,
+  leaveRequestAttachments,
+  insertUserSchema,
+  insertLeaveRequestSchema,
+  insertHolidaySchema,
+  insertAccrualPolicySchema,
+  insertCarryOverRuleSchema,
+  insertLeaveTypeSchema,
+  updateLeaveTypeSchema,
+  insertApprovalChainSchema,
+  insertApprovalDelegationSchema,
+  insertAutoApprovalRuleSchema,
+  approvalSlaSchema,
+  insertTeamSchema,
+  insertBlackoutPeriodSchema,
+  insertLeaveRequestCommentSchema,
+  approveLeaveRequestSchema,
+  bulkApproveLeaveRequestsSchema,
+  bulkRejectLeaveRequestsSchema,
+  onBehalfLeaveRequestSchema,
+  recurringLeaveRequestSchema,
+  cancelLeaveRequestSchema,
+  rejectLeaveRequestSchema,
+  updateEmploymentSchema,
+  updateManagerSchema,
+  updateRoleSchema,
+  updateTeamMembershipSchema,
+  leaveRequestPolicySchema,
+  leaveSpanSchema,
+  uploadAttachmentSchema,
+} from "@shared/schema";
+import { calculateLeaveDays } from "@shared/leaveDuration";
+import {
+  getAllLeaveBalances,
+  getLeaveBalances,
+  getLeaveStatement,
+  grantDefaultBalances,
+  recordLeaveTransaction,
+} from "@shared/leaveBalances";
+import { ensureDefaultLeaveTypes, getActiveLeaveType, getLeaveTypes } from "@shared/leaveTypes";
+import { getDelegations } from "@shared/delegations";
+import {
+  canReviewLeaveRequest,
+  findConflictingLeaveRequests,
+  getLeaveRequestComments,
+  getLeaveRequestHistory,
+  getPendingSeriesRequestIds,
+  getReportIds,
+} from "@shared/leaveRequests";
+import { assertCanTransition, transitionLeaveRequest } from "@shared/leaveRequestStatus";
+import { submitLeaveRequests } from "@shared/leaveRequestSubmission";
+import { getAutoApprovalRules } from "@shared/autoApproval";
+import {
+  getApprovalSla,
+  getLastEscalations,
+  getRequestSla,
+  runEscalations,
+  saveApprovalSla,
+} from "@shared/escalations";
+import { sendEscalationNotifications } from "./slack";
+import { decideLeaveRequests } from "@shared/bulkDecisions";
+import { describeRecurrence, expandRecurrence, occurrencesOverlap } from "@shared/recurrence";
+import { canViewTeamLeave, findInvalidTeamReference, getTeamAndSubteamIds, getTeams } from "@shared/teams";
+import { describeCoverageBreaches, getCoverage } from "@shared/coverage";
+import { getApplicableBlackoutPeriods, getBlackoutPeriods } from "@shared/blackoutPeriods";
+import {
+  detectAttachmentType,
+  findMissingAttachment,
+  getAttachmentMaxBytes,
+  getLeaveRequestAttachments,
+} from "@shared/attachments";
+import { getAttachmentStorage } from "@shared/attachmentStorage";
+import {
+  canViewLeaveRequest,
+  findInvalidApprovers,
+  getApprovalChains,
+  getApprovalAuthority,
+  getApprovalSteps,
+  getCurrentApprovalStep,
+  getReviewableLeaveRequestsFilter,
+  recordApprovalDecision,
+  saveApprovalChain,
+  type ApprovalDecision,
+} from "@shared/approvals";
+import { parseIcsHolidays } from "@shared/ics";
+import { runAccruals, today } from "@shared/accruals";
+import {
+  applyStatutoryEntitlements,
+  closeLeaveYear,
+  expireCarriedOverLeave,
+  getEntitlementPreview,
+  getLeaveYear,
+  getLeaveYearContaining,
+  previewYearEndClose,
+} from "@shared/leaveYear";
 
 // Database connection
 const sql = neon(process.env.DATABASE_URL!);
@@ -29,7 +136,24 @@ function requireAdmin(req: any, res: any, next: any) {
   res.status(403).json({ message: "Admin access required" });
 }
 
+// Admins and managers; managers are further limited to their reports per request
+function requireApprover(req: any, res: any, next: any) {
+  if (req.user && (req.user.role === "admin" || req.user.role === "manager")) {
+    return next();
+  }
+  res.status(403).json({ message: "Manager or admin access required" });
+}
+
+function parseYear(value: string): number | null {
+  const year = Number(value);
+  return Number.isInteger(year) && year >= 1900 && year <= 9999 ? year : null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Requests and ledger entries reference leave types by key, so the defaults
+  // must exist before anything is recorded
+  await ensureDefaultLeaveTypes(database);
+
   // Session configuration
   app.use(
     session({
@@ -164,6 +288,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .returning();
 
+      await grantDefaultBalances(database, newUser.id);
+
       const { password, ...userWithoutPassword } = newUser;
       res.status(201).json({
         message: "User created successfully",
@@ -182,9 +308,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User routes
-  app.get("/api/users/me", requireAuth, (req: any, res) => {
-    const { password, ...userWithoutPassword } = req.user;
-    res.json(userWithoutPassword);
+  app.get("/api/users/me", requireAuth, async (req: any, res) => {
+    try {
+      const { password, ...userWithoutPassword } = req.user;
+      const leaveBalances = await getLeaveBalances(database, req.user.id);
+      res.json({ ...userWithoutPassword, leaveBalances });
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
   });
 
   app.get("/api/users", requireAuth, requireAdmin, async (req, res) => {
@@ -195,229 +327,2161 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name: users.name,
           email: users.email,
           role: users.role,
-          leaveBalance: users.leaveBalance,
+          managerId: users.managerId,
+          teamId: users.teamId,
+          holidayCalendar: users.holidayCalendar,
+          hireDate: users.hireDate,
+          terminationDate: users.terminationDate,
+          entitlementOverride: users.entitlementOverride,
           createdAt: users.createdAt,
         })
         .from(users);
 
-      res.json(allUsers);
+      const balances = await getAllLeaveBalances(database);
+      res.json(allUsers.map((user) => ({
+        ...user,
+        leaveBalances: balances.get(user.id) ?? {},
+        entitlement: getEntitlementPreview(user),
+      })));
     } catch (error) {
       console.error("Error fetching users:", error);
       res.status(500).json({ message: "Failed to fetch users" });
     }
   });
 
-  // Leave request routes
-  app.get("/api/leave-requests", requireAuth, async (req: any, res) => {
+  // The signed-in manager's direct and indirect reports, with balances
+  app.get("/api/users/team", requireAuth, requireApprover, async (req: any, res) => {
     try {
-      const { all } = req.query;
-      const isAdmin = req.user.role === "admin";
-      
-      let query = database
+      const reportIds = await getReportIds(database, req.user.id);
+
+      const team = await database
         .select({
-          id: leaveRequests.id,
-          startDate: leaveRequests.startDate,
-          endDate: leaveRequests.endDate,
-          leaveType: leaveRequests.leaveType,
-          reason: leaveRequests.reason,
-          status: leaveRequests.status,
-          createdAt: leaveRequests.createdAt,
-          user: {
-            id: users.id,
-            name: users.name,
-            email: users.email,
-          },
+          id: users.id,
+          name: users.name,
+          email: users.email,
+          role: users.role,
+          managerId: users.managerId,
+          teamId: users.teamId,
+          hireDate: users.hireDate,
+          terminationDate: users.terminationDate,
+          entitlementOverride: users.entitlementOverride,
         })
-        .from(leaveRequests)
-        .innerJoin(users, eq(leaveRequests.userId, users.id))
-        .orderBy(desc(leaveRequests.createdAt));
+        .from(users)
+        .where(inArray(users.id, reportIds));
+
+      const balances = await getAllLeaveBalances(database);
+      res.json(team.map((user) => ({
+        ...user,
+        leaveBalances: balances.get(user.id) ?? {},
+        entitlement: getEntitlementPreview(user),
+      })));
+    } catch (error) {
+      console.error("Error fetching team:", error);
+      res.status(500).json({ message: "Failed to fetch team" });
+    }
+  });
+
+  // Managers and admins, for picking approvers and delegates
+  app.get("/api/users/approvers", requireAuth, requireApprover, async (req, res) => {
+    try {
+      const approvers = await database
+        .select({ id: users.id, name: users.name, role: users.role })
+        .from(users)
+        .where(ne(users.role, "employee"))
+        .orderBy(users.name);
+
+      res.json(approvers);
+    } catch (error) {
+      console.error("Error fetching approvers:", error);
+      res.status(500).json({ message: "Failed to fetch approvers" });
+    }
+  });
+
+  app.get("/api/users/:id/leave-statement", requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.params.id === "me" ? req.user.id : req.params.id;
 
-      // If not admin or not requesting all, filter by user
-      if (!isAdmin || all !== "true") {
-        query = query.where(eq(leaveRequests.userId, req.user.id));
+      if (userId !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      const requests = await query;
-      res.json(requests);
+      const entries = await getLeaveStatement(database, userId);
+      const leaveBalances = await getLeaveBalances(database, userId);
+
+      res.json({ userId, leaveBalances, entries });
     } catch (error) {
-      console.error("Error fetching leave requests:", error);
-      res.status(500).json({ message: "Failed to fetch leave requests" });
+      console.error("Error fetching leave statement:", error);
+      res.status(500).json({ message: "Failed to fetch leave statement" });
     }
   });
 
-  app.post("/api/leave-requests", requireAuth, async (req: any, res) => {
+  app.patch("/api/users/:id/leave-balance", requireAuth, requireAdmin, async (req: any, res) => {
     try {
-      const validatedData = insertLeaveRequestSchema.parse({
-        ...req.body,
-        userId: req.user.id,
+      const { id } = req.params;
+      const { leaveType, amount, reason } = req.body;
+
+      if (typeof leaveType !== "string" || !(await getActiveLeaveType(database, leaveType))) {
+        return res.status(400).json({ message: "Invalid leave type" });
+      }
+      if (typeof amount !== "number" || amount === 0 || !Number.isFinite(amount)) {
+        return res.status(400).json({ message: "Adjustment amount must be a non-zero number" });
+      }
+      if (typeof reason !== "string" || reason.trim() === "") {
+        return res.status(400).json({ message: "A reason is required for manual adjustments" });
+      }
+
+      const [user] = await database
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, id))
+        .limit(1);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordLeaveTransaction(database, {
+        userId: id,
+        leaveType,
+        kind: "adjustment",
+        amount,
+        reason: reason.trim(),
+        createdById: req.user.id,
       });
+      const leaveBalances = await getLeaveBalances(database, id);
 
-      // Calculate number of days
-      const startDate = new Date(validatedData.startDate);
-      const endDate = new Date(validatedData.endDate);
-      const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+      res.json({ id, leaveBalances });
+    } catch (error) {
+      console.error("Error updating leave balance:", error);
+      res.status(500).json({ message: "Failed to update leave balance" });
+    }
+  });
 
-      // Check if user has enough leave balance
-      if (req.user.leaveBalance < days) {
-        return res.status(400).json({ 
-          message: "Insufficient leave balance",
-          required: days,
-          available: req.user.leaveBalance,
+  app.patch("/api/users/:id/holiday-calendar", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { holidayCalendar } = req.body;
+
+      if (typeof holidayCalendar !== "string" || holidayCalendar.trim() === "") {
+        return res.status(400).json({ message: "Invalid holiday calendar" });
+      }
+
+      const [updatedUser] = await database
+        .update(users)
+        .set({ holidayCalendar: holidayCalendar.trim() })
+        .where(eq(users.id, id))
+        .returning({
+          id: users.id,
+          name: users.name,
+          email: users.email,
+          role: users.role,
+          holidayCalendar: users.holidayCalendar,
         });
+
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Create the leave request and update user balance
-      const [newRequest] = await database
-        .insert(leaveRequests)
-        .values(validatedData)
-        .returning();
+      res.json(updatedUser);
+    } catch (error) {
+      console.error("Error updating holiday calendar:", error);
+      res.status(500).json({ message: "Failed to update holiday calendar" });
+    }
+  });
+
+  app.patch("/api/users/:id/employment", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { hireDate, terminationDate } = updateEmploymentSchema.parse(req.body);
+
+      if (hireDate && terminationDate && terminationDate < hireDate) {
+        return res.status(400).json({ message: "Termination date must be on or after the hire date" });
+      }
 
-      // Update user's leave balance
-      await database
+      const [updatedUser] = await database
         .update(users)
-        .set({ 
-          leaveBalance: req.user.leaveBalance - days 
-        })
-        .where(eq(users.id, req.user.id));
+        .set({ hireDate: hireDate ?? null, terminationDate: terminationDate ?? null })
+        .where(eq(users.id, id))
+        .returning({
+          id: users.id,
+          name: users.name,
+          hireDate: users.hireDate,
+          terminationDate: users.terminationDate,
+        });
 
-      res.status(201).json({
-        message: "Leave request submitted successfully",
-        request: newRequest
-      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(updatedUser);
     } catch (error: any) {
-      console.error("Error creating leave request:", error);
+      console.error("Error updating employment dates:", error);
       if (error.name === "ZodError") {
         return res.status(400).json({ 
           message: "Validation error",
           errors: error.errors 
         });
       }
-      res.status(500).json({ message: "Failed to create leave request" });
+      res.status(500).json({ message: "Failed to update employment dates" });
     }
   });
 
-  app.post("/api/leave-requests/:id/approve", requireAuth, requireAdmin, async (req, res) => {
+  app.patch("/api/users/:id/entitlement-override", requireAuth, requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
+      const { entitlementOverride } = req.body;
 
-      const [updatedRequest] = await database
-        .update(leaveRequests)
-        .set({ status: "approved" })
-        .where(eq(leaveRequests.id, id))
-        .returning();
+      if (entitlementOverride !== null && (typeof entitlementOverride !== "number" || !Number.isFinite(entitlementOverride) || entitlementOverride < 0)) {
+        return res.status(400).json({ message: "Entitlement override must be a non-negative number or null" });
+      }
 
-      if (!updatedRequest) {
-        return res.status(404).json({ message: "Leave request not found" });
+      const [updatedUser] = await database
+        .update(users)
+        .set({ entitlementOverride })
+        .where(eq(users.id, id))
+        .returning({
+          id: users.id,
+          hireDate: users.hireDate,
+          terminationDate: users.terminationDate,
+          entitlementOverride: users.entitlementOverride,
+        });
+
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      res.json({
-        message: "Leave request approved successfully",
-        request: updatedRequest
-      });
+      res.json({ ...updatedUser, entitlement: getEntitlementPreview(updatedUser) });
     } catch (error) {
-      console.error("Error approving leave request:", error);
-      res.status(500).json({ message: "Failed to approve leave request" });
+      console.error("Error updating entitlement override:", error);
+      res.status(500).json({ message: "Failed to update entitlement override" });
     }
   });
 
-  app.post("/api/leave-requests/:id/reject", requireAuth, requireAdmin, async (req, res) => {
+  app.patch("/api/users/:id/team", requireAuth, requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
+      const { teamId } = updateTeamMembershipSchema.parse(req.body);
 
-      // Get the request details first
-      const [request] = await database
-        .select()
-        .from(leaveRequests)
-        .where(eq(leaveRequests.id, id))
-        .limit(1);
+      if (teamId) {
+        const [team] = await database
+          .select({ id: teams.id })
+          .from(teams)
+          .where(eq(teams.id, teamId))
+          .limit(1);
 
-      if (!request) {
-        return res.status(404).json({ message: "Leave request not found" });
+        if (!team) {
+          return res.status(400).json({ message: "Team not found" });
+        }
       }
 
-      // Calculate days to restore to user balance
-      const startDate = new Date(request.startDate);
-      const endDate = new Date(request.endDate);
-      const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-
-      // Update request status to rejected
-      const [updatedRequest] = await database
-        .update(leaveRequests)
-        .set({ status: "rejected" })
-        .where(eq(leaveRequests.id, id))
-        .returning();
-
-      // Restore user's leave balance
-      const [user] = await database
-        .select()
-        .from(users)
-        .where(eq(users.id, request.userId))
-        .limit(1);
+      const [updatedUser] = await database
+        .update(users)
+        .set({ teamId })
+        .where(eq(users.id, id))
+        .returning({
+          id: users.id,
+          name: users.name,
+          teamId: users.teamId,
+        });
 
-      if (user) {
-        await database
-          .update(users)
-          .set({ 
-            leaveBalance: user.leaveBalance + days 
-          })
-          .where(eq(users.id, request.userId));
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      res.json({
-        message: "Leave request rejected successfully",
-        request: updatedRequest
-      });
-    } catch (error) {
-      console.error("Error rejecting leave request:", error);
-      res.status(500).json({ message: "Failed to reject leave request" });
+      res.json(updatedUser);
+    } catch (error: any) {
+      console.error("Error updating user team:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update user team" });
     }
   });
 
-  app.delete("/api/leave-requests/:id", requireAuth, async (req: any, res) => {
+  app.patch("/api/users/:id/manager", requireAuth, requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
+      const { managerId } = updateManagerSchema.parse(req.body);
 
-      // Get the request details first
-      const [request] = await database
-        .select()
-        .from(leaveRequests)
-        .where(and(
-          eq(leaveRequests.id, id),
-          eq(leaveRequests.userId, req.user.id)
-        ))
-        .limit(1);
+      if (managerId) {
+        if (managerId === id) {
+          return res.status(400).json({ message: "A user cannot manage themselves" });
+        }
 
-      if (!request) {
-        return res.status(404).json({ message: "Leave request not found" });
+        const [manager] = await database
+          .select({ id: users.id })
+          .from(users)
+          .where(eq(users.id, managerId))
+          .limit(1);
+
+        if (!manager) {
+          return res.status(400).json({ message: "Manager not found" });
+        }
+
+        // Reporting lines must not loop back to the user
+        if ((await getReportIds(database, id)).includes(managerId)) {
+          return res.status(400).json({ message: "The manager already reports to this user" });
+        }
+      }
+
+      const [updatedUser] = await database
+        .update(users)
+        .set({ managerId })
+        .where(eq(users.id, id))
+        .returning({
+          id: users.id,
+          name: users.name,
+          managerId: users.managerId,
+        });
+
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(updatedUser);
+    } catch (error: any) {
+      console.error("Error updating manager:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
       }
+      res.status(500).json({ message: "Failed to update manager" });
+    }
+  });
 
-      // Calculate days to restore to user balance
-      const startDate = new Date(request.startDate);
-      const endDate = new Date(request.endDate);
-      const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  app.patch("/api/users/:id/role", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = updateRoleSchema.parse(req.body);
 
-      // Delete the request
-      await database
-        .delete(leaveRequests)
-        .where(eq(leaveRequests.id, id));
+      if (id === req.user.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
 
-      // Restore user's leave balance
-      await database
+      const [updatedUser] = await database
         .update(users)
-        .set({ 
-          leaveBalance: req.user.leaveBalance + days 
-        })
-        .where(eq(users.id, req.user.id));
+        .set({ role })
+        .where(eq(users.id, id))
+        .returning({
+          id: users.id,
+          name: users.name,
+          role: users.role,
+        });
 
-      res.json({
-        message: "Leave request deleted successfully"
-      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(updatedUser);
+    } catch (error: any) {
+      console.error("Error updating role:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  // Leave type routes
+  app.get("/api/leave-types", requireAuth, async (req: any, res) => {
+    try {
+      // Retired types are only listed for admins managing them
+      const includeInactive = req.query.all === "true" && req.user.role === "admin";
+      const types = await getLeaveTypes(database, { includeInactive });
+      res.json(types);
     } catch (error) {
-      console.error("Error deleting leave request:", error);
-      res.status(500).json({ message: "Failed to delete leave request" });
+      console.error("Error fetching leave types:", error);
+      res.status(500).json({ message: "Failed to fetch leave types" });
+    }
+  });
+
+  app.post("/api/leave-types", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertLeaveTypeSchema.parse(req.body);
+
+      const [leaveType] = await database
+        .insert(leaveTypes)
+        .values(validatedData)
+        .onConflictDoNothing()
+        .returning();
+
+      if (!leaveType) {
+        return res.status(409).json({ message: "A leave type with this key already exists" });
+      }
+
+      res.status(201).json(leaveType);
+    } catch (error: any) {
+      console.error("Error creating leave type:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create leave type" });
+    }
+  });
+
+  app.put("/api/leave-types/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateLeaveTypeSchema.parse(req.body);
+
+      const [leaveType] = await database
+        .update(leaveTypes)
+        .set(validatedData)
+        .where(eq(leaveTypes.id, id))
+        .returning();
+
+      if (!leaveType) {
+        return res.status(404).json({ message: "Leave type not found" });
+      }
+
+      res.json(leaveType);
+    } catch (error: any) {
+      console.error("Error updating leave type:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update leave type" });
     }
   });
 
+  app.delete("/api/leave-types/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [leaveType] = await database
+        .delete(leaveTypes)
+        .where(eq(leaveTypes.id, id))
+        .returning();
+
+      if (!leaveType) {
+        return res.status(404).json({ message: "Leave type not found" });
+      }
+
+      res.json({ message: "Leave type deleted successfully" });
+    } catch (error: any) {
+      // Foreign key violation: requests, ledger entries or policies still use it
+      if (error.code === "23503") {
+        return res.status(409).json({ message: "Leave type is in use; deactivate it instead" });
+      }
+      console.error("Error deleting leave type:", error);
+      res.status(500).json({ message: "Failed to delete leave type" });
+    }
+  });
+
+  // Approval chain routes
+  app.get("/api/approval-chains", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const chains = await getApprovalChains(database);
+      res.json(chains);
+    } catch (error) {
+      console.error("Error fetching approval chains:", error);
+      res.status(500).json({ message: "Failed to fetch approval chains" });
+    }
+  });
+
+  app.post("/api/approval-chains", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertApprovalChainSchema.parse(req.body);
+
+      if ((await findInvalidApprovers(database, validatedData.steps)).length > 0) {
+        return res.status(400).json({ message: "Named approvers must be managers or admins" });
+      }
+
+      const chain = await saveApprovalChain(database, validatedData);
+      res.status(201).json(chain);
+    } catch (error: any) {
+      console.error("Error creating approval chain:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create approval chain" });
+    }
+  });
+
+  app.put("/api/approval-chains/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertApprovalChainSchema.parse(req.body);
+
+      if ((await findInvalidApprovers(database, validatedData.steps)).length > 0) {
+        return res.status(400).json({ message: "Named approvers must be managers or admins" });
+      }
+
+      const chain = await saveApprovalChain(database, validatedData, id);
+      if (!chain) {
+        return res.status(404).json({ message: "Approval chain not found" });
+      }
+
+      res.json(chain);
+    } catch (error: any) {
+      console.error("Error updating approval chain:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update approval chain" });
+    }
+  });
+
+  app.delete("/api/approval-chains/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [chain] = await database
+        .delete(approvalChains)
+        .where(eq(approvalChains.id, id))
+        .returning();
+
+      if (!chain) {
+        return res.status(404).json({ message: "Approval chain not found" });
+      }
+
+      res.json({ message: "Approval chain deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting approval chain:", error);
+      res.status(500).json({ message: "Failed to delete approval chain" });
+    }
+  });
+
+  // Approval SLA routes
+  app.get("/api/approval-sla", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const sla = await getApprovalSla(database);
+      res.json(sla);
+    } catch (error) {
+      console.error("Error fetching approval SLA:", error);
+      res.status(500).json({ message: "Failed to fetch approval SLA" });
+    }
+  });
+
+  app.put("/api/approval-sla", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = approvalSlaSchema.parse(req.body);
+      const sla = await saveApprovalSla(database, validatedData, req.user.id);
+      res.json(sla);
+    } catch (error: any) {
+      console.error("Error saving approval SLA:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to save approval SLA" });
+    }
+  });
+
+  app.post("/api/approval-sla/run", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const result = await runEscalations(database);
+
+      try {
+        await sendEscalationNotifications(result);
+      } catch (slackError) {
+        console.error("Failed to send Slack notification:", slackError);
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error running escalations:", error);
+      res.status(500).json({ message: "Failed to run escalations" });
+    }
+  });
+
+  // Auto-approval rule routes
+  app.get("/api/auto-approval-rules", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const rules = await getAutoApprovalRules(database);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching auto-approval rules:", error);
+      res.status(500).json({ message: "Failed to fetch auto-approval rules" });
+    }
+  });
+
+  app.post("/api/auto-approval-rules", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertAutoApprovalRuleSchema.parse(req.body);
+
+      const [rule] = await database
+        .insert(autoApprovalRules)
+        .values(validatedData)
+        .returning();
+
+      res.status(201).json(rule);
+    } catch (error: any) {
+      console.error("Error creating auto-approval rule:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      // Foreign key violation: the leave type doesn't exist
+      if (error.code === "23503") {
+        return res.status(400).json({ message: "Unknown leave type" });
+      }
+      res.status(500).json({ message: "Failed to create auto-approval rule" });
+    }
+  });
+
+  app.put("/api/auto-approval-rules/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertAutoApprovalRuleSchema.parse(req.body);
+
+      const [rule] = await database
+        .update(autoApprovalRules)
+        .set(validatedData)
+        .where(eq(autoApprovalRules.id, id))
+        .returning();
+
+      if (!rule) {
+        return res.status(404).json({ message: "Auto-approval rule not found" });
+      }
+
+      res.json(rule);
+    } catch (error: any) {
+      console.error("Error updating auto-approval rule:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23503") {
+        return res.status(400).json({ message: "Unknown leave type" });
+      }
+      res.status(500).json({ message: "Failed to update auto-approval rule" });
+    }
+  });
+
+  app.delete("/api/auto-approval-rules/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [rule] = await database
+        .delete(autoApprovalRules)
+        .where(eq(autoApprovalRules.id, id))
+        .returning();
+
+      if (!rule) {
+        return res.status(404).json({ message: "Auto-approval rule not found" });
+      }
+
+      res.json({ message: "Auto-approval rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting auto-approval rule:", error);
+      res.status(500).json({ message: "Failed to delete auto-approval rule" });
+    }
+  });
+
+  // Team routes; everyone can list teams to filter the team calendar
+  app.get("/api/teams", requireAuth, async (req, res) => {
+    try {
+      const allTeams = await getTeams(database);
+      res.json(allTeams);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.post("/api/teams", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertTeamSchema.parse(req.body);
+
+      const invalid = await findInvalidTeamReference(database, null, validatedData);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const [team] = await database
+        .insert(teams)
+        .values(validatedData)
+        .onConflictDoNothing()
+        .returning();
+
+      if (!team) {
+        return res.status(409).json({ message: "A team with this name already exists" });
+      }
+
+      res.status(201).json(team);
+    } catch (error: any) {
+      console.error("Error creating team:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  });
+
+  app.put("/api/teams/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertTeamSchema.parse(req.body);
+
+      const invalid = await findInvalidTeamReference(database, id, validatedData);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const [team] = await database
+        .update(teams)
+        .set(validatedData)
+        .where(eq(teams.id, id))
+        .returning();
+
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      res.json(team);
+    } catch (error: any) {
+      console.error("Error updating team:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "A team with this name already exists" });
+      }
+      res.status(500).json({ message: "Failed to update team" });
+    }
+  });
+
+  // Members and sub-teams are left without a team rather than removed
+  app.delete("/api/teams/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [team] = await database
+        .delete(teams)
+        .where(eq(teams.id, id))
+        .returning();
+
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      res.json({ message: "Team deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting team:", error);
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+
+  // Blackout period routes; everyone can list them to see which dates are closed
+  app.get("/api/blackout-periods", requireAuth, async (req, res) => {
+    try {
+      const periods = await getBlackoutPeriods(database);
+      res.json(periods);
+    } catch (error) {
+      console.error("Error fetching blackout periods:", error);
+      res.status(500).json({ message: "Failed to fetch blackout periods" });
+    }
+  });
+
+  app.post("/api/blackout-periods", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertBlackoutPeriodSchema.parse(req.body);
+
+      const [period] = await database
+        .insert(blackoutPeriods)
+        .values(validatedData)
+        .returning();
+
+      res.status(201).json(period);
+    } catch (error: any) {
+      console.error("Error creating blackout period:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      // Foreign key violation: the team or leave type doesn't exist
+      if (error.code === "23503") {
+        return res.status(400).json({ message: "Unknown team or leave type" });
+      }
+      res.status(500).json({ message: "Failed to create blackout period" });
+    }
+  });
+
+  app.put("/api/blackout-periods/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertBlackoutPeriodSchema.parse(req.body);
+
+      const [period] = await database
+        .update(blackoutPeriods)
+        .set(validatedData)
+        .where(eq(blackoutPeriods.id, id))
+        .returning();
+
+      if (!period) {
+        return res.status(404).json({ message: "Blackout period not found" });
+      }
+
+      res.json(period);
+    } catch (error: any) {
+      console.error("Error updating blackout period:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23503") {
+        return res.status(400).json({ message: "Unknown team or leave type" });
+      }
+      res.status(500).json({ message: "Failed to update blackout period" });
+    }
+  });
+
+  app.delete("/api/blackout-periods/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [period] = await database
+        .delete(blackoutPeriods)
+        .where(eq(blackoutPeriods.id, id))
+        .returning();
+
+      if (!period) {
+        return res.status(404).json({ message: "Blackout period not found" });
+      }
+
+      res.json({ message: "Blackout period deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting blackout period:", error);
+      res.status(500).json({ message: "Failed to delete blackout period" });
+    }
+  });
+
+  // Approval delegation routes
+  app.get("/api/delegations", requireAuth, requireApprover, async (req: any, res) => {
+    try {
+      // Admins see every delegation with ?all=true
+      const everyone = req.query.all === "true" && req.user.role === "admin";
+      const delegations = await getDelegations(database, everyone ? null : req.user.id);
+      res.json(delegations);
+    } catch (error) {
+      console.error("Error fetching delegations:", error);
+      res.status(500).json({ message: "Failed to fetch delegations" });
+    }
+  });
+
+  app.post("/api/delegations", requireAuth, requireApprover, async (req: any, res) => {
+    try {
+      const validatedData = insertApprovalDelegationSchema.parse(req.body);
+
+      if (validatedData.delegateId === req.user.id) {
+        return res.status(400).json({ message: "You cannot delegate to yourself" });
+      }
+
+      const [delegate] = await database
+        .select({ role: users.role })
+        .from(users)
+        .where(eq(users.id, validatedData.delegateId))
+        .limit(1);
+
+      if (!delegate || delegate.role === "employee") {
+        return res.status(400).json({ message: "Delegates must be managers or admins" });
+      }
+
+      const [delegation] = await database
+        .insert(approvalDelegations)
+        .values({ ...validatedData, delegatorId: req.user.id })
+        .returning();
+
+      res.status(201).json(delegation);
+    } catch (error: any) {
+      console.error("Error creating delegation:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create delegation" });
+    }
+  });
+
+  app.delete("/api/delegations/:id", requireAuth, requireApprover, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      // Delegators withdraw their own delegations; admins may remove any
+      const [delegation] = await database
+        .delete(approvalDelegations)
+        .where(req.user.role === "admin"
+          ? eq(approvalDelegations.id, id)
+          : and(eq(approvalDelegations.id, id), eq(approvalDelegations.delegatorId, req.user.id)))
+        .returning();
+
+      if (!delegation) {
+        return res.status(404).json({ message: "Delegation not found" });
+      }
+
+      res.json({ message: "Delegation removed successfully" });
+    } catch (error) {
+      console.error("Error deleting delegation:", error);
+      res.status(500).json({ message: "Failed to delete delegation" });
+    }
+  });
+
+  // Holiday routes
+  app.get("/api/holidays", requireAuth, async (req: any, res) => {
+    try {
+      const calendar = typeof req.query.calendar === "string"
+        ? req.query.calendar
+        : req.user.holidayCalendar;
+
+      const calendarHolidays = await database
+        .select()
+        .from(holidays)
+        .where(eq(holidays.calendar, calendar))
+        .orderBy(holidays.date);
+
+      res.json(calendarHolidays);
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      res.status(500).json({ message: "Failed to fetch holidays" });
+    }
+  });
+
+  app.get("/api/holidays/calendars", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const calendars = await database
+        .selectDistinct({ calendar: holidays.calendar })
+        .from(holidays)
+        .orderBy(holidays.calendar);
+
+      res.json(calendars.map((row) => row.calendar));
+    } catch (error) {
+      console.error("Error fetching holiday calendars:", error);
+      res.status(500).json({ message: "Failed to fetch holiday calendars" });
+    }
+  });
+
+  app.post("/api/holidays", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertHolidaySchema.parse(req.body);
+
+      const [holiday] = await database
+        .insert(holidays)
+        .values(validatedData)
+        .onConflictDoNothing()
+        .returning();
+
+      if (!holiday) {
+        return res.status(409).json({ message: "A holiday already exists on this date" });
+      }
+
+      res.status(201).json(holiday);
+    } catch (error: any) {
+      console.error("Error creating holiday:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create holiday" });
+    }
+  });
+
+  app.post("/api/holidays/import", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { calendar, ics } = req.body;
+
+      if (typeof calendar !== "string" || calendar.trim() === "" || typeof ics !== "string") {
+        return res.status(400).json({ message: "Calendar and ICS content are required" });
+      }
+
+      const parsed = parseIcsHolidays(ics);
+      if (parsed.length === 0) {
+        return res.status(400).json({ message: "No holidays found in the ICS file" });
+      }
+
+      const imported = await database
+        .insert(holidays)
+        .values(parsed.map((holiday) => ({ ...holiday, calendar: calendar.trim() })))
+        .onConflictDoNothing()
+        .returning();
+
+      res.status(201).json({
+        message: "Holidays imported successfully",
+        imported: imported.length,
+        skipped: parsed.length - imported.length,
+      });
+    } catch (error) {
+      console.error("Error importing holidays:", error);
+      res.status(500).json({ message: "Failed to import holidays" });
+    }
+  });
+
+  app.put("/api/holidays/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertHolidaySchema.parse(req.body);
+
+      const [holiday] = await database
+        .update(holidays)
+        .set(validatedData)
+        .where(eq(holidays.id, id))
+        .returning();
+
+      if (!holiday) {
+        return res.status(404).json({ message: "Holiday not found" });
+      }
+
+      res.json(holiday);
+    } catch (error: any) {
+      console.error("Error updating holiday:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "A holiday already exists on this date" });
+      }
+      res.status(500).json({ message: "Failed to update holiday" });
+    }
+  });
+
+  app.delete("/api/holidays/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [holiday] = await database
+        .delete(holidays)
+        .where(eq(holidays.id, id))
+        .returning();
+
+      if (!holiday) {
+        return res.status(404).json({ message: "Holiday not found" });
+      }
+
+      res.json({ message: "Holiday deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting holiday:", error);
+      res.status(500).json({ message: "Failed to delete holiday" });
+    }
+  });
+
+  // Accrual policy routes
+  app.get("/api/accrual-policies", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const policies = await database
+        .select()
+        .from(accrualPolicies)
+        .orderBy(desc(accrualPolicies.createdAt));
+
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching accrual policies:", error);
+      res.status(500).json({ message: "Failed to fetch accrual policies" });
+    }
+  });
+
+  app.post("/api/accrual-policies", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertAccrualPolicySchema.parse(req.body);
+
+      const [policy] = await database
+        .insert(accrualPolicies)
+        .values(validatedData)
+        .returning();
+
+      res.status(201).json(policy);
+    } catch (error: any) {
+      console.error("Error creating accrual policy:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      // Foreign key violation: the leave type doesn't exist
+      if (error.code === "23503") {
+        return res.status(400).json({ message: "Unknown leave type" });
+      }
+      res.status(500).json({ message: "Failed to create accrual policy" });
+    }
+  });
+
+  app.post("/api/accrual-policies/run", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { asOf } = req.body;
+
+      if (asOf !== undefined && (typeof asOf !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(asOf))) {
+        return res.status(400).json({ message: "asOf must be in YYYY-MM-DD format" });
+      }
+
+      const result = await runAccruals(database, asOf);
+      res.json(result);
+    } catch (error) {
+      console.error("Error running accruals:", error);
+      res.status(500).json({ message: "Failed to run accruals" });
+    }
+  });
+
+  app.put("/api/accrual-policies/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertAccrualPolicySchema.parse(req.body);
+
+      const [policy] = await database
+        .update(accrualPolicies)
+        .set(validatedData)
+        .where(eq(accrualPolicies.id, id))
+        .returning();
+
+      if (!policy) {
+        return res.status(404).json({ message: "Accrual policy not found" });
+      }
+
+      res.json(policy);
+    } catch (error: any) {
+      console.error("Error updating accrual policy:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23503") {
+        return res.status(400).json({ message: "Unknown leave type" });
+      }
+      res.status(500).json({ message: "Failed to update accrual policy" });
+    }
+  });
+
+  app.delete("/api/accrual-policies/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [policy] = await database
+        .delete(accrualPolicies)
+        .where(eq(accrualPolicies.id, id))
+        .returning();
+
+      if (!policy) {
+        return res.status(404).json({ message: "Accrual policy not found" });
+      }
+
+      res.json({ message: "Accrual policy deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting accrual policy:", error);
+      res.status(500).json({ message: "Failed to delete accrual policy" });
+    }
+  });
+
+  // Carry-over rule routes
+  app.get("/api/carry-over-rules", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const rules = await database
+        .select()
+        .from(carryOverRules)
+        .orderBy(carryOverRules.leaveType);
+
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching carry-over rules:", error);
+      res.status(500).json({ message: "Failed to fetch carry-over rules" });
+    }
+  });
+
+  app.put("/api/carry-over-rules/:leaveType", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { leaveType } = req.params;
+      const validatedData = insertCarryOverRuleSchema.parse({ ...req.body, leaveType });
+
+      const [rule] = await database
+        .insert(carryOverRules)
+        .values(validatedData)
+        .onConflictDoUpdate({
+          target: carryOverRules.leaveType,
+          set: { maxDays: validatedData.maxDays, expiryMonths: validatedData.expiryMonths ?? null },
+        })
+        .returning();
+
+      res.json(rule);
+    } catch (error: any) {
+      console.error("Error saving carry-over rule:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      // Foreign key violation: the leave type doesn't exist
+      if (error.code === "23503") {
+        return res.status(400).json({ message: "Unknown leave type" });
+      }
+      res.status(500).json({ message: "Failed to save carry-over rule" });
+    }
+  });
+
+  app.delete("/api/carry-over-rules/:leaveType", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { leaveType } = req.params;
+
+      const [rule] = await database
+        .delete(carryOverRules)
+        .where(eq(carryOverRules.leaveType, leaveType))
+        .returning();
+
+      if (!rule) {
+        return res.status(404).json({ message: "Carry-over rule not found" });
+      }
+
+      res.json({ message: "Carry-over rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting carry-over rule:", error);
+      res.status(500).json({ message: "Failed to delete carry-over rule" });
+    }
+  });
+
+  // Leave year routes
+  app.get("/api/leave-years/current", requireAuth, async (req, res) => {
+    try {
+      res.json(getLeaveYearContaining(today()));
+    } catch (error) {
+      console.error("Error fetching leave year:", error);
+      res.status(500).json({ message: "Failed to fetch leave year" });
+    }
+  });
+
+  app.get("/api/leave-years/:year/close-preview", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const year = parseYear(req.params.year);
+      if (year === null) {
+        return res.status(400).json({ message: "Invalid leave year" });
+      }
+
+      const preview = await previewYearEndClose(database, year);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing year-end close:", error);
+      res.status(500).json({ message: "Failed to preview year-end close" });
+    }
+  });
+
+  app.post("/api/leave-years/:year/close", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const year = parseYear(req.params.year);
+      if (year === null) {
+        return res.status(400).json({ message: "Invalid leave year" });
+      }
+
+      const leaveYear = getLeaveYear(year);
+      if (today() < leaveYear.nextStart) {
+        return res.status(400).json({ message: `Leave year ${year} does not end until ${leaveYear.end}` });
+      }
+
+      const result = await closeLeaveYear(database, year, req.user.id);
+      res.json(result);
+    } catch (error) {
+      console.error("Error closing leave year:", error);
+      res.status(500).json({ message: "Failed to close leave year" });
+    }
+  });
+
+  app.post("/api/leave-years/expire-carry-over", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { asOf } = req.body;
+
+      if (asOf !== undefined && (typeof asOf !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(asOf))) {
+        return res.status(400).json({ message: "asOf must be in YYYY-MM-DD format" });
+      }
+
+      const result = await expireCarriedOverLeave(database, asOf);
+      res.json(result);
+    } catch (error) {
+      console.error("Error expiring carried-over leave:", error);
+      res.status(500).json({ message: "Failed to expire carried-over leave" });
+    }
+  });
+
+  app.post("/api/leave-years/apply-entitlements", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { asOf } = req.body;
+
+      if (asOf !== undefined && (typeof asOf !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(asOf))) {
+        return res.status(400).json({ message: "asOf must be in YYYY-MM-DD format" });
+      }
+
+      const result = await applyStatutoryEntitlements(database, asOf);
+      res.json(result);
+    } catch (error) {
+      console.error("Error applying statutory entitlements:", error);
+      res.status(500).json({ message: "Failed to apply statutory entitlements" });
+    }
+  });
+
+  // Leave request routes
+  app.get("/api/leave-requests", requireAuth, async (req: any, res) => {
+    try {
+      const { all } = req.query;
+      const isAdmin = req.user.role === "admin";
+      
+      let query = database
+        .select({
+          id: leaveRequests.id,
+          startDate: leaveRequests.startDate,
+          endDate: leaveRequests.endDate,
+          startPortion: leaveRequests.startPortion,
+          endPortion: leaveRequests.endPortion,
+          hours: leaveRequests.hours,
+          leaveType: leaveRequests.leaveType,
+          reason: leaveRequests.reason,
+          status: leaveRequests.status,
+          autoApprovalRuleName: leaveRequests.autoApprovalRuleName,
+          createdById: leaveRequests.createdById,
+          seriesId: leaveRequests.seriesId,
+          createdAt: leaveRequests.createdAt,
+          user: {
+            id: users.id,
+            name: users.name,
+            email: users.email,
+          },
+        })
+        .from(leaveRequests)
+        .innerJoin(users, eq(leaveRequests.userId, users.id))
+        .orderBy(desc(leaveRequests.createdAt));
+
+      // ?team= narrows the list to a team and the teams nested below it
+      const team = typeof req.query.team === "string" ? req.query.team : undefined;
+      const teamFilter = team
+        ? inArray(users.teamId, await getTeamAndSubteamIds(database, team))
+        : undefined;
+
+      // Admins see everyone with ?all=true, and managers what they may review,
+      // including for approvers they stand in for. Anyone may see the approved
+      // leave of their own team, without its reasons; otherwise only their own.
+      let visibility: SQL | undefined;
+      let teamCalendar = false;
+      if (all === "true" && isAdmin) {
+        visibility = teamFilter;
+      } else if (all === "true" && req.user.role === "manager") {
+        visibility = and(await getReviewableLeaveRequestsFilter(database, req.user), teamFilter);
+      } else if (team) {
+        if (!(await canViewTeamLeave(database, req.user, team))) {
+          return res.status(403).json({ message: "You can only view your own team's leave" });
+        }
+        visibility = and(teamFilter, inArray(leaveRequests.status, ["approved", "cancellation_requested"]));
+        teamCalendar = true;
+      } else {
+        visibility = eq(leaveRequests.userId, req.user.id);
+      }
+
+      if (visibility) {
+        query = query.where(visibility);
+      }
+
+      const requests = await query;
+      const approvals = await getApprovalSteps(database, requests.map((request) => request.id));
+
+      // Approvers see how each pending request would leave its teams staffed
+      const pending = all === "true" ? requests.filter((request) => request.status === "pending") : [];
+      const coverage = await getCoverage(database, pending.map((request) => ({ ...request, userId: request.user.id })));
+      const coverageById = new Map(pending.map((request, index) => [request.id, coverage[index]]));
+
+      const waiting = requests.filter((request) => request.status === "pending").map((request) => request.id);
+      const lastEscalations = await getLastEscalations(database, waiting);
+      const sla = await getApprovalSla(database);
+      const now = new Date();
+      res.json(requests.map((request) => ({
+        ...request,
+        reason: teamCalendar && request.user.id !== req.user.id ? "" : request.reason,
+        approvals: approvals.get(request.id) ?? [],
+        coverage: coverageById.get(request.id) ?? null,
+        // How long a pending request has waited on its current approver
+        sla: request.status === "pending" ? getRequestSla(request.createdAt, approvals.get(request.id) ?? [], lastEscalations.get(request.id), sla, now) : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching leave requests:", error);
+      res.status(500).json({ message: "Failed to fetch leave requests" });
+    }
+  });
+
+  app.get("/api/leave-requests/preview", requireAuth, async (req: any, res) => {
+    try {
+      const span = leaveSpanSchema.parse({
+        ...req.query,
+        hours: req.query.hours ? Number(req.query.hours) : undefined,
+      });
+
+      // Admins and managers preview leave for an employee against their calendar
+      let holidayCalendar = req.user.holidayCalendar;
+      if (typeof req.query.userId === "string" && req.query.userId !== req.user.id) {
+        if (!(await canReviewLeaveRequest(database, req.user, req.query.userId))) {
+          return res.status(403).json({ message: "You can only file leave for your team" });
+        }
+        const [employee] = await database
+          .select({ holidayCalendar: users.holidayCalendar })
+          .from(users)
+          .where(eq(users.id, req.query.userId))
+          .limit(1);
+        if (!employee) {
+          return res.status(404).json({ message: "Employee not found" });
+        }
+        holidayCalendar = employee.holidayCalendar;
+      }
+
+      const days = await calculateLeaveDays(database, span, holidayCalendar);
+      res.json({ ...span, days });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      console.error("Error previewing leave request:", error);
+      res.status(500).json({ message: "Failed to calculate leave days" });
+    }
+  });
+
+  app.post("/api/leave-requests", requireAuth, async (req: any, res) => {
+    try {
+      const { userId: employeeId = req.user.id, skipApproval } = onBehalfLeaveRequestSchema.parse(req.body ?? {});
+      const onBehalf = employeeId !== req.user.id;
+
+      if (skipApproval && !onBehalf) {
+        return res.status(403).json({ message: "Only leave filed for an employee can skip approval" });
+      }
+
+      let employee = req.user;
+      if (onBehalf) {
+        if (!(await canReviewLeaveRequest(database, req.user, employeeId))) {
+          return res.status(403).json({ message: "You can only file leave for your team" });
+        }
+        [employee] = await database
+          .select()
+          .from(users)
+          .where(eq(users.id, employeeId))
+          .limit(1);
+        if (!employee) {
+          return res.status(404).json({ message: "Employee not found" });
+        }
+      }
+
+      const validatedData = insertLeaveRequestSchema.parse({
+        ...req.body,
+        userId: employee.id,
+      });
+      const { recurrence } = recurringLeaveRequestSchema.parse(req.body ?? {});
+
+      const leaveType = await getActiveLeaveType(database, validatedData.leaveType);
+      if (!leaveType) {
+        return res.status(400).json({ message: "Unknown leave type" });
+      }
+
+      // A recurring request becomes one request per occurrence; occurrences
+      // without working days, e.g. on a holiday, are left out of the series
+      const spans = recurrence ? expandRecurrence(validatedData, recurrence) : [validatedData];
+      if (occurrencesOverlap(spans)) {
+        return res.status(400).json({ message: "Each occurrence must end before the next one starts" });
+      }
+
+      // The leave type's notice, longest request and blackouts apply to every
+      // occurrence. Leave recorded without review is exempt, as it may already be taken.
+      if (!skipApproval) {
+        const policySchema = leaveRequestPolicySchema({
+          leaveType,
+          blackouts: await getApplicableBlackoutPeriods(database, employee.id, leaveType.key),
+          today: today(),
+        });
+        for (const span of spans) {
+          policySchema.parse(span);
+        }
+      }
+
+      const occurrences: { span: typeof validatedData; days: number }[] = [];
+      for (const span of spans) {
+        const days = await calculateLeaveDays(database, span, employee.holidayCalendar);
+        if (days > 0) {
+          occurrences.push({ span, days });
+        }
+      }
+
+      if (occurrences.length === 0) {
+        return res.status(400).json({ message: "Leave request does not include any working days" });
+      }
+
+      // The whole series is checked against the balance at once
+      const days = occurrences.reduce((total, occurrence) => total + occurrence.days, 0);
+
+      // Reject dates already covered by the user's pending or approved requests
+      const conflicts = [];
+      for (const { span } of occurrences) {
+        conflicts.push(...(await findConflictingLeaveRequests(database, employee.id, span)));
+      }
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          message: onBehalf
+            ? `Leave request overlaps ${employee.name}'s existing requests`
+            : "Leave request overlaps your existing requests",
+          conflicts,
+        });
+      }
+
+      // Staffing on the employee's teams with this leave taken. Leave recorded
+      // without review is never refused for it, as it may already be taken.
+      const coverage = await getCoverage(database, occurrences.map(({ span }) => span));
+      const blocking = coverage.find((report) => report.blocking);
+      if (blocking && !skipApproval) {
+        return res.status(409).json({
+          message: `Not enough of the team would be present: ${describeCoverageBreaches(blocking.days)}`,
+          coverage: blocking.days,
+        });
+      }
+      const coverageWarnings = coverage.flatMap((report) => report.days.filter((day) => day.breached));
+
+      // Check if user has enough balance for this leave type
+      const balances = await getLeaveBalances(database, employee.id);
+      const available = balances[leaveType.key] ?? 0;
+      if (leaveType.deductsBalance && available < days) {
+        return res.status(400).json({ 
+          message: `Insufficient ${leaveType.name.toLowerCase()} balance`,
+          leaveType: leaveType.key,
+          required: days,
+          available,
+        });
+      }
+
+      const { series, requests: created } = await submitLeaveRequests(database, {
+        employee,
+        actor: req.user,
+        leaveType,
+        occurrences: occurrences.map((occurrence, index) => ({
+          ...occurrence,
+          leavesTeamShort: coverage[index].breached,
+        })),
+        recurrence,
+        skipApproval,
+      });
+
+      const [request] = created;
+      let message = "Leave request submitted successfully";
+      if (skipApproval) {
+        message = `Leave recorded for ${employee.name}`;
+      } else if (series) {
+        message = `Recurring leave submitted: ${created.length} occurrences, ${describeRecurrence(series)}`;
+      } else if (request.autoApprovalRuleName) {
+        message = `Leave request approved automatically (${request.autoApprovalRuleName})`;
+      }
+
+      res.status(201).json({
+        message,
+        request,
+        ...(series ? { series, requests: created } : {}),
+        ...(coverageWarnings.length > 0
+          ? { coverageWarning: describeCoverageBreaches(coverageWarnings), coverage: coverageWarnings }
+          : {})
+      });
+    } catch (error: any) {
+      console.error("Error creating leave request:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create leave request" });
+    }
+  });
+
+  // Decide many requests at once with one shared comment, reporting each outcome;
+  // the decidable ones are written together or not at all
+  const decideInBulk = (decision: ApprovalDecision) => async (req: any, res: Response) => {
+    try {
+      let ids: string[];
+      let comment: string | undefined;
+      if (decision === "approved") {
+        ({ ids, comment } = bulkApproveLeaveRequestsSchema.parse(req.body));
+      } else {
+        ({ ids, reason: comment } = bulkRejectLeaveRequestsSchema.parse(req.body));
+      }
+
+      const results = await decideLeaveRequests(database, req.user, ids, decision, comment);
+      const decided = results.filter((result) => result.outcome === decision || result.outcome === "step_approved");
+
+      res.json({
+        message: `${decided.length} of ${results.length} requests ${decision}`,
+        results
+      });
+    } catch (error: any) {
+      console.error("Error deciding leave requests:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      if (error.name === "IllegalTransitionError") {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to decide leave requests" });
+    }
+  };
+
+  app.post("/api/leave-requests/bulk/approve", requireAuth, requireApprover, decideInBulk("approved"));
+  app.post("/api/leave-requests/bulk/reject", requireAuth, requireApprover, decideInBulk("rejected"));
+
+  // Decide every pending occurrence of a recurring request; single occurrences
+  // go through the usual approve and reject routes
+  const decideSeries = (decision: ApprovalDecision) => async (req: any, res: Response) => {
+    try {
+      const { seriesId } = req.params;
+      const comment = decision === "approved"
+        ? approveLeaveRequestSchema.parse(req.body ?? {}).comment
+        : rejectLeaveRequestSchema.parse(req.body ?? {}).reason;
+
+      const ids = await getPendingSeriesRequestIds(database, seriesId);
+      if (ids.length === 0) {
+        return res.status(404).json({ message: "No pending occurrences in this series" });
+      }
+
+      const results = await decideLeaveRequests(database, req.user, ids, decision, comment);
+      const decided = results.filter((result) => result.outcome === decision || result.outcome === "step_approved");
+
+      res.json({
+        message: `${decided.length} of ${results.length} occurrences ${decision}`,
+        results
+      });
+    } catch (error: any) {
+      console.error("Error deciding leave request series:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      if (error.name === "IllegalTransitionError") {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to decide leave request series" });
+    }
+  };
+
+  app.post("/api/leave-requests/series/:seriesId/approve", requireAuth, requireApprover, decideSeries("approved"));
+  app.post("/api/leave-requests/series/:seriesId/reject", requireAuth, requireApprover, decideSeries("rejected"));
+
+  app.post("/api/leave-requests/:id/approve", requireAuth, requireApprover, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { comment } = approveLeaveRequestSchema.parse(req.body ?? {});
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      assertCanTransition(request.status, "approve");
+
+      const step = await getCurrentApprovalStep(database, id);
+      const authority = await getApprovalAuthority(database, req.user, step, request.userId);
+      if (!authority) {
+        return res.status(403).json({
+          message: step ? "This request is waiting on another approver" : "You can only review requests from your team",
+        });
+      }
+
+      const missingAttachment = await findMissingAttachment(database, request);
+      if (missingAttachment) {
+        return res.status(409).json({ message: missingAttachment });
+      }
+
+      // With an approval chain the request stays pending until its last step
+      const decision = await recordApprovalDecision(database, request, step, req.user, authority, "approved", comment);
+      if (!decision) {
+        return res.status(409).json({ message: "This request has already been decided" });
+      }
+      if (!decision.complete) {
+        return res.json({
+          message: "Approval recorded; waiting on the next step",
+          request
+        });
+      }
+
+      res.json({
+        message: "Leave request approved successfully",
+        request: decision.request
+      });
+    } catch (error: any) {
+      console.error("Error approving leave request:", error);
+      if (error.name === "IllegalTransitionError") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to approve leave request" });
+    }
+  });
+
+  app.post("/api/leave-requests/:id/reject", requireAuth, requireApprover, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { reason } = rejectLeaveRequestSchema.parse(req.body ?? {});
+
+      // Get the request details first
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      assertCanTransition(request.status, "reject");
+
+      const step = await getCurrentApprovalStep(database, id);
+      const authority = await getApprovalAuthority(database, req.user, step, request.userId);
+      if (!authority) {
+        return res.status(403).json({
+          message: step ? "This request is waiting on another approver" : "You can only review requests from your team",
+        });
+      }
+
+      // A rejection at any step rejects the whole request, releasing the days
+      // held against it
+      const decision = await recordApprovalDecision(database, request, step, req.user, authority, "rejected", reason);
+      if (!decision) {
+        return res.status(409).json({ message: "This request has already been decided" });
+      }
+
+      res.json({
+        message: "Leave request rejected successfully",
+        request: decision.request
+      });
+    } catch (error: any) {
+      console.error("Error rejecting leave request:", error);
+      if (error.name === "IllegalTransitionError") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to reject leave request" });
+    }
+  });
+
+  app.get("/api/leave-requests/:id/comments", requireAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request || !(await canViewLeaveRequest(database, req.user, request))) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const comments = await getLeaveRequestComments(database, id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post("/api/leave-requests/:id/comments", requireAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertLeaveRequestCommentSchema.parse(req.body);
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request || !(await canViewLeaveRequest(database, req.user, request))) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const [comment] = await database
+        .insert(leaveRequestComments)
+        .values({ ...validatedData, leaveRequestId: id, authorId: req.user.id })
+        .returning();
+
+      res.status(201).json({
+        id: comment.id,
+        body: comment.body,
+        createdAt: comment.createdAt,
+        author: { id: req.user.id, name: req.user.name, role: req.user.role },
+      });
+    } catch (error: any) {
+      console.error("Error adding comment:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // Supporting documents, visible to the requester and those who review the request
+  app.get("/api/leave-requests/:id/attachments", requireAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request || !(await canViewLeaveRequest(database, req.user, request))) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const attachments = await getLeaveRequestAttachments(database, id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // The body is the file itself; oversized uploads are cut off while reading
+  const readAttachment = (req: any, res: Response, next: (error?: any) => void) => {
+    const maxBytes = getAttachmentMaxBytes();
+    express.raw({ type: () => true, limit: maxBytes })(req, res, (error?: any) => {
+      if (error?.type === "entity.too.large") {
+        return res.status(413).json({ message: `Attachments can be at most ${Math.floor(maxBytes / 1024 / 1024)} MB` });
+      }
+      next(error);
+    });
+  };
+
+  app.post("/api/leave-requests/:id/attachments", requireAuth, readAttachment, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { fileName } = uploadAttachmentSchema.parse(req.query);
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Send the file as the request body" });
+      }
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request || !(await canViewLeaveRequest(database, req.user, request))) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      if (!["pending", "approved", "cancellation_requested"].includes(request.status)) {
+        return res.status(409).json({ message: "Documents can only be added to pending or approved requests" });
+      }
+
+      const contentType = detectAttachmentType(req.body);
+      if (!contentType) {
+        return res.status(415).json({ message: "Attachments must be PDF, PNG, JPEG or WebP files" });
+      }
+
+      const storageKey = `${id}/${randomUUID()}`;
+      const [attachment] = await database
+        .insert(leaveRequestAttachments)
+        .values({
+          leaveRequestId: id,
+          uploadedById: req.user.id,
+          fileName,
+          contentType,
+          size: req.body.length,
+          storageKey,
+        })
+        .returning();
+
+      // Record the row first, so a file is never stored without one pointing at it
+      try {
+        await getAttachmentStorage().put(storageKey, req.body, contentType);
+      } catch (storageError) {
+        await database.delete(leaveRequestAttachments).where(eq(leaveRequestAttachments.id, attachment.id));
+        throw storageError;
+      }
+
+      res.status(201).json({
+        id: attachment.id,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+        uploadedBy: { id: req.user.id, name: req.user.name },
+      });
+    } catch (error: any) {
+      console.error("Error uploading attachment:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to upload attachment" });
+    }
+  });
+
+  app.get("/api/leave-requests/:id/attachments/:attachmentId", requireAuth, async (req: any, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request || !(await canViewLeaveRequest(database, req.user, request))) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const [attachment] = await database
+        .select()
+        .from(leaveRequestAttachments)
+        .where(and(eq(leaveRequestAttachments.id, attachmentId), eq(leaveRequestAttachments.leaveRequestId, id)))
+        .limit(1);
+
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const file = await getAttachmentStorage().get(attachment.storageKey);
+      res.setHeader("Content-Type", attachment.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(file);
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  // Uploaders and admins can remove a document while the request is still pending
+  app.delete("/api/leave-requests/:id/attachments/:attachmentId", requireAuth, async (req: any, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request || !(await canViewLeaveRequest(database, req.user, request))) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const [attachment] = await database
+        .select()
+        .from(leaveRequestAttachments)
+        .where(and(eq(leaveRequestAttachments.id, attachmentId), eq(leaveRequestAttachments.leaveRequestId, id)))
+        .limit(1);
+
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (attachment.uploadedById !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ message: "You can only remove documents you uploaded" });
+      }
+      if (request.status !== "pending") {
+        return res.status(409).json({ message: "Documents can only be removed while the request is pending" });
+      }
+
+      // The stored file goes first: if that fails the row still points at it, and
+      // deleting a file that is already gone succeeds, so the request can be retried
+      await getAttachmentStorage().delete(attachment.storageKey);
+      await database.delete(leaveRequestAttachments).where(eq(leaveRequestAttachments.id, attachmentId));
+
+      res.json({ message: "Attachment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  app.get("/api/leave-requests/:id/history", requireAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request || !(await canViewLeaveRequest(database, req.user, request))) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const history = await getLeaveRequestHistory(database, id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching request history:", error);
+      res.status(500).json({ message: "Failed to fetch request history" });
+    }
+  });
+
+  // Pending requests are withdrawn at once; approved leave waits for an
+  // approver to sign off before its days are refunded
+  app.post("/api/leave-requests/:id/cancel", requireAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { reason } = cancelLeaveRequestSchema.parse(req.body ?? {});
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(and(
+          eq(leaveRequests.id, id),
+          eq(leaveRequests.userId, req.user.id)
+        ))
+        .limit(1);
+
+      if (!request) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const updatedRequest = await transitionLeaveRequest(
+        database,
+        request,
+        request.status === "approved" ? "request_cancellation" : "withdraw",
+        req.user.id
+      );
+
+      if (reason) {
+        await database
+          .insert(leaveRequestComments)
+          .values({ leaveRequestId: id, authorId: req.user.id, body: reason });
+      }
+
+      res.json({
+        message: updatedRequest.status === "withdrawn"
+          ? "Leave request withdrawn"
+          : "Cancellation requested; waiting on approver sign-off",
+        request: updatedRequest
+      });
+    } catch (error: any) {
+      console.error("Error cancelling leave request:", error);
+      if (error.name === "IllegalTransitionError") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to cancel leave request" });
+    }
+  });
+
+  // Approvers sign off a cancellation, or decline it and keep the leave approved
+  const decideCancellation = (decision: "approve" | "reject") => async (req: any, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { comment } = approveLeaveRequestSchema.parse(req.body ?? {});
+
+      const [request] = await database
+        .select()
+        .from(leaveRequests)
+        .where(eq(leaveRequests.id, id))
+        .limit(1);
+
+      if (!request) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+
+      const transition = decision === "approve" ? "approve_cancellation" : "decline_cancellation";
+      assertCanTransition(request.status, transition);
+
+      if (!(await getApprovalAuthority(database, req.user, null, request.userId))) {
+        return res.status(403).json({ message: "You can only review requests from your team" });
+      }
+
+      // Signing off refunds the days; declining keeps them held
+      const updatedRequest = await transitionLeaveRequest(database, request, transition, req.user.id);
+
+      if (comment) {
+        await database
+          .insert(leaveRequestComments)
+          .values({ leaveRequestId: id, authorId: req.user.id, body: comment });
+      }
+
+      res.json({
+        message: decision === "approve" ? "Cancellation approved" : "Cancellation declined; the leave stays approved",
+        request: updatedRequest
+      });
+    } catch (error: any) {
+      console.error("Error deciding cancellation:", error);
+      if (error.name === "IllegalTransitionError") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error",
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to decide cancellation" });
+    }
+  };
+
+  app.post("/api/leave-requests/:id/cancellation/approve", requireAuth, requireApprover, decideCancellation("approve"));
+  app.post("/api/leave-requests/:id/cancellation/reject", requireAuth, requireApprover, decideCancellation("reject"));
+
   // Health check
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
@@ -0,0 +1,42 @@
+import { WebClient } from "@slack/web-api";
+import type { EscalationRunResult } from "@shared/escalations";
+import { describeSlackNotification, type SlackNotification } from "@shared/slack";
+
+const slack = new WebClient(
+  process.env.SLACK_BOT_TOKEN || process.env.SLACK_WEBHOOK_URL || ""
+);
+
+const SLACK_CHANNEL_ID = process.env.SLACK_CHANNEL_ID || "#general";
+
+async function postMessage(notification: SlackNotification) {
+  const { message, color } = describeSlackNotification(notification);
+  const result = await slack.chat.postMessage({
+    channel: SLACK_CHANNEL_ID,
+    text: message,
+    attachments: [
+      {
+        color,
+        text: message,
+        ts: String(Math.floor(Date.now() / 1000)),
+      },
+    ],
+  });
+
+  console.log("Slack notification sent successfully:", result.ts);
+}
+
+// Post the reminders and escalations from an escalation run
+export async function sendEscalationNotifications({ reminders, escalations }: EscalationRunResult) {
+  // If no Slack configuration, skip silently
+  if (!process.env.SLACK_BOT_TOKEN && !process.env.SLACK_WEBHOOK_URL) {
+    console.log("Slack not configured, skipping notification");
+    return;
+  }
+
+  for (const notice of reminders) {
+    await postMessage({ type: "approval_reminder", ...notice });
+  }
+  for (const notice of escalations) {
+    await postMessage({ type: "approval_escalated", ...notice });
+  }
+}
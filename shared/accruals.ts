@@ -0,0 +1,182 @@
+import { and, eq, isNotNull, like } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { accrualPolicies, leaveTransactions, users, type AccrualPolicy } from "./schema";
+import type { LeaveTransactionInput } from "./leaveBalances";
+
+export interface AccrualPeriod {
+  start: string;
+  end: string;
+}
+
+export interface Employment {
+  hireDate: string | null;
+  terminationDate: string | null;
+}
+
+export interface AccrualRunResult {
+  asOf: string;
+  posted: number;
+  skipped: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUTCDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(toUTCDate(date).getTime() + days * DAY_MS));
+}
+
+// Inclusive number of calendar days between two dates
+function daysInRange(start: string, end: string): number {
+  return Math.round((toUTCDate(end).getTime() - toUTCDate(start).getTime()) / DAY_MS) + 1;
+}
+
+export function today(): string {
+  return toDateString(new Date());
+}
+
+// Periods that have ended on or before `asOf`, starting with the one containing `from`
+export function getAccrualPeriods(
+  policy: Pick<AccrualPolicy, "frequency" | "payPeriodDays" | "effectiveFrom">,
+  from: string,
+  asOf: string
+): AccrualPeriod[] {
+  const periods: AccrualPeriod[] = [];
+
+  if (policy.frequency === "pay_period") {
+    const length = policy.payPeriodDays ?? 14;
+    const offset = Math.max(0, Math.floor((daysInRange(policy.effectiveFrom, from) - 1) / length));
+    let start = addDays(policy.effectiveFrom, offset * length);
+
+    while (addDays(start, length - 1) <= asOf) {
+      periods.push({ start, end: addDays(start, length - 1) });
+      start = addDays(start, length);
+    }
+    return periods;
+  }
+
+  const cursor = toUTCDate(`${from.slice(0, 7)}-01`);
+  while (true) {
+    const start = toDateString(cursor);
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    const end = addDays(toDateString(cursor), -1);
+    if (end > asOf) {
+      break;
+    }
+    periods.push({ start, end });
+  }
+  return periods;
+}
+
+// Share of a period's accrual earned while employed, e.g. 1.25 days × 17/31 for a mid-month hire
+export function prorateAccrual(amount: number, period: AccrualPeriod, employment: Employment): number {
+  if (!employment.hireDate) {
+    return 0;
+  }
+
+  const start = employment.hireDate > period.start ? employment.hireDate : period.start;
+  const end = employment.terminationDate && employment.terminationDate < period.end
+    ? employment.terminationDate
+    : period.end;
+
+  if (end < start) {
+    return 0;
+  }
+
+  const fraction = daysInRange(start, end) / daysInRange(period.start, period.end);
+  return Math.round(amount * fraction * 100) / 100;
+}
+
+export function accrualIdempotencyKey(policyId: string, userId: string, period: AccrualPeriod): string {
+  return `accrual:${policyId}:${userId}:${period.start}`;
+}
+
+// Ledger entries a policy should have posted for one employee up to `asOf`
+export function planAccruals(
+  policy: AccrualPolicy,
+  user: Employment & { id: string },
+  asOf: string
+): (LeaveTransactionInput & { idempotencyKey: string })[] {
+  if (!user.hireDate) {
+    return [];
+  }
+
+  const from = user.hireDate > policy.effectiveFrom ? user.hireDate : policy.effectiveFrom;
+  const until = user.terminationDate && user.terminationDate < asOf ? user.terminationDate : asOf;
+
+  // The period containing the termination date is posted once it has ended
+  return getAccrualPeriods(policy, from, asOf)
+    .filter((period) => period.start <= until)
+    .map((period) => ({
+      period,
+      amount: prorateAccrual(policy.amount, period, user),
+    }))
+    .filter(({ amount }) => amount > 0)
+    .map(({ period, amount }) => ({
+      userId: user.id,
+      leaveType: policy.leaveType,
+      kind: "accrual" as const,
+      amount,
+      reason: `${policy.name} accrual for ${period.start} to ${period.end}`,
+      idempotencyKey: accrualIdempotencyKey(policy.id, user.id, period),
+    }));
+}
+
+// Post every accrual that is due. Safe to run repeatedly: entries already in
+// the ledger are recognised by their idempotency key and skipped.
+export async function runAccruals(db: NeonHttpDatabase, asOf: string = today()): Promise<AccrualRunResult> {
+  const policies = await db
+    .select()
+    .from(accrualPolicies)
+    .where(eq(accrualPolicies.active, true));
+
+  const employees = await db
+    .select({ id: users.id, hireDate: users.hireDate, terminationDate: users.terminationDate })
+    .from(users)
+    .where(isNotNull(users.hireDate));
+
+  let posted = 0;
+  let skipped = 0;
+
+  for (const policy of policies) {
+    const existing = await db
+      .select({ idempotencyKey: leaveTransactions.idempotencyKey })
+      .from(leaveTransactions)
+      .where(and(
+        eq(leaveTransactions.kind, "accrual"),
+        like(leaveTransactions.idempotencyKey, `accrual:${policy.id}:%`)
+      ));
+    const postedKeys = new Set(existing.map((row) => row.idempotencyKey));
+
+    const due = employees
+      .flatMap((employee) => planAccruals(policy, employee, asOf))
+      .filter((entry) => {
+        if (postedKeys.has(entry.idempotencyKey)) {
+          skipped++;
+          return false;
+        }
+        return true;
+      });
+
+    // Insert in chunks to stay well within the query parameter limit
+    for (let i = 0; i < due.length; i += 500) {
+      const inserted = await db
+        .insert(leaveTransactions)
+        .values(due.slice(i, i + 500))
+        .onConflictDoNothing({ target: leaveTransactions.idempotencyKey })
+        .returning({ id: leaveTransactions.id });
+
+      posted += inserted.length;
+      skipped += due.slice(i, i + 500).length - inserted.length;
+    }
+  }
+
+  return { asOf, posted, skipped };
+}
@@ -0,0 +1,451 @@
+import { randomUUID } from "crypto";
+import { and, asc, eq, inArray, or, type SQL } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import {
+  approvalChains,
+  approvalChainSteps,
+  leaveRequestApprovals,
+  leaveRequests,
+  users,
+  type ApprovalChain,
+  type ApprovalChainStep,
+  type InsertApprovalChain,
+  type LeaveRequest,
+  type LeaveRequestApproval,
+  type LeaveTypeDefinition,
+  type Role,
+  type User,
+} from "./schema";
+import { canReviewLeaveRequest, getReportIds } from "./leaveRequests";
+import { getActiveDelegators } from "./delegations";
+import { IllegalTransitionError, prepareTransition } from "./leaveRequestStatus";
+
+const UNIQUE_VIOLATION = "23505";
+
+export type ApprovalDecision = "approved" | "rejected";
+
+// Whose approval rights a reviewer is using: their own, or a delegator's
+export interface ApprovalAuthority {
+  onBehalfOf: { id: string; role: Role } | null;
+}
+
+export interface ApprovalChainWithSteps extends ApprovalChain {
+  steps: ApprovalChainStep[];
+}
+
+// A request's approval step as shown on the dashboards
+export interface ApprovalStepView {
+  id: string;
+  position: number;
+  approverRole: Role | null;
+  approver: { id: string; name: string } | null;
+  status: LeaveRequestApproval["status"];
+  decidedBy: { id: string; name: string } | null;
+  onBehalfOf: { id: string; name: string } | null;
+  comment: string | null;
+  decidedAt: Date | null;
+}
+
+export async function getApprovalChains(db: NeonHttpDatabase): Promise<ApprovalChainWithSteps[]> {
+  const chains = await db
+    .select()
+    .from(approvalChains)
+    .orderBy(asc(approvalChains.priority), asc(approvalChains.createdAt));
+  const steps = await db
+    .select()
+    .from(approvalChainSteps)
+    .orderBy(asc(approvalChainSteps.position));
+
+  return chains.map((chain) => ({
+    ...chain,
+    steps: steps.filter((step) => step.chainId === chain.id),
+  }));
+}
+
+// Named approvers must be able to review, i.e. be a manager or an admin
+export async function findInvalidApprovers(
+  db: NeonHttpDatabase,
+  steps: InsertApprovalChain["steps"]
+): Promise<string[]> {
+  const approverIds = Array.from(new Set(
+    steps.map((step) => step.approverId).filter((id): id is string => !!id)
+  ));
+  if (approverIds.length === 0) {
+    return [];
+  }
+
+  const approvers = await db
+    .select({ id: users.id, role: users.role })
+    .from(users)
+    .where(inArray(users.id, approverIds));
+
+  return approverIds.filter((id) =>
+    !approvers.some((approver) => approver.id === id && approver.role !== "employee")
+  );
+}
+
+// Create a chain, or update chain `id` and replace its steps. Returns null if
+// `id` does not exist. Requests already under way keep the steps they started with.
+// The chain and its steps are written in one batch, so a chain is never left with
+// only some of its steps.
+export async function saveApprovalChain(
+  db: NeonHttpDatabase,
+  data: InsertApprovalChain,
+  id?: string
+): Promise<ApprovalChainWithSteps | null> {
+  const { steps, ...fields } = data;
+
+  if (id) {
+    const [existing] = await db
+      .select({ id: approvalChains.id })
+      .from(approvalChains)
+      .where(eq(approvalChains.id, id))
+      .limit(1);
+    if (!existing) {
+      return null;
+    }
+  }
+
+  const chainId = id ?? randomUUID();
+  const [[chain], , savedSteps] = await db.batch([
+    id
+      ? db.update(approvalChains).set(fields).where(eq(approvalChains.id, chainId)).returning()
+      : db.insert(approvalChains).values({ ...fields, id: chainId }).returning(),
+    db.delete(approvalChainSteps).where(eq(approvalChainSteps.chainId, chainId)),
+    db
+      .insert(approvalChainSteps)
+      .values(steps.map((step, index) => ({
+        chainId,
+        position: index + 1,
+        approverRole: step.approverRole ?? null,
+        approverId: step.approverId ?? null,
+      })))
+      .returning(),
+  ]);
+
+  return { ...chain, steps: savedSteps.sort((a, b) => a.position - b.position) };
+}
+
+export function approvalChainMatches(
+  chain: ApprovalChain,
+  leaveType: Pick<LeaveTypeDefinition, "key" | "paid">,
+  days: number
+): boolean {
+  return chain.active
+    && (chain.leaveType == null || chain.leaveType === leaveType.key)
+    && (chain.minDays == null || days > chain.minDays)
+    && (!chain.unpaidOnly || !leaveType.paid);
+}
+
+// Copy the matching chain's steps onto a request, replacing any earlier ones, so
+// an edited request starts its approvals again. Requests no chain matches keep
+// the single-step review by an admin or the employee's manager. A step naming the
+// employee is left out, since nobody may approve their own leave. Returns the
+// writes unexecuted, so they join the batch creating or editing the request.
+export function prepareApprovals(
+  db: NeonHttpDatabase,
+  chains: ApprovalChainWithSteps[],
+  employee: Pick<User, "id" | "managerId">,
+  leaveRequestId: string,
+  leaveType: Pick<LeaveTypeDefinition, "key" | "paid">,
+  days: number
+): [BatchItem<"pg">, ...BatchItem<"pg">[]] {
+  const clear = db.delete(leaveRequestApprovals).where(eq(leaveRequestApprovals.leaveRequestId, leaveRequestId));
+
+  const chain = chains.find((candidate) =>
+    approvalChainMatches(candidate, leaveType, days) && candidate.steps.length > 0
+  );
+  if (!chain) {
+    return [clear];
+  }
+
+  const steps = chain.steps.filter((step) => step.approverId !== employee.id);
+  if (steps.length === 0) {
+    return [clear];
+  }
+
+  return [
+    clear,
+    db
+      .insert(leaveRequestApprovals)
+      .values(steps.map((step, index) => ({
+        leaveRequestId,
+        position: index + 1,
+        // Employees without a manager have their manager step decided by an admin
+        approverRole: step.approverRole === "manager" && !employee.managerId ? "admin" as const : step.approverRole,
+        approverId: step.approverId,
+      }))),
+  ];
+}
+
+// The first undecided step, or null when the request has no chain or every step is done
+export async function getCurrentApprovalStep(
+  db: NeonHttpDatabase,
+  leaveRequestId: string
+): Promise<LeaveRequestApproval | null> {
+  const [step] = await db
+    .select()
+    .from(leaveRequestApprovals)
+    .where(and(
+      eq(leaveRequestApprovals.leaveRequestId, leaveRequestId),
+      eq(leaveRequestApprovals.status, "pending")
+    ))
+    .orderBy(asc(leaveRequestApprovals.position))
+    .limit(1);
+
+  return step ?? null;
+}
+
+// Whether `reviewer` may decide `step` of a request by `employeeId`. Without a
+// step the request falls back to review by an admin or the employee's manager.
+export async function canActOnApprovalStep(
+  db: NeonHttpDatabase,
+  reviewer: { id: string; role: Role },
+  step: Pick<LeaveRequestApproval, "approverRole" | "approverId"> | null,
+  employeeId: string
+): Promise<boolean> {
+  if (reviewer.id === employeeId) {
+    return false;
+  }
+  if (!step) {
+    return canReviewLeaveRequest(db, reviewer, employeeId);
+  }
+  if (step.approverId) {
+    return step.approverId === reviewer.id;
+  }
+  if (step.approverRole === "admin") {
+    return reviewer.role === "admin";
+  }
+  if (step.approverRole === "manager") {
+    return (await getReportIds(db, reviewer.id)).includes(employeeId);
+  }
+  return false;
+}
+
+// How `reviewer` may decide `step`: directly, or standing in for an approver
+// who delegated to them. Null if neither applies.
+export async function getApprovalAuthority(
+  db: NeonHttpDatabase,
+  reviewer: { id: string; role: Role },
+  step: Pick<LeaveRequestApproval, "approverRole" | "approverId"> | null,
+  employeeId: string
+): Promise<ApprovalAuthority | null> {
+  if (reviewer.id === employeeId) {
+    return null;
+  }
+  if (await canActOnApprovalStep(db, reviewer, step, employeeId)) {
+    return { onBehalfOf: null };
+  }
+
+  for (const delegator of await getActiveDelegators(db, reviewer.id)) {
+    if (await canActOnApprovalStep(db, delegator, step, employeeId)) {
+      return { onBehalfOf: delegator };
+    }
+  }
+  return null;
+}
+
+// The write recording a decision on the request's current step, or on the single
+// review of a request without a chain. Unexecuted, so it can join a batch; it
+// returns no row if someone else decided the step first.
+export function prepareApprovalDecision(
+  db: NeonHttpDatabase,
+  leaveRequestId: string,
+  step: LeaveRequestApproval | null,
+  reviewer: { id: string; role: Role },
+  authority: ApprovalAuthority,
+  decision: ApprovalDecision,
+  comment?: string
+) {
+  const decidedFields = {
+    status: decision,
+    decidedById: reviewer.id,
+    onBehalfOfId: authority.onBehalfOf?.id ?? null,
+    comment: comment || null,
+    decidedAt: new Date(),
+  };
+
+  if (!step) {
+    const approver = authority.onBehalfOf ?? reviewer;
+    return db
+      .insert(leaveRequestApprovals)
+      .values({
+        leaveRequestId,
+        position: 1,
+        approverRole: approver.role === "admin" ? "admin" : "manager",
+        ...decidedFields,
+      })
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  return db
+    .update(leaveRequestApprovals)
+    .set(decidedFields)
+    .where(and(
+      eq(leaveRequestApprovals.id, step.id),
+      eq(leaveRequestApprovals.status, "pending")
+    ))
+    .returning();
+}
+
+// Record a decision as above and, when it decides the request, move the request
+// along in the same batch, so a step is never left decided on a request that
+// wasn't. A rejection at any step rejects the whole request; an approval only
+// completes it at the last step. Returns null if someone else decided the step
+// first, otherwise whether the request is now decided and the request as it stands.
+export async function recordApprovalDecision(
+  db: NeonHttpDatabase,
+  request: LeaveRequest,
+  step: LeaveRequestApproval | null,
+  reviewer: { id: string; role: Role },
+  authority: ApprovalAuthority,
+  decision: ApprovalDecision,
+  comment?: string
+): Promise<{ complete: boolean; request: LeaveRequest } | null> {
+  const stepWrite = prepareApprovalDecision(db, request.id, step, reviewer, authority, decision, comment);
+
+  const remainingSteps = step && decision === "approved"
+    ? await db
+      .select({ id: leaveRequestApprovals.id })
+      .from(leaveRequestApprovals)
+      .where(and(
+        eq(leaveRequestApprovals.leaveRequestId, request.id),
+        eq(leaveRequestApprovals.status, "pending")
+      ))
+    : [];
+  if (remainingSteps.length > 1) {
+    const [decided] = await stepWrite;
+    return decided ? { complete: false, request } : null;
+  }
+
+  const writes = await prepareTransition(db, request, decision === "approved" ? "approve" : "reject", reviewer.id);
+  let results: unknown[];
+  try {
+    results = await db.batch([stepWrite, ...writes]);
+  } catch (error: any) {
+    // The keyed status event: the request was decided or withdrawn meanwhile
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new IllegalTransitionError("Leave request was updated by someone else; reload and try again");
+    }
+    throw error;
+  }
+
+  const [[decided], [updatedRequest]] = results as [LeaveRequestApproval[], LeaveRequest[]];
+  if (!decided) {
+    return null;
+  }
+  return { complete: true, request: updatedRequest ?? request };
+}
+
+// Whether `user` may see a request and its comments: the employee, anyone who
+// may review it, directly or as a delegate, and anyone named on or deciding a step
+export async function canViewLeaveRequest(
+  db: NeonHttpDatabase,
+  user: { id: string; role: Role },
+  request: { id: string; userId: string }
+): Promise<boolean> {
+  if (user.id === request.userId || user.role === "admin") {
+    return true;
+  }
+
+  const [involved] = await db
+    .select({ id: leaveRequestApprovals.id })
+    .from(leaveRequestApprovals)
+    .where(and(
+      eq(leaveRequestApprovals.leaveRequestId, request.id),
+      or(eq(leaveRequestApprovals.approverId, user.id), eq(leaveRequestApprovals.decidedById, user.id))
+    ))
+    .limit(1);
+  if (involved) {
+    return true;
+  }
+
+  for (const approver of [user, ...(await getActiveDelegators(db, user.id))]) {
+    if (await canReviewLeaveRequest(db, approver, request.userId)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Requests with a step naming one of `userIds` as the approver, so they can find them
+export async function getAssignedLeaveRequestIds(db: NeonHttpDatabase, userIds: string[]): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ leaveRequestId: leaveRequestApprovals.leaveRequestId })
+    .from(leaveRequestApprovals)
+    .where(inArray(leaveRequestApprovals.approverId, userIds));
+
+  return rows.map((row) => row.leaveRequestId);
+}
+
+// Condition on leave requests for those `reviewer` may review, including for the
+// approvers they currently stand in for; undefined when that is every request
+export async function getReviewableLeaveRequestsFilter(
+  db: NeonHttpDatabase,
+  reviewer: { id: string; role: Role }
+): Promise<SQL | undefined> {
+  const approvers = [reviewer, ...(await getActiveDelegators(db, reviewer.id))];
+  if (approvers.some((approver) => approver.role === "admin")) {
+    return undefined;
+  }
+
+  const reportIds: string[] = [];
+  for (const approver of approvers) {
+    reportIds.push(...(await getReportIds(db, approver.id)));
+  }
+  const assignedIds = await getAssignedLeaveRequestIds(db, approvers.map((approver) => approver.id));
+  return or(inArray(leaveRequests.userId, reportIds), inArray(leaveRequests.id, assignedIds));
+}
+
+// Approval steps of each request, in order, with approver and decider names
+export async function getApprovalSteps(
+  db: NeonHttpDatabase,
+  leaveRequestIds: string[]
+): Promise<Map<string, ApprovalStepView[]>> {
+  const byRequest = new Map<string, ApprovalStepView[]>();
+  if (leaveRequestIds.length === 0) {
+    return byRequest;
+  }
+
+  const steps = await db
+    .select()
+    .from(leaveRequestApprovals)
+    .where(inArray(leaveRequestApprovals.leaveRequestId, leaveRequestIds))
+    .orderBy(asc(leaveRequestApprovals.position));
+
+  const userIds = Array.from(new Set(
+    steps
+      .flatMap((step) => [step.approverId, step.decidedById, step.onBehalfOfId])
+      .filter((id): id is string => !!id)
+  ));
+  const names = new Map(
+    userIds.length > 0
+      ? (await db
+          .select({ id: users.id, name: users.name })
+          .from(users)
+          .where(inArray(users.id, userIds))
+        ).map((user) => [user.id, user])
+      : []
+  );
+
+  for (const step of steps) {
+    byRequest.set(step.leaveRequestId, [
+      ...(byRequest.get(step.leaveRequestId) ?? []),
+      {
+        id: step.id,
+        position: step.position,
+        approverRole: step.approverRole,
+        approver: step.approverId ? names.get(step.approverId) ?? null : null,
+        status: step.status,
+        decidedBy: step.decidedById ? names.get(step.decidedById) ?? null : null,
+        onBehalfOf: step.onBehalfOfId ? names.get(step.onBehalfOfId) ?? null : null,
+        comment: step.comment,
+        decidedAt: step.decidedAt,
+      },
+    ]);
+  }
+
+  return byRequest;
+}
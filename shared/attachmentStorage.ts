@@ -0,0 +1,138 @@
+import { createHash, createHmac } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// Where attachment files live. Keys are generated by us, never taken from a
+// file name, so backends can use them as paths as-is.
+export interface AttachmentStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export const DEFAULT_ATTACHMENT_DIR = "uploads";
+
+export function createLocalAttachmentStorage(directory: string): AttachmentStorage {
+  const root = path.resolve(directory);
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+    async get(key) {
+      return readFile(resolve(key));
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+export interface S3AttachmentStorageOptions {
+  // e.g. https://s3.eu-west-1.amazonaws.com or a MinIO/R2 endpoint
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// Any S3-compatible store, addressed path-style and signed with Signature V4
+export function createS3AttachmentStorage(options: S3AttachmentStorageOptions): AttachmentStorage {
+  const send = async (method: "PUT" | "GET" | "DELETE", key: string, body?: Buffer, contentType?: string) => {
+    const objectPath = [options.bucket, ...key.split("/")].map(encodeURIComponent).join("/");
+    const url = new URL(`${options.endpoint.replace(/\/+$/, "")}/${objectPath}`);
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? "");
+    const scope = `${dateStamp}/${options.region}/s3/aws4_request`;
+    const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+    let signingKey = hmac(`AWS4${options.secretAccessKey}`, dateStamp);
+    for (const part of [options.region, "s3", "aws4_request"]) {
+      signingKey = hmac(signingKey, part);
+    }
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": amzDate,
+        ...(contentType ? { "Content-Type": contentType } : {}),
+      },
+      body,
+    });
+    if (!response.ok && !(method === "DELETE" && response.status === 404)) {
+      throw new Error(`S3 ${method} ${key} failed: ${response.status} ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    async put(key, body, contentType) {
+      await send("PUT", key, body, contentType);
+    },
+    async get(key) {
+      return Buffer.from(await (await send("GET", key)).arrayBuffer());
+    },
+    async delete(key) {
+      await send("DELETE", key);
+    },
+  };
+}
+
+let configuredStorage: AttachmentStorage | null = null;
+
+// The backend chosen by ATTACHMENT_STORAGE: "local" (the default) writes under
+// ATTACHMENT_DIR, "s3" uses the S3_* settings
+export function getAttachmentStorage(): AttachmentStorage {
+  if (configuredStorage) {
+    return configuredStorage;
+  }
+
+  if (process.env.ATTACHMENT_STORAGE === "s3") {
+    const { S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error("S3 attachment storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    configuredStorage = createS3AttachmentStorage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: S3_REGION || "us-east-1",
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  } else {
+    configuredStorage = createLocalAttachmentStorage(process.env.ATTACHMENT_DIR || DEFAULT_ATTACHMENT_DIR);
+  }
+  return configuredStorage;
+}
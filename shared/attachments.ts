@@ -0,0 +1,88 @@
+import { asc, eq } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { leaveRequestAttachments, leaveTypes, users, type LeaveRequest } from "./schema";
+import { calculateLeaveDays } from "./leaveDuration";
+import { isAttachmentRequired } from "./leavePolicies";
+
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+export function getAttachmentMaxBytes(): number {
+  const bytes = parseInt(process.env.ATTACHMENT_MAX_BYTES || "", 10);
+  return bytes > 0 ? bytes : DEFAULT_ATTACHMENT_MAX_BYTES;
+}
+
+// Accepted file types and the bytes each starts with. The type is read from the
+// file itself, so a renamed executable isn't taken for a PDF.
+const ATTACHMENT_SIGNATURES: { contentType: string; matches: (file: Buffer) => boolean }[] = [
+  { contentType: "application/pdf", matches: (file) => file.subarray(0, 5).toString("latin1") === "%PDF-" },
+  { contentType: "image/png", matches: (file) => file.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: "image/jpeg", matches: (file) => file.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  {
+    contentType: "image/webp",
+    matches: (file) => file.subarray(0, 4).toString("latin1") === "RIFF" && file.subarray(8, 12).toString("latin1") === "WEBP",
+  },
+];
+
+export const ATTACHMENT_CONTENT_TYPES = ATTACHMENT_SIGNATURES.map((signature) => signature.contentType);
+
+// The accepted type `file` is, or null
+export function detectAttachmentType(file: Buffer): string | null {
+  return ATTACHMENT_SIGNATURES.find((signature) => signature.matches(file))?.contentType ?? null;
+}
+
+// A request's attachments, oldest first, without where they are stored
+export async function getLeaveRequestAttachments(db: NeonHttpDatabase, leaveRequestId: string) {
+  return db
+    .select({
+      id: leaveRequestAttachments.id,
+      fileName: leaveRequestAttachments.fileName,
+      contentType: leaveRequestAttachments.contentType,
+      size: leaveRequestAttachments.size,
+      createdAt: leaveRequestAttachments.createdAt,
+      uploadedBy: {
+        id: users.id,
+        name: users.name,
+      },
+    })
+    .from(leaveRequestAttachments)
+    .innerJoin(users, eq(leaveRequestAttachments.uploadedById, users.id))
+    .where(eq(leaveRequestAttachments.leaveRequestId, leaveRequestId))
+    .orderBy(asc(leaveRequestAttachments.createdAt));
+}
+
+// Why `request` can't be approved until a document is uploaded, or null if it can
+export async function findMissingAttachment(db: NeonHttpDatabase, request: LeaveRequest): Promise<string | null> {
+  const [leaveType] = await db
+    .select()
+    .from(leaveTypes)
+    .where(eq(leaveTypes.key, request.leaveType))
+    .limit(1);
+  if (!leaveType?.requiresAttachment) {
+    return null;
+  }
+
+  if (leaveType.attachmentRequiredAfterDays != null) {
+    const [employee] = await db
+      .select({ holidayCalendar: users.holidayCalendar })
+      .from(users)
+      .where(eq(users.id, request.userId))
+      .limit(1);
+    const days = await calculateLeaveDays(db, request, employee?.holidayCalendar);
+    if (!isAttachmentRequired(leaveType, days)) {
+      return null;
+    }
+  }
+
+  const [attachment] = await db
+    .select({ id: leaveRequestAttachments.id })
+    .from(leaveRequestAttachments)
+    .where(eq(leaveRequestAttachments.leaveRequestId, request.id))
+    .limit(1);
+  if (attachment) {
+    return null;
+  }
+
+  return leaveType.attachmentRequiredAfterDays != null
+    ? `${leaveType.name} over ${leaveType.attachmentRequiredAfterDays} days needs a supporting document before it can be approved`
+    : `${leaveType.name} needs a supporting document before it can be approved`;
+}
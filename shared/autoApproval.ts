@@ -0,0 +1,83 @@
+import { and, asc, eq, gte, inArray, lte, ne } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { autoApprovalRules, leaveRequests, users, type AutoApprovalRule, type LeaveType, type User } from "./schema";
+import { addMonths } from "./leaveDuration";
+import { today } from "./accruals";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AutoApprovalCandidate {
+  userId: string;
+  leaveType: LeaveType;
+  startDate: string;
+  endDate: string;
+}
+
+export async function getAutoApprovalRules(db: NeonHttpDatabase): Promise<AutoApprovalRule[]> {
+  return db.select().from(autoApprovalRules).orderBy(asc(autoApprovalRules.createdAt));
+}
+
+// Distinct teammates with approved leave overlapping the dates. Teammates share
+// the employee's manager, so employees without one have none.
+async function countTeammatesOnLeave(
+  db: NeonHttpDatabase,
+  candidate: AutoApprovalCandidate,
+  managerId: string | null
+): Promise<number> {
+  if (!managerId) {
+    return 0;
+  }
+
+  const rows = await db
+    .selectDistinct({ userId: leaveRequests.userId })
+    .from(leaveRequests)
+    .innerJoin(users, eq(leaveRequests.userId, users.id))
+    .where(and(
+      eq(users.managerId, managerId),
+      ne(users.id, candidate.userId),
+      inArray(leaveRequests.status, ["approved", "cancellation_requested"]),
+      lte(leaveRequests.startDate, candidate.endDate),
+      gte(leaveRequests.endDate, candidate.startDate)
+    ));
+
+  return rows.length;
+}
+
+// The first active rule of `rules`, from getAutoApprovalRules, whose every
+// condition the employee's request meets, or null
+export async function findAutoApprovalRule(
+  db: NeonHttpDatabase,
+  rules: AutoApprovalRule[],
+  employee: Pick<User, "managerId" | "hireDate">,
+  candidate: AutoApprovalCandidate,
+  days: number,
+  asOf: string = today()
+): Promise<AutoApprovalRule | null> {
+  const applicable = rules.filter((rule) =>
+    rule.active
+      && (rule.leaveType == null || rule.leaveType === candidate.leaveType)
+      && (rule.maxDays == null || days <= rule.maxDays)
+  );
+
+  const noticeDays = Math.round((Date.parse(candidate.startDate) - Date.parse(asOf)) / DAY_MS);
+  let teammatesOnLeave: number | null = null;
+
+  for (const rule of applicable) {
+    if (rule.minNoticeDays != null && noticeDays < rule.minNoticeDays) {
+      continue;
+    }
+    // Tenure can't be checked without a hire date
+    if (rule.minTenureMonths != null
+      && (!employee.hireDate || addMonths(employee.hireDate, rule.minTenureMonths) > asOf)) {
+      continue;
+    }
+    if (rule.maxTeamOnLeave != null) {
+      teammatesOnLeave ??= await countTeammatesOnLeave(db, candidate, employee.managerId);
+      if (teammatesOnLeave > rule.maxTeamOnLeave) {
+        continue;
+      }
+    }
+    return rule;
+  }
+  return null;
+}
@@ -0,0 +1,34 @@
+import { and, asc, eq, inArray, isNull, or } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { blackoutPeriods, users, type BlackoutPeriod } from "./schema";
+import { getTeamAndAncestorIds } from "./teams";
+
+export async function getBlackoutPeriods(db: NeonHttpDatabase): Promise<BlackoutPeriod[]> {
+  return db.select().from(blackoutPeriods).orderBy(asc(blackoutPeriods.startDate));
+}
+
+// The blackouts covering `userId` taking `leaveType`: organisation-wide ones and
+// those of their team or a team above it
+export async function getApplicableBlackoutPeriods(
+  db: NeonHttpDatabase,
+  userId: string,
+  leaveType: string
+): Promise<BlackoutPeriod[]> {
+  const [employee] = await db
+    .select({ teamId: users.teamId })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  const teamIds = employee?.teamId ? await getTeamAndAncestorIds(db, employee.teamId) : [];
+
+  return db
+    .select()
+    .from(blackoutPeriods)
+    .where(and(
+      teamIds.length > 0
+        ? or(isNull(blackoutPeriods.teamId), inArray(blackoutPeriods.teamId, teamIds))
+        : isNull(blackoutPeriods.teamId),
+      or(isNull(blackoutPeriods.leaveType), eq(blackoutPeriods.leaveType, leaveType))
+    ))
+    .orderBy(asc(blackoutPeriods.startDate));
+}
@@ -0,0 +1,125 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { leaveRequestApprovals, leaveRequests, type Role } from "./schema";
+import { getApprovalAuthority, prepareApprovalDecision, type ApprovalDecision } from "./approvals";
+import { canTransition, IllegalTransitionError, prepareTransition } from "./leaveRequestStatus";
+import { findMissingAttachment } from "./attachments";
+
+export type BulkDecisionOutcome =
+  | "approved"
+  | "rejected"
+  | "step_approved"
+  | "skipped"
+  | "forbidden"
+  | "not_found"
+  | "conflict";
+
+export interface BulkDecisionResult {
+  id: string;
+  outcome: BulkDecisionOutcome;
+  message: string;
+}
+
+const UNIQUE_VIOLATION = "23505";
+
+// Decide many requests with one shared comment. Requests that can't be decided
+// are reported and left alone; the rest are written in one batch, which runs as
+// a single transaction, so either every one of them is decided or none are.
+export async function decideLeaveRequests(
+  db: NeonHttpDatabase,
+  reviewer: { id: string; role: Role },
+  ids: string[],
+  decision: ApprovalDecision,
+  comment?: string
+): Promise<BulkDecisionResult[]> {
+  const uniqueIds = Array.from(new Set(ids));
+  const transition = decision === "approved" ? "approve" : "reject";
+
+  const requests = await db
+    .select()
+    .from(leaveRequests)
+    .where(inArray(leaveRequests.id, uniqueIds));
+
+  const pendingSteps = await db
+    .select()
+    .from(leaveRequestApprovals)
+    .where(and(
+      inArray(leaveRequestApprovals.leaveRequestId, uniqueIds),
+      eq(leaveRequestApprovals.status, "pending")
+    ))
+    .orderBy(asc(leaveRequestApprovals.position));
+
+  const results: BulkDecisionResult[] = [];
+  const writes: BatchItem<"pg">[] = [];
+  // Step-only approvals, by their write, checked once the batch has run
+  const stepApprovals = new Map<number, BulkDecisionResult>();
+
+  for (const id of uniqueIds) {
+    const request = requests.find((candidate) => candidate.id === id);
+    if (!request) {
+      results.push({ id, outcome: "not_found", message: "Leave request not found" });
+      continue;
+    }
+    if (!canTransition(request.status, transition)) {
+      results.push({ id, outcome: "skipped", message: `Already ${request.status.replace(/_/g, " ")}` });
+      continue;
+    }
+    if (decision === "approved") {
+      const missingAttachment = await findMissingAttachment(db, request);
+      if (missingAttachment) {
+        results.push({ id, outcome: "skipped", message: missingAttachment });
+        continue;
+      }
+    }
+
+    const steps = pendingSteps.filter((step) => step.leaveRequestId === id);
+    const step = steps[0] ?? null;
+    const authority = await getApprovalAuthority(db, reviewer, step, request.userId);
+    if (!authority) {
+      results.push({
+        id,
+        outcome: "forbidden",
+        message: step ? "Waiting on another approver" : "You can only review requests from your team",
+      });
+      continue;
+    }
+
+    writes.push(prepareApprovalDecision(db, id, step, reviewer, authority, decision, comment));
+
+    // With an approval chain the request stays pending until its last step
+    if (decision === "approved" && steps.length > 1) {
+      const result: BulkDecisionResult = { id, outcome: "step_approved", message: "Approval recorded; waiting on the next step" };
+      stepApprovals.set(writes.length - 1, result);
+      results.push(result);
+      continue;
+    }
+
+    writes.push(...(await prepareTransition(db, request, transition, reviewer.id)));
+    results.push({ id, outcome: decision, message: decision === "approved" ? "Approved" : "Rejected" });
+  }
+
+  if (writes.length > 0) {
+    try {
+      const written = await db.batch(writes as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+
+      // The step update is conditional, so a step another approver decided while
+      // the batch ran changes no row; nothing else in the batch depends on it
+      stepApprovals.forEach((result, index) => {
+        if ((written[index] as unknown[]).length === 0) {
+          result.outcome = "conflict";
+          result.message = "Another approver decided this step first; reload and try again";
+        }
+      });
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new IllegalTransitionError(
+          "Some of these requests were decided while the batch ran; nothing was changed, reload and try again"
+        );
+      }
+      throw error;
+    }
+  }
+
+  return results;
+}
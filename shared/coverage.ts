@@ -0,0 +1,161 @@
+import { and, gte, inArray, lte } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { leaveRequests, teams, users, type CoverageEnforcement, type Team } from "./schema";
+import { eachDateInRange, getWorkWeek, isWorkingDay } from "./leaveDuration";
+import type { OverlapSpan } from "./leaveOverlap";
+
+// Leave whose staffing is checked: a request, or one about to be made
+export interface CoverageSpan extends OverlapSpan {
+  id?: string;
+  userId: string;
+}
+
+export interface CoverageDay {
+  date: string;
+  teamId: string;
+  teamName: string;
+  members: number;
+  absent: number;
+  present: number;
+  minimumPresent: number;
+  enforcement: CoverageEnforcement;
+  breached: boolean;
+}
+
+export interface CoverageReport {
+  breached: boolean;
+  // Breached on a team whose rule refuses such leave
+  blocking: boolean;
+  days: CoverageDay[];
+}
+
+// Hourly leave leaves someone at work for most of the day
+function isAway(span: OverlapSpan, date: string): boolean {
+  return span.hours == null && span.startDate <= date && date <= span.endDate;
+}
+
+// Staffing on each working day of each span, were its leave taken on top of the
+// leave already approved. Every team the employee belongs to, directly or by
+// nesting, is checked against its own rule, counting its sub-teams' members.
+export async function getCoverage(db: NeonHttpDatabase, spans: CoverageSpan[]): Promise<CoverageReport[]> {
+  const empty = spans.map((): CoverageReport => ({ breached: false, blocking: false, days: [] }));
+  if (spans.length === 0) {
+    return empty;
+  }
+
+  const allTeams = await db.select().from(teams);
+  if (!allTeams.some((team) => team.minimumPresent != null)) {
+    return empty;
+  }
+
+  const people = await db
+    .select({
+      id: users.id,
+      teamId: users.teamId,
+      hireDate: users.hireDate,
+      terminationDate: users.terminationDate,
+    })
+    .from(users);
+
+  const teamsById = new Map(allTeams.map((team) => [team.id, team]));
+  const teamOf = new Map(people.map((person) => [person.id, person.teamId]));
+
+  // The team and its ancestors, nearest first
+  const teamChain = (teamId: string | null) => {
+    const chain: Team[] = [];
+    for (let team = teamId ? teamsById.get(teamId) : undefined; team && !chain.includes(team);
+      team = team.parentId ? teamsById.get(team.parentId) : undefined) {
+      chain.push(team);
+    }
+    return chain;
+  };
+
+  const membersByTeam = new Map<string, string[]>();
+  for (const person of people) {
+    for (const team of teamChain(person.teamId)) {
+      membersByTeam.set(team.id, [...(membersByTeam.get(team.id) ?? []), person.id]);
+    }
+  }
+
+  const from = spans.reduce((min, span) => span.startDate < min ? span.startDate : min, spans[0].startDate);
+  const to = spans.reduce((max, span) => span.endDate > max ? span.endDate : max, spans[0].endDate);
+  const approvedLeave = await db
+    .select({
+      id: leaveRequests.id,
+      userId: leaveRequests.userId,
+      startDate: leaveRequests.startDate,
+      endDate: leaveRequests.endDate,
+      hours: leaveRequests.hours,
+    })
+    .from(leaveRequests)
+    .where(and(
+      inArray(leaveRequests.status, ["approved", "cancellation_requested"]),
+      lte(leaveRequests.startDate, to),
+      gte(leaveRequests.endDate, from)
+    ));
+
+  const workWeek = getWorkWeek();
+  const employed = (person: (typeof people)[number], date: string) =>
+    (!person.hireDate || person.hireDate <= date)
+    && (!person.terminationDate || person.terminationDate >= date);
+
+  return spans.map((span) => {
+    const days: CoverageDay[] = [];
+    const ruledTeams = teamChain(teamOf.get(span.userId) ?? null).filter((team) => team.minimumPresent != null);
+
+    for (const date of eachDateInRange(span.startDate, span.endDate)) {
+      if (!isWorkingDay(date, { workWeek }) || !isAway(span, date)) {
+        continue;
+      }
+
+      for (const team of ruledTeams) {
+        const memberIds = new Set(membersByTeam.get(team.id) ?? []);
+        const members = people.filter((person) => memberIds.has(person.id) && employed(person, date));
+        const away = new Set(
+          approvedLeave
+            .filter((leave) => leave.id !== span.id && memberIds.has(leave.userId) && isAway(leave, date))
+            .map((leave) => leave.userId)
+        );
+        away.add(span.userId);
+
+        const absent = members.filter((person) => away.has(person.id)).length;
+        const present = members.length - absent;
+        days.push({
+          date,
+          teamId: team.id,
+          teamName: team.name,
+          members: members.length,
+          absent,
+          present,
+          minimumPresent: team.minimumPresent!,
+          enforcement: team.coverageEnforcement,
+          breached: present < team.minimumPresent!,
+        });
+      }
+    }
+
+    return {
+      breached: days.some((day) => day.breached),
+      blocking: days.some((day) => day.breached && day.enforcement === "block"),
+      days,
+    };
+  });
+}
+
+// e.g. "Support would have 2 of 5 present on 2026-03-02 and 2026-03-03 (minimum 3)"
+export function describeCoverageBreaches(days: CoverageDay[]): string {
+  const byTeam = new Map<string, CoverageDay[]>();
+  for (const day of days.filter((candidate) => candidate.breached)) {
+    byTeam.set(day.teamId, [...(byTeam.get(day.teamId) ?? []), day]);
+  }
+
+  return Array.from(byTeam.values())
+    .map((teamDays) => {
+      const [first] = teamDays;
+      const fewest = Math.min(...teamDays.map((day) => day.present));
+      const dates = teamDays.map((day) => day.date);
+      const when = dates.length === 1 ? dates[0] : `${dates.slice(0, -1).join(", ")} and ${dates[dates.length - 1]}`;
+      return `${first.teamName} would have ${fewest} of ${first.members} present on ${when} (minimum ${first.minimumPresent})`;
+    })
+    .join("; ");
+}
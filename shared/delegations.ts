@@ -0,0 +1,122 @@
+import { and, desc, eq, gte, inArray, lte, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { approvalDelegations, leaveRequests, users, type ApprovalDelegation, type Role } from "./schema";
+import { today } from "./accruals";
+
+export interface Delegator {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export interface DelegationView extends ApprovalDelegation {
+  delegator: { id: string; name: string };
+  delegate: { id: string; name: string };
+  active: boolean;
+}
+
+// Delegators among `delegatorIds` with approved leave covering `asOf`
+async function findDelegatorsOnLeave(
+  db: NeonHttpDatabase,
+  delegatorIds: string[],
+  asOf: string
+): Promise<Set<string>> {
+  if (delegatorIds.length === 0) {
+    return new Set();
+  }
+
+  const rows = await db
+    .selectDistinct({ userId: leaveRequests.userId })
+    .from(leaveRequests)
+    .where(and(
+      inArray(leaveRequests.userId, delegatorIds),
+      // Leave awaiting cancellation sign-off still counts until it is cancelled
+      inArray(leaveRequests.status, ["approved", "cancellation_requested"]),
+      lte(leaveRequests.startDate, asOf),
+      gte(leaveRequests.endDate, asOf)
+    ));
+
+  return new Set(rows.map((row) => row.userId));
+}
+
+function isDelegationActive(
+  delegation: Pick<ApprovalDelegation, "delegatorId" | "startDate" | "endDate">,
+  onLeave: Set<string>,
+  asOf: string
+): boolean {
+  if (delegation.startDate && delegation.endDate) {
+    return delegation.startDate <= asOf && asOf <= delegation.endDate;
+  }
+  return onLeave.has(delegation.delegatorId);
+}
+
+// The users `delegateId` is currently standing in for
+export async function getActiveDelegators(
+  db: NeonHttpDatabase,
+  delegateId: string,
+  asOf: string = today()
+): Promise<Delegator[]> {
+  const rows = await db
+    .select({
+      delegation: approvalDelegations,
+      delegator: { id: users.id, name: users.name, role: users.role },
+    })
+    .from(approvalDelegations)
+    .innerJoin(users, eq(approvalDelegations.delegatorId, users.id))
+    .where(eq(approvalDelegations.delegateId, delegateId));
+
+  const onLeave = await findDelegatorsOnLeave(
+    db,
+    rows.filter((row) => !row.delegation.startDate).map((row) => row.delegation.delegatorId),
+    asOf
+  );
+
+  const delegators = new Map<string, Delegator>();
+  for (const row of rows) {
+    if (isDelegationActive(row.delegation, onLeave, asOf)) {
+      delegators.set(row.delegator.id, row.delegator);
+    }
+  }
+  return Array.from(delegators.values());
+}
+
+// Delegations `userId` gave or received, or every delegation when `userId` is null
+export async function getDelegations(
+  db: NeonHttpDatabase,
+  userId: string | null,
+  asOf: string = today()
+): Promise<DelegationView[]> {
+  const delegates = alias(users, "delegates");
+
+  const query = db
+    .select({
+      delegation: approvalDelegations,
+      delegator: { id: users.id, name: users.name },
+      delegate: { id: delegates.id, name: delegates.name },
+    })
+    .from(approvalDelegations)
+    .innerJoin(users, eq(approvalDelegations.delegatorId, users.id))
+    .innerJoin(delegates, eq(approvalDelegations.delegateId, delegates.id))
+    .orderBy(desc(approvalDelegations.createdAt));
+
+  const rows = userId
+    ? await query.where(or(
+        eq(approvalDelegations.delegatorId, userId),
+        eq(approvalDelegations.delegateId, userId)
+      ))
+    : await query;
+
+  const onLeave = await findDelegatorsOnLeave(
+    db,
+    rows.filter((row) => !row.delegation.startDate).map((row) => row.delegation.delegatorId),
+    asOf
+  );
+
+  return rows.map((row) => ({
+    ...row.delegation,
+    delegator: row.delegator,
+    delegate: row.delegate,
+    active: isDelegationActive(row.delegation, onLeave, asOf),
+  }));
+}
@@ -0,0 +1,201 @@
+import { addMonths } from "./leaveDuration";
+import type { LeaveType } from "./schema";
+
+// When the yearly allotment is granted: on each employee's hire anniversary,
+// or for everyone at the start of the leave (fiscal) year
+export type EntitlementBasis = "anniversary" | "fiscal_year";
+
+// A statutory annual-leave scheme. Add new jurisdictions to `statutoryEntitlements`.
+export interface StatutoryEntitlement {
+  id: string;
+  name: string;
+  leaveType: LeaveType;
+  // Days earned per completed month before the first yearly allotment
+  firstYearMonthlyDays: number;
+  firstYearMaxDays: number;
+  // Yearly allotment after `completedYears` (>= 1) years of service
+  yearlyDays(completedYears: number): number;
+}
+
+export interface EntitlementEmployee {
+  id: string;
+  hireDate: string | null;
+  terminationDate: string | null;
+  entitlementOverride: number | null;
+}
+
+export interface StatutoryGrant {
+  date: string;
+  amount: number;
+  // The yearly allotment, as opposed to a first-year monthly grant
+  yearly: boolean;
+  reason: string;
+  idempotencyKey: string;
+}
+
+export interface EntitlementPreview {
+  rule: string;
+  basis: EntitlementBasis;
+  yearsOfService: number;
+  // Days for the current entitlement year, before and after any admin override
+  statutoryDays: number;
+  effectiveDays: number;
+  override: number | null;
+  grants: StatutoryGrant[];
+}
+
+// Korean Labor Standards Act, Article 60: 1 day per month in the first year (up
+// to 11), then 15 days, plus 1 day for every 2 years beyond the first, up to 25
+export const koreanLaborStandardsAct: StatutoryEntitlement = {
+  id: "kr-lsa",
+  name: "Korean Labor Standards Act",
+  leaveType: "annual",
+  firstYearMonthlyDays: 1,
+  firstYearMaxDays: 11,
+  yearlyDays(completedYears) {
+    if (completedYears < 1) {
+      return 0;
+    }
+    return Math.min(25, 15 + Math.floor((completedYears - 1) / 2));
+  },
+};
+
+export const statutoryEntitlements: Record<string, StatutoryEntitlement> = {
+  [koreanLaborStandardsAct.id]: koreanLaborStandardsAct,
+};
+
+// The scheme named by STATUTORY_ENTITLEMENT, or null to keep flat yearly grants
+export function getStatutoryEntitlement(): StatutoryEntitlement | null {
+  const id = process.env.STATUTORY_ENTITLEMENT?.trim();
+  return id ? statutoryEntitlements[id] ?? null : null;
+}
+
+export function getEntitlementBasis(): EntitlementBasis {
+  return process.env.ENTITLEMENT_BASIS === "fiscal_year" ? "fiscal_year" : "anniversary";
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)
+  );
+}
+
+// Whole years from `start` to `date`, counting an anniversary on the day it falls
+export function completedYearsBetween(start: string, date: string): number {
+  let years = Number(date.slice(0, 4)) - Number(start.slice(0, 4));
+  if (addMonths(start, years * 12) > date) {
+    years--;
+  }
+  return Math.max(0, years);
+}
+
+// Start of the fiscal year containing `date`, for a "MM-DD" year start
+function fiscalYearStart(date: string, yearStart: string): string {
+  const year = Number(date.slice(0, 4));
+  return date < `${year}-${yearStart}` ? `${year - 1}-${yearStart}` : `${year}-${yearStart}`;
+}
+
+function statutoryKey(userId: string, date: string): string {
+  return `statutory:${userId}:${date}`;
+}
+
+// Grants due in the employee's current entitlement year, up to and including `asOf`
+export function planStatutoryGrants(
+  rule: StatutoryEntitlement,
+  employee: EntitlementEmployee,
+  asOf: string,
+  basis: EntitlementBasis,
+  yearStart: string
+): StatutoryGrant[] {
+  const { hireDate, terminationDate } = employee;
+  if (!hireDate || hireDate > asOf) {
+    return [];
+  }
+
+  const until = terminationDate && terminationDate < asOf ? terminationDate : asOf;
+  const completedYears = completedYearsBetween(hireDate, until);
+  const periodStart = basis === "anniversary"
+    ? addMonths(hireDate, completedYears * 12)
+    : fiscalYearStart(until, yearStart);
+  const grants: StatutoryGrant[] = [];
+
+  const firstAnniversary = addMonths(hireDate, 12);
+  let monthlyTotal = 0;
+  for (let month = 1; monthlyTotal < rule.firstYearMaxDays; month++) {
+    const date = addMonths(hireDate, month);
+    if (date >= firstAnniversary || date > until) {
+      break;
+    }
+    monthlyTotal += rule.firstYearMonthlyDays;
+    if (date >= periodStart) {
+      grants.push({
+        date,
+        amount: rule.firstYearMonthlyDays,
+        yearly: false,
+        reason: `${rule.name}: month ${month} of first year`,
+        idempotencyKey: statutoryKey(employee.id, date),
+      });
+    }
+  }
+
+  if (basis === "anniversary") {
+    if (completedYears >= 1) {
+      grants.push({
+        date: periodStart,
+        amount: rule.yearlyDays(completedYears),
+        yearly: true,
+        reason: `${rule.name}: year ${completedYears + 1} of service`,
+        idempotencyKey: statutoryKey(employee.id, periodStart),
+      });
+    }
+  } else if (hireDate < periodStart) {
+    // The first fiscal year after hire is pro-rated by the days worked in the
+    // hire year, rounded up to a half day; after that it follows service years
+    const hireYearStart = fiscalYearStart(hireDate, yearStart);
+    const fiscalYears = Number(periodStart.slice(0, 4)) - Number(hireYearStart.slice(0, 4));
+    const amount = fiscalYears === 1
+      ? Math.ceil((rule.yearlyDays(1) * daysBetween(hireDate, periodStart)) / 365 * 2) / 2
+      : rule.yearlyDays(fiscalYears - 1);
+
+    grants.push({
+      date: periodStart,
+      amount,
+      yearly: true,
+      reason: `${rule.name}: fiscal year starting ${periodStart}`,
+      idempotencyKey: statutoryKey(employee.id, periodStart),
+    });
+  }
+
+  return grants;
+}
+
+// The current entitlement with the admin override applied to the yearly allotment
+export function previewStatutoryEntitlement(
+  rule: StatutoryEntitlement,
+  employee: EntitlementEmployee,
+  asOf: string,
+  basis: EntitlementBasis,
+  yearStart: string
+): EntitlementPreview {
+  const statutory = planStatutoryGrants(rule, employee, asOf, basis, yearStart);
+  const override = employee.entitlementOverride;
+
+  const grants = statutory.map((grant) =>
+    grant.yearly && override != null
+      ? { ...grant, amount: override, reason: `${grant.reason} (override)` }
+      : grant
+  );
+
+  const sum = (list: StatutoryGrant[]) => list.reduce((total, grant) => total + grant.amount, 0);
+  const hireDate = employee.hireDate;
+
+  return {
+    rule: rule.name,
+    basis,
+    yearsOfService: hireDate && hireDate <= asOf ? completedYearsBetween(hireDate, asOf) : 0,
+    statutoryDays: sum(statutory),
+    effectiveDays: sum(grants),
+    override,
+    grants,
+  };
+}
@@ -0,0 +1,251 @@
+import { and, asc, eq, inArray, max } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import {
+  approvalSlaSettings,
+  leaveRequestApprovals,
+  leaveRequestEvents,
+  leaveRequests,
+  users,
+  type LeaveRequestApproval,
+} from "./schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_REMINDER_HOURS = 24;
+const DEFAULT_ESCALATION_HOURS = 72;
+
+export interface ApprovalSla {
+  reminderHours: number;
+  escalationHours: number;
+}
+
+export type SlaStatus = "on_track" | "at_risk" | "breached";
+
+export interface RequestSla {
+  waitingSince: Date;
+  ageHours: number;
+  status: SlaStatus;
+}
+
+export interface EscalationNotice {
+  leaveRequestId: string;
+  employeeName: string;
+  approverName: string;
+  // Who the request moved to; only set for escalations
+  escalatedToName?: string;
+  ageHours: number;
+}
+
+export interface EscalationRunResult {
+  reminders: EscalationNotice[];
+  escalations: EscalationNotice[];
+}
+
+type StepTiming = Pick<LeaveRequestApproval, "status" | "decidedAt">;
+
+function parseHours(value: string | undefined, fallback: number): number {
+  const hours = parseFloat(value || "");
+  return hours > 0 ? hours : fallback;
+}
+
+// The SLA used until an admin saves one
+export function getDefaultApprovalSla(): ApprovalSla {
+  const reminderHours = parseHours(process.env.APPROVAL_REMINDER_HOURS, DEFAULT_REMINDER_HOURS);
+  const escalationHours = parseHours(process.env.APPROVAL_ESCALATION_HOURS, DEFAULT_ESCALATION_HOURS);
+  return { reminderHours, escalationHours: Math.max(reminderHours, escalationHours) };
+}
+
+// How long a request may wait on one approver before they are reminded, and
+// before it moves up to the next approver. Escalation never comes first.
+export async function getApprovalSla(db: NeonHttpDatabase): Promise<ApprovalSla> {
+  const [settings] = await db.select().from(approvalSlaSettings).limit(1);
+  if (!settings) {
+    return getDefaultApprovalSla();
+  }
+  return {
+    reminderHours: settings.reminderHours,
+    escalationHours: Math.max(settings.reminderHours, settings.escalationHours),
+  };
+}
+
+export async function saveApprovalSla(db: NeonHttpDatabase, sla: ApprovalSla, updatedById: string): Promise<ApprovalSla> {
+  const values = { ...sla, updatedById, updatedAt: new Date() };
+  await db
+    .insert(approvalSlaSettings)
+    .values(values)
+    .onConflictDoUpdate({ target: approvalSlaSettings.id, set: values });
+  return getApprovalSla(db);
+}
+
+// When each request was last escalated, for requests that have been
+export async function getLastEscalations(db: NeonHttpDatabase, leaveRequestIds: string[]): Promise<Map<string, Date>> {
+  if (leaveRequestIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({ leaveRequestId: leaveRequestEvents.leaveRequestId, escalatedAt: max(leaveRequestEvents.createdAt) })
+    .from(leaveRequestEvents)
+    .where(and(
+      inArray(leaveRequestEvents.leaveRequestId, leaveRequestIds),
+      eq(leaveRequestEvents.kind, "escalated")
+    ))
+    .groupBy(leaveRequestEvents.leaveRequestId);
+
+  return new Map(rows.filter((row) => row.escalatedAt).map((row) => [row.leaveRequestId, row.escalatedAt!]));
+}
+
+// The clock restarts whenever a step is approved or the request is escalated, so
+// each approver gets the full SLA
+export function getRequestSla(
+  createdAt: Date,
+  steps: StepTiming[],
+  lastEscalatedAt: Date | null | undefined,
+  sla: ApprovalSla,
+  now: Date = new Date()
+): RequestSla {
+  const decidedAt = steps
+    .filter((step) => step.status !== "pending" && step.decidedAt)
+    .map((step) => step.decidedAt!.getTime());
+  const waitingSince = new Date(Math.max(createdAt.getTime(), lastEscalatedAt?.getTime() ?? 0, ...decidedAt));
+
+  const hours = (now.getTime() - waitingSince.getTime()) / HOUR_MS;
+  const status: SlaStatus = hours >= sla.escalationHours
+    ? "breached"
+    : hours >= sla.reminderHours ? "at_risk" : "on_track";
+
+  return { waitingSince, ageHours: Math.floor(hours), status };
+}
+
+// Remind the approver of every pending request past the reminder threshold, and
+// move requests past the escalation threshold to the approver's own manager, or
+// to the admins when there is none. Each approver of a step is reminded and
+// escalated from at most once, so the job is safe to run as often as you like,
+// while a request can keep moving up until it reaches the admins.
+export async function runEscalations(
+  db: NeonHttpDatabase,
+  now: Date = new Date()
+): Promise<EscalationRunResult> {
+  const sla = await getApprovalSla(db);
+  const result: EscalationRunResult = { reminders: [], escalations: [] };
+
+  const pending = await db
+    .select({
+      id: leaveRequests.id,
+      userId: leaveRequests.userId,
+      createdAt: leaveRequests.createdAt,
+      employeeName: users.name,
+      managerId: users.managerId,
+    })
+    .from(leaveRequests)
+    .innerJoin(users, eq(leaveRequests.userId, users.id))
+    .where(eq(leaveRequests.status, "pending"));
+
+  if (pending.length === 0) {
+    return result;
+  }
+
+  const steps = await db
+    .select()
+    .from(leaveRequestApprovals)
+    .where(inArray(leaveRequestApprovals.leaveRequestId, pending.map((request) => request.id)))
+    .orderBy(asc(leaveRequestApprovals.position));
+
+  const lastEscalations = await getLastEscalations(db, pending.map((request) => request.id));
+
+  const people = new Map(
+    (await db.select({ id: users.id, name: users.name, role: users.role, managerId: users.managerId }).from(users))
+      .map((person) => [person.id, person])
+  );
+
+  for (const request of pending) {
+    const requestSteps = steps.filter((step) => step.leaveRequestId === request.id);
+    const { ageHours, status } = getRequestSla(request.createdAt, requestSteps, lastEscalations.get(request.id), sla, now);
+    if (status === "on_track") {
+      continue;
+    }
+
+    // Requests without a chain are waiting on the employee's manager, or the admins
+    const step = requestSteps.find((candidate) => candidate.status === "pending") ?? null;
+    if (requestSteps.length > 0 && !step) {
+      continue;
+    }
+    const position = step?.position ?? 1;
+    const approverId = step
+      ? step.approverId ?? (step.approverRole === "manager" ? request.managerId : null)
+      : request.managerId;
+    const approver = approverId ? people.get(approverId) : undefined;
+    const approverName = approver?.name ?? "the admins";
+    // Keys name the approver, so whoever a request is escalated to is reminded
+    // and escalated from in turn
+    const approverKey = approver?.id ?? "admins";
+
+    // The admins are the end of the line; past that they just get a reminder
+    if (status === "breached" && approver) {
+      const next = approver.managerId ? people.get(approver.managerId) : undefined;
+      const target = next && next.id !== request.userId && next.role !== "employee" ? next : null;
+      const escalatedToName = target?.name ?? "the admins";
+
+      const [event] = await db
+        .insert(leaveRequestEvents)
+        .values({
+          leaveRequestId: request.id,
+          kind: "escalated",
+          position,
+          detail: `Escalated from ${approverName} to ${escalatedToName} after ${ageHours} hours`,
+          idempotencyKey: `escalation:${request.id}:${position}:${approverKey}`,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (event) {
+        const assignment = target
+          ? { approverRole: null, approverId: target.id }
+          : { approverRole: "admin" as const, approverId: null };
+
+        if (step) {
+          await db
+            .update(leaveRequestApprovals)
+            .set(assignment)
+            .where(and(eq(leaveRequestApprovals.id, step.id), eq(leaveRequestApprovals.status, "pending")));
+        } else {
+          await db
+            .insert(leaveRequestApprovals)
+            .values({ leaveRequestId: request.id, position, ...assignment })
+            .onConflictDoNothing();
+        }
+
+        result.escalations.push({
+          leaveRequestId: request.id,
+          employeeName: request.employeeName,
+          approverName,
+          escalatedToName,
+          ageHours,
+        });
+      }
+      continue;
+    }
+
+    const [event] = await db
+      .insert(leaveRequestEvents)
+      .values({
+        leaveRequestId: request.id,
+        kind: "reminder_sent",
+        position,
+        detail: `Reminded ${approverName} after ${ageHours} hours`,
+        idempotencyKey: `reminder:${request.id}:${position}:${approverKey}`,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (event) {
+      result.reminders.push({
+        leaveRequestId: request.id,
+        employeeName: request.employeeName,
+        approverName,
+        ageHours,
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,81 @@
+import { eachDateInRange } from "./leaveDuration";
+
+export interface IcsHoliday {
+  date: string;
+  name: string;
+}
+
+// Continuation lines in iCalendar files start with a space or tab
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n");
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+// DTSTART/DTEND values look like 20250101 or 20250101T090000Z
+function parseIcsDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function previousDate(date: string): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() - 1);
+  return value.toISOString().slice(0, 10);
+}
+
+// Extract one holiday per day from the VEVENTs of an .ics file.
+// Recurrence rules are not expanded; most published holiday feeds list each year explicitly.
+export function parseIcsHolidays(content: string): IcsHoliday[] {
+  const result: IcsHoliday[] = [];
+  let event: { start?: string; end?: string; allDay?: boolean; name?: string } | null = null;
+
+  for (const line of unfoldLines(content)) {
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+
+    const [property, ...params] = line.slice(0, separator).toUpperCase().split(";");
+    const value = line.slice(separator + 1);
+
+    if (property === "BEGIN" && value.trim().toUpperCase() === "VEVENT") {
+      event = {};
+    } else if (!event) {
+      continue;
+    } else if (property === "DTSTART") {
+      event.start = parseIcsDate(value) ?? undefined;
+      event.allDay = params.includes("VALUE=DATE") || !value.includes("T");
+    } else if (property === "DTEND") {
+      event.end = parseIcsDate(value) ?? undefined;
+    } else if (property === "SUMMARY") {
+      event.name = unescapeText(value);
+    } else if (property === "END" && value.trim().toUpperCase() === "VEVENT") {
+      if (event.start) {
+        // All-day DTEND is exclusive, so a one-day holiday ends on the following date
+        let end = event.end ?? event.start;
+        if (event.allDay && event.end && event.end > event.start) {
+          end = previousDate(event.end);
+        }
+
+        for (const date of eachDateInRange(event.start, end < event.start ? event.start : end)) {
+          result.push({ date, name: event.name || "Holiday" });
+        }
+      }
+      event = null;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,224 @@
+import { and, asc, eq, inArray, lt, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import {
+  accrualPolicies,
+  leaveRequests,
+  leaveTransactions,
+  users,
+  type LeaveTransactionKind,
+  type LeaveType,
+} from "./schema";
+import { getStatutoryEntitlement } from "./entitlements";
+import { roundDays } from "./leaveDuration";
+import { getLeaveTypes } from "./leaveTypes";
+
+// Balances by leave type key; types with no ledger entries are absent, i.e. 0
+export type LeaveBalances = Record<LeaveType, number>;
+
+export interface LeaveTransactionInput {
+  userId: string;
+  leaveType: LeaveType;
+  kind: LeaveTransactionKind;
+  // Positive amounts add days, negative amounts remove them
+  amount: number;
+  reason: string;
+  leaveRequestId?: string | null;
+  createdById?: string | null;
+  idempotencyKey?: string | null;
+  expiresOn?: string | null;
+}
+
+const balanceColumns = {
+  userId: leaveTransactions.userId,
+  leaveType: leaveTransactions.leaveType,
+  balance: sql<number>`coalesce(sum(${leaveTransactions.amount}), 0)`.mapWith(Number),
+};
+
+// Current balances, derived from the ledger
+export async function getLeaveBalances(
+  db: NeonHttpDatabase,
+  userId: string
+): Promise<LeaveBalances> {
+  const rows = await db
+    .select(balanceColumns)
+    .from(leaveTransactions)
+    .where(eq(leaveTransactions.userId, userId))
+    .groupBy(leaveTransactions.userId, leaveTransactions.leaveType);
+
+  const balances: LeaveBalances = {};
+  for (const row of rows) {
+    balances[row.leaveType] = roundDays(row.balance);
+  }
+  return balances;
+}
+
+// Balances for every user, keyed by user id; `before` limits them to earlier entries
+export async function getAllLeaveBalances(
+  db: NeonHttpDatabase,
+  before?: Date
+): Promise<Map<string, LeaveBalances>> {
+  const rows = await db
+    .select(balanceColumns)
+    .from(leaveTransactions)
+    .where(before ? lt(leaveTransactions.createdAt, before) : undefined)
+    .groupBy(leaveTransactions.userId, leaveTransactions.leaveType);
+
+  const result = new Map<string, LeaveBalances>();
+  for (const row of rows) {
+    if (!result.has(row.userId)) {
+      result.set(row.userId, {});
+    }
+    result.get(row.userId)![row.leaveType] = roundDays(row.balance);
+  }
+  return result;
+}
+
+// Append an entry to the ledger and return the resulting balance for its leave type
+export async function recordLeaveTransaction(
+  db: NeonHttpDatabase,
+  entry: LeaveTransactionInput
+): Promise<number> {
+  await db.insert(leaveTransactions).values(entry);
+
+  const balances = await getLeaveBalances(db, entry.userId);
+  return balances[entry.leaveType] ?? 0;
+}
+
+// Days currently held against a leave request per leave type: its debits net of refunds
+export async function getLeaveRequestHolds(
+  db: NeonHttpDatabase,
+  leaveRequestId: string
+): Promise<LeaveBalances> {
+  const rows = await db
+    .select({
+      leaveType: leaveTransactions.leaveType,
+      net: sql<number>`coalesce(sum(${leaveTransactions.amount}), 0)`.mapWith(Number),
+    })
+    .from(leaveTransactions)
+    .where(and(
+      eq(leaveTransactions.leaveRequestId, leaveRequestId),
+      inArray(leaveTransactions.kind, ["debit", "refund"])
+    ))
+    .groupBy(leaveTransactions.leaveType);
+
+  const holds: LeaveBalances = {};
+  for (const row of rows) {
+    holds[row.leaveType] = roundDays(-row.net);
+  }
+  return holds;
+}
+
+// The debits and refunds that would leave exactly `days` of the request's leave
+// type held against it (0 releases everything), without posting them
+export async function planSettlement(
+  db: NeonHttpDatabase,
+  request: { id: string; userId: string; leaveType: LeaveType },
+  days: number,
+  entry: { reason: string; createdById?: string | null }
+): Promise<LeaveTransactionInput[]> {
+  const holds = await getLeaveRequestHolds(db, request.id);
+  const target: LeaveBalances = Object.fromEntries(Object.keys(holds).map((type) => [type, 0]));
+  target[request.leaveType] = days;
+
+  const entries: LeaveTransactionInput[] = [];
+  for (const [leaveType, wanted] of Object.entries(target)) {
+    const change = roundDays(wanted - (holds[leaveType] ?? 0));
+    if (change === 0) {
+      continue;
+    }
+    entries.push({
+      userId: request.userId,
+      leaveType,
+      kind: change > 0 ? "debit" : "refund",
+      amount: -change,
+      reason: entry.reason,
+      leaveRequestId: request.id,
+      createdById: entry.createdById ?? null,
+    });
+  }
+  return entries;
+}
+
+// Leave types earned over time, by an active accrual policy or the statutory
+// entitlement scheme, rather than granted up front
+export async function getEarnedLeaveTypes(db: NeonHttpDatabase): Promise<Set<LeaveType>> {
+  const accrued = await db
+    .selectDistinct({ leaveType: accrualPolicies.leaveType })
+    .from(accrualPolicies)
+    .where(eq(accrualPolicies.active, true));
+
+  const earned = new Set(accrued.map((row) => row.leaveType));
+  const statutory = getStatutoryEntitlement();
+  if (statutory) {
+    earned.add(statutory.leaveType);
+  }
+  return earned;
+}
+
+export async function grantDefaultBalances(
+  db: NeonHttpDatabase,
+  userId: string,
+  createdById: string | null = null
+): Promise<void> {
+  const earnedTypes = await getEarnedLeaveTypes(db);
+  const types = await getLeaveTypes(db);
+
+  const grants = types
+    .filter((leaveType) => leaveType.deductsBalance && leaveType.defaultEntitlement > 0)
+    .filter((leaveType) => !earnedTypes.has(leaveType.key))
+    .map((leaveType) => ({
+      userId,
+      leaveType: leaveType.key,
+      kind: "grant" as const,
+      amount: leaveType.defaultEntitlement,
+      reason: "Initial entitlement",
+      createdById,
+    }));
+
+  if (grants.length > 0) {
+    await db.insert(leaveTransactions).values(grants);
+  }
+}
+
+// Every ledger entry for a user, oldest first, with the running balance of its leave type
+export async function getLeaveStatement(db: NeonHttpDatabase, userId: string) {
+  const createdBy = alias(users, "created_by");
+
+  const entries = await db
+    .select({
+      id: leaveTransactions.id,
+      leaveType: leaveTransactions.leaveType,
+      kind: leaveTransactions.kind,
+      amount: leaveTransactions.amount,
+      reason: leaveTransactions.reason,
+      createdAt: leaveTransactions.createdAt,
+      leaveRequest: {
+        id: leaveRequests.id,
+        startDate: leaveRequests.startDate,
+        endDate: leaveRequests.endDate,
+        status: leaveRequests.status,
+      },
+      createdBy: {
+        id: createdBy.id,
+        name: createdBy.name,
+      },
+    })
+    .from(leaveTransactions)
+    .leftJoin(leaveRequests, eq(leaveTransactions.leaveRequestId, leaveRequests.id))
+    .leftJoin(createdBy, eq(leaveTransactions.createdById, createdBy.id))
+    .where(eq(leaveTransactions.userId, userId))
+    .orderBy(asc(leaveTransactions.createdAt));
+
+  const running: LeaveBalances = {};
+  return entries.map((entry) => {
+    running[entry.leaveType] = roundDays((running[entry.leaveType] ?? 0) + entry.amount);
+    return { ...entry, balanceAfter: running[entry.leaveType] };
+  });
+}
+
+export function describeLeaveDates(request: { startDate: string; endDate: string }): string {
+  return request.startDate === request.endDate
+    ? request.startDate
+    : `${request.startDate} to ${request.endDate}`;
+}
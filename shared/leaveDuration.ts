@@ -0,0 +1,152 @@
+import { and, eq, gte, lte } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { holidays, type DayPortion } from "./schema";
+
+// Days of the week as returned by Date#getUTCDay (0 = Sunday)
+export const DEFAULT_WORK_WEEK = [1, 2, 3, 4, 5];
+
+export const DEFAULT_WORK_DAY_HOURS = 8;
+
+export const DEFAULT_HOLIDAY_CALENDAR = "default";
+
+export interface LeaveDurationOptions {
+  workWeek?: number[];
+  holidays?: Iterable<string>;
+  workDayHours?: number;
+}
+
+// The part of a leave request that determines how much balance it uses
+export interface LeaveSpan {
+  startDate: string;
+  endDate: string;
+  startPortion?: DayPortion | null;
+  endPortion?: DayPortion | null;
+  hours?: number | null;
+}
+
+// Parse a comma separated list of weekday numbers, e.g. "1,2,3,4,5"
+export function parseWorkWeek(value: string | undefined): number[] {
+  if (!value) {
+    return DEFAULT_WORK_WEEK;
+  }
+
+  const days = value
+    .split(",")
+    .map((day) => parseInt(day.trim(), 10))
+    .filter((day) => day >= 0 && day <= 6);
+
+  return days.length > 0 ? days : DEFAULT_WORK_WEEK;
+}
+
+export function getWorkWeek(): number[] {
+  return parseWorkWeek(process.env.WORK_WEEK);
+}
+
+export function getWorkDayHours(): number {
+  const hours = parseFloat(process.env.WORK_DAY_HOURS || "");
+  return hours > 0 ? hours : DEFAULT_WORK_DAY_HOURS;
+}
+
+function toUTCDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+// Every YYYY-MM-DD date between start and end, inclusive
+export function eachDateInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = toUTCDate(startDate);
+  const end = toUTCDate(endDate);
+
+  while (current <= end) {
+    dates.push(current.toISOString().slice(0, 10));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+// Add calendar months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28)
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+export function isWorkingDay(date: string, options: LeaveDurationOptions = {}): boolean {
+  const workWeek = options.workWeek ?? DEFAULT_WORK_WEEK;
+  if (!workWeek.includes(toUTCDate(date).getUTCDay())) {
+    return false;
+  }
+  const holidays = options.holidays instanceof Set ? options.holidays : new Set(options.holidays ?? []);
+  return !holidays.has(date);
+}
+
+// Day counts, in requests and in the ledger alike, are kept to three decimals
+export function roundDays(days: number): number {
+  return Math.round(days * 1000) / 1000;
+}
+
+// Days of balance a leave request uses: working days only, with half days
+// counting 0.5 and hourly leave counting as a fraction of a working day
+export function countLeaveDays(span: LeaveSpan, options: LeaveDurationOptions = {}): number {
+  // The holidays are put in a set once rather than on every call
+  const dayOptions = { workWeek: options.workWeek, holidays: new Set(options.holidays ?? []) };
+  const isWorking = (date: string) => isWorkingDay(date, dayOptions);
+
+  if (span.hours != null) {
+    if (!isWorking(span.startDate)) {
+      return 0;
+    }
+    const workDayHours = options.workDayHours ?? DEFAULT_WORK_DAY_HOURS;
+    return roundDays(Math.min(span.hours / workDayHours, 1));
+  }
+
+  let days = eachDateInRange(span.startDate, span.endDate).filter(isWorking).length;
+
+  if ((span.startPortion ?? "full") !== "full" && isWorking(span.startDate)) {
+    days -= 0.5;
+  }
+  if (
+    span.endDate !== span.startDate &&
+    (span.endPortion ?? "full") !== "full" &&
+    isWorking(span.endDate)
+  ) {
+    days -= 0.5;
+  }
+
+  return roundDays(days);
+}
+
+export async function getHolidayDates(
+  db: NeonHttpDatabase,
+  startDate: string,
+  endDate: string,
+  calendar: string = DEFAULT_HOLIDAY_CALENDAR
+): Promise<string[]> {
+  const rows = await db
+    .select({ date: holidays.date })
+    .from(holidays)
+    .where(and(
+      eq(holidays.calendar, calendar),
+      gte(holidays.date, startDate),
+      lte(holidays.date, endDate)
+    ));
+
+  return rows.map((row) => row.date);
+}
+
+// Days of balance for a request, using the configured work week and the user's holiday calendar
+export async function calculateLeaveDays(
+  db: NeonHttpDatabase,
+  span: LeaveSpan,
+  calendar: string = DEFAULT_HOLIDAY_CALENDAR
+): Promise<number> {
+  const holidayDates = await getHolidayDates(db, span.startDate, span.endDate, calendar);
+  return countLeaveDays(span, {
+    workWeek: getWorkWeek(),
+    holidays: holidayDates,
+    workDayHours: getWorkDayHours(),
+  });
+}
@@ -0,0 +1,75 @@
+// Kept free of database imports so the request form can run the same check
+import type { DayPortion, LeaveRequestStatus } from "./schema";
+
+// Requests in these statuses hold the dates they cover
+export const OVERLAP_BLOCKING_STATUSES: LeaveRequestStatus[] = ["pending", "approved", "cancellation_requested"];
+
+export interface OverlapSpan {
+  startDate: string;
+  endDate: string;
+  startPortion?: DayPortion | null;
+  endPortion?: DayPortion | null;
+  hours?: number | null;
+}
+
+export interface OverlapCandidate extends OverlapSpan {
+  id: string;
+  status: string;
+}
+
+type DayUsage = DayPortion | "hours";
+
+// How much of `date` a span takes off
+function usageOn(span: OverlapSpan, date: string): DayUsage {
+  if (span.hours != null) {
+    return "hours";
+  }
+  if (date === span.startDate) {
+    return span.startPortion ?? "full";
+  }
+  if (date === span.endDate) {
+    return span.endPortion ?? "full";
+  }
+  return "full";
+}
+
+// Morning and afternoon halves of the same day can be taken separately, and
+// hourly leave fits alongside anything short of a full day
+function usagesClash(a: DayUsage, b: DayUsage): boolean {
+  if (a === "full" || b === "full") {
+    return true;
+  }
+  return a !== "hours" && a === b;
+}
+
+function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+export function leaveSpansOverlap(a: OverlapSpan, b: OverlapSpan): boolean {
+  const from = a.startDate > b.startDate ? a.startDate : b.startDate;
+  const to = a.endDate < b.endDate ? a.endDate : b.endDate;
+
+  for (let date = from; date <= to; date = nextDate(date)) {
+    if (usagesClash(usageOn(a, date), usageOn(b, date))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// The pending or approved requests that `span` clashes with, ignoring `excludeId`
+// (the request being edited)
+export function findOverlappingRequests<T extends OverlapCandidate>(
+  span: OverlapSpan,
+  requests: T[],
+  excludeId?: string
+): T[] {
+  return requests.filter((request) =>
+    request.id !== excludeId
+    && (OVERLAP_BLOCKING_STATUSES as string[]).includes(request.status)
+    && leaveSpansOverlap(span, request)
+  );
+}
@@ -0,0 +1,82 @@
+// Kept free of database imports so the request form can grey out the same dates
+import type { BlackoutPeriod, LeaveTypeDefinition } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LeavePolicy {
+  leaveType: Pick<LeaveTypeDefinition, "name" | "minNoticeDays" | "maxConsecutiveDays">;
+  // The blackouts that cover the employee and the leave type
+  blackouts: Pick<BlackoutPeriod, "name" | "startDate" | "endDate">[];
+  today: string;
+}
+
+export interface LeavePolicyViolation {
+  field: "startDate" | "endDate";
+  message: string;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Whether a blackout covers an employee in `teamIds` (their team and the teams
+// above it) taking `leaveType`; without a leave type, blackouts of any type count
+export function blackoutApplies(
+  blackout: Pick<BlackoutPeriod, "teamId" | "leaveType">,
+  teamIds: string[],
+  leaveType?: string
+): boolean {
+  return (blackout.teamId == null || teamIds.includes(blackout.teamId))
+    && (leaveType === undefined || blackout.leaveType == null || blackout.leaveType === leaveType);
+}
+
+// The first date leave of this type may start on, given its notice
+export function earliestStartDate(policy: Pick<LeavePolicy, "leaveType" | "today">): string {
+  return addDays(policy.today, policy.leaveType.minNoticeDays ?? 0);
+}
+
+export function findLeavePolicyViolations(
+  span: { startDate: string; endDate: string },
+  policy: LeavePolicy
+): LeavePolicyViolation[] {
+  const { leaveType } = policy;
+  const violations: LeavePolicyViolation[] = [];
+
+  if (leaveType.minNoticeDays != null && daysBetween(policy.today, span.startDate) < leaveType.minNoticeDays) {
+    violations.push({
+      field: "startDate",
+      message: `${leaveType.name} needs ${leaveType.minNoticeDays} days' notice; the earliest start date is ${earliestStartDate(policy)}`,
+    });
+  }
+
+  if (leaveType.maxConsecutiveDays != null && daysBetween(span.startDate, span.endDate) + 1 > leaveType.maxConsecutiveDays) {
+    violations.push({
+      field: "endDate",
+      message: `${leaveType.name} can be taken for at most ${leaveType.maxConsecutiveDays} consecutive days`,
+    });
+  }
+
+  for (const blackout of policy.blackouts) {
+    if (blackout.startDate <= span.endDate && span.startDate <= blackout.endDate) {
+      violations.push({
+        field: "startDate",
+        message: `${leaveType.name} can't be booked during ${blackout.name} (${blackout.startDate} to ${blackout.endDate})`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Whether a request of `days` needs a supporting document before it is approved
+export function isAttachmentRequired(
+  leaveType: Pick<LeaveTypeDefinition, "requiresAttachment" | "attachmentRequiredAfterDays">,
+  days: number
+): boolean {
+  return leaveType.requiresAttachment
+    && (leaveType.attachmentRequiredAfterDays == null || days > leaveType.attachmentRequiredAfterDays);
+}
@@ -0,0 +1,202 @@
+import { and, eq } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import {
+  leaveRequestEvents,
+  leaveRequests,
+  leaveTransactions,
+  type LeaveRequest,
+  type LeaveRequestStatus,
+  type UpdateLeaveRequest,
+} from "./schema";
+import { describeLeaveDates, planSettlement } from "./leaveBalances";
+
+const UNIQUE_VIOLATION = "23505";
+
+export type LeaveRequestTransition =
+  | "edit"
+  | "approve"
+  | "reject"
+  | "withdraw"
+  | "request_cancellation"
+  | "approve_cancellation"
+  | "decline_cancellation";
+
+interface TransitionRule {
+  from: LeaveRequestStatus;
+  to: LeaveRequestStatus;
+  // Ledger reason when the transition releases the days held against the request
+  releases?: string;
+}
+
+// Every status change a leave request can go through. Days are held from
+// submission, so only the transitions that end the leave touch the ledger.
+export const LEAVE_REQUEST_TRANSITIONS: Record<LeaveRequestTransition, TransitionRule> = {
+  edit: { from: "pending", to: "pending" },
+  approve: { from: "pending", to: "approved" },
+  reject: { from: "pending", to: "rejected", releases: "rejected" },
+  withdraw: { from: "pending", to: "withdrawn", releases: "withdrawn" },
+  request_cancellation: { from: "approved", to: "cancellation_requested" },
+  approve_cancellation: { from: "cancellation_requested", to: "cancelled", releases: "cancelled" },
+  decline_cancellation: { from: "cancellation_requested", to: "approved" },
+};
+
+const TRANSITION_LABELS: Record<LeaveRequestTransition, string> = {
+  edit: "edit",
+  approve: "approve",
+  reject: "reject",
+  withdraw: "withdraw",
+  request_cancellation: "cancel",
+  approve_cancellation: "sign off the cancellation of",
+  decline_cancellation: "decline the cancellation of",
+};
+
+// Thrown for a transition the request's status doesn't allow; routes answer 409
+export class IllegalTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IllegalTransitionError";
+  }
+}
+
+export function canTransition(status: LeaveRequestStatus, transition: LeaveRequestTransition): boolean {
+  return LEAVE_REQUEST_TRANSITIONS[transition].from === status;
+}
+
+export function assertCanTransition(status: LeaveRequestStatus, transition: LeaveRequestTransition): void {
+  if (!canTransition(status, transition)) {
+    throw new IllegalTransitionError(
+      `Cannot ${TRANSITION_LABELS[transition]} a request that is ${status.replace(/_/g, " ")}`
+    );
+  }
+}
+
+// Every status change writes a keyed event, so of two writers racing to move a
+// request out of the same status the second fails on the key. A request leaves
+// pending only once; other statuses may be reached again, e.g. a declined
+// cancellation can be requested anew, so their keys count the earlier visits.
+async function transitionEventKey(
+  db: NeonHttpDatabase,
+  request: Pick<LeaveRequest, "id">,
+  rule: TransitionRule
+): Promise<string | null> {
+  if (rule.from === rule.to) {
+    return null;
+  }
+  if (rule.from === "pending") {
+    return `decided:${request.id}`;
+  }
+
+  const visits = await db
+    .select({ id: leaveRequestEvents.id })
+    .from(leaveRequestEvents)
+    .where(and(
+      eq(leaveRequestEvents.leaveRequestId, request.id),
+      eq(leaveRequestEvents.kind, "status_changed"),
+      eq(leaveRequestEvents.toStatus, rule.to)
+    ));
+  return `${rule.to}:${request.id}:${visits.length}`;
+}
+
+// Move `request` along `transition`, apply its balance side effects and add it to
+// the request's history, all in one batch. A request changed underneath us is a
+// 409 rather than a second refund. A null actor is a rule or job.
+export async function transitionLeaveRequest(
+  db: NeonHttpDatabase,
+  request: LeaveRequest,
+  transition: LeaveRequestTransition,
+  actorId: string | null,
+  detail?: string
+): Promise<LeaveRequest> {
+  const [first, ...rest] = await prepareTransition(db, request, transition, actorId, detail);
+
+  let updatedRequest: LeaveRequest | undefined;
+  try {
+    [[updatedRequest]] = await db.batch([first, ...rest]) as [LeaveRequest[], ...unknown[]];
+  } catch (error: any) {
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new IllegalTransitionError("Leave request was updated by someone else; reload and try again");
+    }
+    throw error;
+  }
+
+  if (!updatedRequest) {
+    throw new IllegalTransitionError("Leave request was updated by someone else; reload and try again");
+  }
+  return updatedRequest;
+}
+
+// The writes for editing a pending request, unexecuted so that its new hold and
+// approval steps can join the same batch. The batch claims, then frees, the key a
+// decision writes: it fails if the request was decided after it was read, and a
+// decision racing it waits until the edit is in.
+export function prepareEdit(
+  db: NeonHttpDatabase,
+  request: Pick<LeaveRequest, "id" | "status">,
+  changes: UpdateLeaveRequest,
+  actorId: string
+): [BatchItem<"pg">, ...BatchItem<"pg">[]] {
+  assertCanTransition(request.status, "edit");
+  const rule = LEAVE_REQUEST_TRANSITIONS.edit;
+  const decisionKey = `decided:${request.id}`;
+
+  return [
+    db
+      .update(leaveRequests)
+      .set(changes)
+      .where(and(eq(leaveRequests.id, request.id), eq(leaveRequests.status, rule.from)))
+      .returning(),
+    db.insert(leaveRequestEvents).values({
+      leaveRequestId: request.id,
+      kind: "status_changed",
+      fromStatus: rule.from,
+      toStatus: rule.to,
+      actorId,
+      idempotencyKey: decisionKey,
+    }),
+    db.delete(leaveRequestEvents).where(eq(leaveRequestEvents.idempotencyKey, decisionKey)),
+  ];
+}
+
+// The writes for moving a request along `transition`, unexecuted so that many can
+// run in one batch, including one that also creates the request. The status
+// update comes first and returns the updated request.
+export async function prepareTransition(
+  db: NeonHttpDatabase,
+  request: Pick<LeaveRequest, "id" | "userId" | "leaveType" | "status" | "startDate" | "endDate">,
+  transition: LeaveRequestTransition,
+  actorId: string | null,
+  detail?: string
+): Promise<[BatchItem<"pg">, ...BatchItem<"pg">[]]> {
+  assertCanTransition(request.status, transition);
+  const rule = LEAVE_REQUEST_TRANSITIONS[transition];
+
+  const writes: [BatchItem<"pg">, ...BatchItem<"pg">[]] = [
+    db
+      .update(leaveRequests)
+      .set({ status: rule.to })
+      .where(and(eq(leaveRequests.id, request.id), eq(leaveRequests.status, rule.from)))
+      .returning(),
+    db.insert(leaveRequestEvents).values({
+      leaveRequestId: request.id,
+      kind: "status_changed",
+      fromStatus: rule.from,
+      toStatus: rule.to,
+      detail: detail ?? null,
+      actorId,
+      idempotencyKey: await transitionEventKey(db, request, rule),
+    }),
+  ];
+
+  if (rule.releases) {
+    const entries = await planSettlement(db, request, 0, {
+      reason: `Request ${describeLeaveDates(request)} ${rule.releases}`,
+      createdById: actorId,
+    });
+    if (entries.length > 0) {
+      writes.push(db.insert(leaveTransactions).values(entries));
+    }
+  }
+
+  return writes;
+}
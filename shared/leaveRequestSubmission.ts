@@ -0,0 +1,117 @@
+import { randomUUID } from "crypto";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import {
+  leaveRequests,
+  leaveRequestSeries,
+  leaveTransactions,
+  type InsertLeaveRequest,
+  type LeaveRecurrence,
+  type LeaveRequest,
+  type LeaveRequestSeries,
+  type LeaveTypeDefinition,
+  type User,
+} from "./schema";
+import { describeLeaveDates } from "./leaveBalances";
+import { findAutoApprovalRule, getAutoApprovalRules } from "./autoApproval";
+import { isAttachmentRequired } from "./leavePolicies";
+import { getApprovalChains, prepareApprovals } from "./approvals";
+import { prepareTransition } from "./leaveRequestStatus";
+
+export interface LeaveRequestOccurrence {
+  span: InsertLeaveRequest;
+  days: number;
+  // Approvers should first see that it leaves the team short
+  leavesTeamShort: boolean;
+}
+
+export interface LeaveRequestSubmission {
+  employee: Pick<User, "id" | "name" | "managerId" | "hireDate">;
+  actor: Pick<User, "id" | "name">;
+  leaveType: LeaveTypeDefinition;
+  occurrences: LeaveRequestOccurrence[];
+  recurrence: LeaveRecurrence | null | undefined;
+  // Leave recorded by an admin or manager as already approved
+  skipApproval: boolean;
+}
+
+// Create a request, or every occurrence of a recurring one, with its balance
+// holds and its approval steps or approval. Everything is written in one batch,
+// so a failure part way leaves no half-created series behind.
+export async function submitLeaveRequests(
+  db: NeonHttpDatabase,
+  { employee, actor, leaveType, occurrences, recurrence, skipApproval }: LeaveRequestSubmission
+): Promise<{ series: LeaveRequestSeries | null; requests: LeaveRequest[] }> {
+  const seriesId = recurrence ? randomUUID() : null;
+  const writes: BatchItem<"pg">[] = [];
+  if (recurrence) {
+    writes.push(db.insert(leaveRequestSeries).values({ id: seriesId!, userId: employee.id, ...recurrence }).returning());
+  }
+
+  // Read once for the whole series; recorded leave needs neither
+  const rules = skipApproval ? [] : await getAutoApprovalRules(db);
+  const chains = skipApproval ? [] : await getApprovalChains(db);
+
+  // The write whose returned row is the occurrence as created: its insert, or
+  // the update approving it
+  const requestWrites: number[] = [];
+  for (const occurrence of occurrences) {
+    // Requests meeting an auto-approval rule skip review altogether, unless
+    // an approver should first see that they leave the team short, or they
+    // wait on a supporting document
+    const autoApprovalRule = skipApproval
+      || occurrence.leavesTeamShort
+      || isAttachmentRequired(leaveType, occurrence.days)
+      ? null
+      : await findAutoApprovalRule(db, rules, employee, occurrence.span, occurrence.days);
+
+    const request = {
+      ...occurrence.span,
+      id: randomUUID(),
+      status: "pending" as const,
+      autoApprovalRuleId: autoApprovalRule?.id ?? null,
+      autoApprovalRuleName: autoApprovalRule?.name ?? null,
+      createdById: actor.id,
+      seriesId,
+    };
+    writes.push(db.insert(leaveRequests).values(request).returning());
+    let requestWrite = writes.length - 1;
+
+    // Hold the days against the leave type's balance; a new request holds
+    // nothing yet, so that is a single debit
+    if (leaveType.deductsBalance) {
+      writes.push(db.insert(leaveTransactions).values({
+        userId: employee.id,
+        leaveType: leaveType.key,
+        kind: "debit",
+        amount: -occurrence.days,
+        reason: `Leave request ${describeLeaveDates(request)}`,
+        leaveRequestId: request.id,
+        createdById: actor.id,
+      }));
+    }
+
+    if (skipApproval || autoApprovalRule) {
+      requestWrite = writes.length;
+      writes.push(...(await prepareTransition(
+        db,
+        request,
+        "approve",
+        skipApproval ? actor.id : null,
+        skipApproval
+          ? `Entered by ${actor.name} on behalf of ${employee.name}`
+          : `Approved automatically by the "${autoApprovalRule!.name}" rule`
+      )));
+    } else {
+      writes.push(...prepareApprovals(db, chains, employee, request.id, leaveType, occurrence.days));
+    }
+    requestWrites.push(requestWrite);
+  }
+
+  const written = await db.batch(writes as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+  const [series] = recurrence ? written[0] as LeaveRequestSeries[] : [null];
+  return {
+    series,
+    requests: requestWrites.map((index) => (written[index] as LeaveRequest[])[0]),
+  };
+}
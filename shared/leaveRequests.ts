@@ -0,0 +1,125 @@
+import { and, asc, eq, gte, inArray, lte } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { leaveRequestComments, leaveRequestEvents, leaveRequests, users, type Role } from "./schema";
+import { findOverlappingRequests, OVERLAP_BLOCKING_STATUSES, type OverlapSpan } from "./leaveOverlap";
+
+// The user's pending or approved requests that clash with `span`, for a 409 response
+export async function findConflictingLeaveRequests(
+  db: NeonHttpDatabase,
+  userId: string,
+  span: OverlapSpan,
+  excludeId?: string
+) {
+  const candidates = await db
+    .select({
+      id: leaveRequests.id,
+      startDate: leaveRequests.startDate,
+      endDate: leaveRequests.endDate,
+      startPortion: leaveRequests.startPortion,
+      endPortion: leaveRequests.endPortion,
+      hours: leaveRequests.hours,
+      leaveType: leaveRequests.leaveType,
+      status: leaveRequests.status,
+    })
+    .from(leaveRequests)
+    .where(and(
+      eq(leaveRequests.userId, userId),
+      inArray(leaveRequests.status, OVERLAP_BLOCKING_STATUSES),
+      lte(leaveRequests.startDate, span.endDate),
+      gte(leaveRequests.endDate, span.startDate)
+    ));
+
+  return findOverlappingRequests(span, candidates, excludeId);
+}
+
+// Everyone below `managerId` in the reporting chain, direct and indirect
+export async function getReportIds(db: NeonHttpDatabase, managerId: string): Promise<string[]> {
+  const rows = await db.select({ id: users.id, managerId: users.managerId }).from(users);
+
+  const reportsByManager = new Map<string, string[]>();
+  for (const row of rows) {
+    if (row.managerId) {
+      reportsByManager.set(row.managerId, [...(reportsByManager.get(row.managerId) ?? []), row.id]);
+    }
+  }
+
+  const reports = new Set<string>();
+  const queue = [managerId];
+  while (queue.length > 0) {
+    for (const reportId of reportsByManager.get(queue.shift()!) ?? []) {
+      if (reportId !== managerId && !reports.has(reportId)) {
+        reports.add(reportId);
+        queue.push(reportId);
+      }
+    }
+  }
+  return Array.from(reports);
+}
+
+// Admins review every request; managers only those of their reports, never their own
+export async function canReviewLeaveRequest(
+  db: NeonHttpDatabase,
+  reviewer: { id: string; role: Role },
+  employeeId: string
+): Promise<boolean> {
+  if (reviewer.role === "admin") {
+    return true;
+  }
+  if (reviewer.role !== "manager") {
+    return false;
+  }
+  return (await getReportIds(db, reviewer.id)).includes(employeeId);
+}
+
+// A request's comment thread, oldest first, with author names
+export async function getLeaveRequestComments(db: NeonHttpDatabase, leaveRequestId: string) {
+  return db
+    .select({
+      id: leaveRequestComments.id,
+      body: leaveRequestComments.body,
+      createdAt: leaveRequestComments.createdAt,
+      author: {
+        id: users.id,
+        name: users.name,
+        role: users.role,
+      },
+    })
+    .from(leaveRequestComments)
+    .innerJoin(users, eq(leaveRequestComments.authorId, users.id))
+    .where(eq(leaveRequestComments.leaveRequestId, leaveRequestId))
+    .orderBy(asc(leaveRequestComments.createdAt));
+}
+
+// A request's history of status changes, reminders and escalations, oldest first
+export async function getLeaveRequestHistory(db: NeonHttpDatabase, leaveRequestId: string) {
+  const rows = await db
+    .select({
+      event: leaveRequestEvents,
+      actor: { id: users.id, name: users.name },
+    })
+    .from(leaveRequestEvents)
+    .leftJoin(users, eq(leaveRequestEvents.actorId, users.id))
+    .where(eq(leaveRequestEvents.leaveRequestId, leaveRequestId))
+    .orderBy(asc(leaveRequestEvents.createdAt));
+
+  return rows.map(({ event, actor }) => ({
+    id: event.id,
+    kind: event.kind,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    detail: event.detail,
+    createdAt: event.createdAt,
+    actor,
+  }));
+}
+
+// The occurrences of a recurring request still waiting on a decision
+export async function getPendingSeriesRequestIds(db: NeonHttpDatabase, seriesId: string): Promise<string[]> {
+  const rows = await db
+    .select({ id: leaveRequests.id })
+    .from(leaveRequests)
+    .where(and(eq(leaveRequests.seriesId, seriesId), eq(leaveRequests.status, "pending")))
+    .orderBy(asc(leaveRequests.startDate));
+
+  return rows.map((row) => row.id);
+}
@@ -0,0 +1,42 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { leaveTypes, type InsertLeaveType, type LeaveTypeDefinition } from "./schema";
+
+// Leave types every installation starts with; admins can edit or add to them
+export const DEFAULT_LEAVE_TYPES: InsertLeaveType[] = [
+  { key: "annual", name: "Annual Leave", color: "#3b82f6", defaultEntitlement: 25 },
+  { key: "sick", name: "Sick Leave", color: "#ef4444", defaultEntitlement: 10 },
+  { key: "personal", name: "Personal Leave", color: "#8b5cf6", defaultEntitlement: 3 },
+  { key: "emergency", name: "Emergency Leave", color: "#f59e0b", defaultEntitlement: 3 },
+];
+
+export async function ensureDefaultLeaveTypes(db: NeonHttpDatabase): Promise<void> {
+  await db
+    .insert(leaveTypes)
+    .values(DEFAULT_LEAVE_TYPES)
+    .onConflictDoNothing({ target: leaveTypes.key });
+}
+
+export async function getLeaveTypes(
+  db: NeonHttpDatabase,
+  { includeInactive = false } = {}
+): Promise<LeaveTypeDefinition[]> {
+  return db
+    .select()
+    .from(leaveTypes)
+    .where(includeInactive ? undefined : eq(leaveTypes.active, true))
+    .orderBy(asc(leaveTypes.createdAt));
+}
+
+// An active leave type by key, or undefined if it does not exist or was retired
+export async function getActiveLeaveType(
+  db: NeonHttpDatabase,
+  key: string
+): Promise<LeaveTypeDefinition | undefined> {
+  const [leaveType] = await db
+    .select()
+    .from(leaveTypes)
+    .where(and(eq(leaveTypes.key, key), eq(leaveTypes.active, true)))
+    .limit(1);
+  return leaveType;
+}
@@ -0,0 +1,344 @@
+import { and, eq, gte, inArray, isNotNull, like, lt, lte, sql } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { carryOverRules, leaveTransactions, users, type LeaveType } from "./schema";
+import {
+  getEarnedLeaveTypes,
+  getAllLeaveBalances,
+  getLeaveBalances,
+  type LeaveTransactionInput,
+} from "./leaveBalances";
+import { today } from "./accruals";
+import { getLeaveTypes } from "./leaveTypes";
+import { addMonths, roundDays } from "./leaveDuration";
+import {
+  getEntitlementBasis,
+  getStatutoryEntitlement,
+  previewStatutoryEntitlement,
+  type EntitlementEmployee,
+  type EntitlementPreview,
+} from "./entitlements";
+
+export const DEFAULT_LEAVE_YEAR_START = "01-01";
+
+export interface LeaveYear {
+  year: number;
+  start: string;
+  end: string;
+  // First day of the following leave year
+  nextStart: string;
+}
+
+export interface YearEndLeaveType {
+  leaveType: LeaveType;
+  balance: number;
+  carry: number;
+  expire: number;
+  reset: number;
+  carryExpiresOn: string | null;
+}
+
+export interface YearEndEmployee {
+  userId: string;
+  name: string;
+  leaveTypes: YearEndLeaveType[];
+}
+
+export interface YearEndPreview extends LeaveYear {
+  closed: boolean;
+  employees: YearEndEmployee[];
+}
+
+export interface LeaveJobResult {
+  posted: number;
+  skipped: number;
+}
+
+function toUTCDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Parse a "MM-DD" leave year start; Feb 29 is rejected since it does not occur every year
+export function parseLeaveYearStart(value: string | undefined): string {
+  const match = value?.trim().match(/^(\d{2})-(\d{2})$/);
+  if (!match) {
+    return DEFAULT_LEAVE_YEAR_START;
+  }
+
+  const date = toUTCDate(`2001-${match[1]}-${match[2]}`);
+  return !isNaN(date.getTime()) && toDateString(date) === `2001-${match[1]}-${match[2]}`
+    ? `${match[1]}-${match[2]}`
+    : DEFAULT_LEAVE_YEAR_START;
+}
+
+export function getLeaveYearStart(): string {
+  return parseLeaveYearStart(process.env.LEAVE_YEAR_START);
+}
+
+// Leave years are named after the calendar year they start in
+export function getLeaveYear(year: number, yearStart: string = getLeaveYearStart()): LeaveYear {
+  const start = `${year}-${yearStart}`;
+  const nextStart = `${year + 1}-${yearStart}`;
+  const end = toDateString(new Date(toUTCDate(nextStart).getTime() - 24 * 60 * 60 * 1000));
+  return { year, start, end, nextStart };
+}
+
+export function getLeaveYearContaining(date: string, yearStart: string = getLeaveYearStart()): LeaveYear {
+  const year = Number(date.slice(0, 4));
+  return date < `${year}-${yearStart}` ? getLeaveYear(year - 1, yearStart) : getLeaveYear(year, yearStart);
+}
+
+function yearEndKey(year: number, userId: string, leaveType: LeaveType, step: string): string {
+  return `year-end:${year}:${userId}:${leaveType}:${step}`;
+}
+
+// What closing a leave year would do, per employee and leave type. Only leave
+// types with a carry-over rule are closed; the rest roll forward untouched.
+export async function previewYearEndClose(db: NeonHttpDatabase, year: number): Promise<YearEndPreview> {
+  const leaveYear = getLeaveYear(year);
+
+  const rules = await db.select().from(carryOverRules);
+  const employees = await db
+    .select({ id: users.id, name: users.name, terminationDate: users.terminationDate })
+    .from(users)
+    .orderBy(users.name);
+  const balances = await getAllLeaveBalances(db, toUTCDate(leaveYear.nextStart));
+  const earnedTypes = await getEarnedLeaveTypes(db);
+  const entitlements = new Map(
+    (await getLeaveTypes(db)).map((leaveType) => [leaveType.key, leaveType.defaultEntitlement])
+  );
+
+  const [closeEntry] = await db
+    .select({ id: leaveTransactions.id })
+    .from(leaveTransactions)
+    .where(like(leaveTransactions.idempotencyKey, `year-end:${year}:%`))
+    .limit(1);
+
+  return {
+    ...leaveYear,
+    closed: !!closeEntry,
+    employees: employees.map((employee) => {
+      const leftBeforeNextYear = !!employee.terminationDate && employee.terminationDate < leaveYear.nextStart;
+
+      return {
+        userId: employee.id,
+        name: employee.name,
+        leaveTypes: rules.map((rule) => {
+          const balance = balances.get(employee.id)?.[rule.leaveType] ?? 0;
+          // An overdrawn balance is carried as a debt rather than expired
+          const carry = balance > 0 ? Math.min(balance, rule.maxDays) : balance;
+          const expire = balance > 0 ? roundDays(balance - carry) : 0;
+          const reset = earnedTypes.has(rule.leaveType) || leftBeforeNextYear
+            ? 0
+            : entitlements.get(rule.leaveType) ?? 0;
+
+          return {
+            leaveType: rule.leaveType,
+            balance,
+            carry,
+            expire,
+            reset,
+            carryExpiresOn: rule.expiryMonths && carry > 0
+              ? addMonths(leaveYear.nextStart, rule.expiryMonths)
+              : null,
+          };
+        }),
+      };
+    }),
+  };
+}
+
+// Apply the year-end close. Each step has an idempotency key, so closing the
+// same year twice posts nothing new.
+export async function closeLeaveYear(
+  db: NeonHttpDatabase,
+  year: number,
+  createdById: string | null = null
+): Promise<YearEndPreview & LeaveJobResult> {
+  const preview = await previewYearEndClose(db, year);
+  const entries: LeaveTransactionInput[] = [];
+
+  for (const employee of preview.employees) {
+    for (const plan of employee.leaveTypes) {
+      const base = { userId: employee.userId, leaveType: plan.leaveType, createdById };
+
+      // Close out the whole positive balance, then bring back the capped carry-over
+      if (plan.balance > 0) {
+        entries.push({
+          ...base,
+          kind: "expiry",
+          amount: -plan.balance,
+          reason: `Leave year ${year} closed`,
+          idempotencyKey: yearEndKey(year, employee.userId, plan.leaveType, "close"),
+        });
+      }
+      if (plan.balance > 0 && plan.carry > 0) {
+        entries.push({
+          ...base,
+          kind: "carry_over",
+          amount: plan.carry,
+          reason: `Carried over from leave year ${year}`,
+          idempotencyKey: yearEndKey(year, employee.userId, plan.leaveType, "carry"),
+          expiresOn: plan.carryExpiresOn,
+        });
+      }
+      if (plan.reset > 0) {
+        entries.push({
+          ...base,
+          kind: "grant",
+          amount: plan.reset,
+          reason: `Leave year ${year + 1} entitlement`,
+          idempotencyKey: yearEndKey(year, employee.userId, plan.leaveType, "reset"),
+        });
+      }
+    }
+  }
+
+  let posted = 0;
+  for (let i = 0; i < entries.length; i += 500) {
+    const inserted = await db
+      .insert(leaveTransactions)
+      .values(entries.slice(i, i + 500))
+      .onConflictDoNothing({ target: leaveTransactions.idempotencyKey })
+      .returning({ id: leaveTransactions.id });
+    posted += inserted.length;
+  }
+
+  return { ...preview, closed: true, posted, skipped: entries.length - posted };
+}
+
+// Expire carried-over days that were not used before their expiry date.
+// Leave taken after the close is treated as using carried days first.
+export async function expireCarriedOverLeave(
+  db: NeonHttpDatabase,
+  asOf: string = today()
+): Promise<LeaveJobResult & { asOf: string }> {
+  const due = await db
+    .select()
+    .from(leaveTransactions)
+    .where(and(
+      eq(leaveTransactions.kind, "carry_over"),
+      lte(leaveTransactions.expiresOn, asOf)
+    ));
+
+  const expired = await db
+    .select({ idempotencyKey: leaveTransactions.idempotencyKey })
+    .from(leaveTransactions)
+    .where(like(leaveTransactions.idempotencyKey, "carry-expiry:%"));
+  const expiredKeys = new Set(expired.map((row) => row.idempotencyKey));
+
+  let posted = 0;
+  let skipped = 0;
+
+  for (const carried of due) {
+    const idempotencyKey = `carry-expiry:${carried.id}`;
+    if (expiredKeys.has(idempotencyKey)) {
+      skipped++;
+      continue;
+    }
+
+    const [usage] = await db
+      .select({
+        used: sql<number>`coalesce(sum(${leaveTransactions.amount}), 0)`.mapWith(Number),
+      })
+      .from(leaveTransactions)
+      .where(and(
+        eq(leaveTransactions.userId, carried.userId),
+        eq(leaveTransactions.leaveType, carried.leaveType),
+        inArray(leaveTransactions.kind, ["debit", "refund"]),
+        gte(leaveTransactions.createdAt, carried.createdAt),
+        lt(leaveTransactions.createdAt, toUTCDate(carried.expiresOn!))
+      ));
+
+    const balances = await getLeaveBalances(db, carried.userId);
+    const unused = Math.max(0, carried.amount + Math.min(0, usage.used));
+    const amount = roundDays(Math.min(unused, balances[carried.leaveType] ?? 0));
+
+    if (amount <= 0) {
+      continue;
+    }
+
+    const inserted = await db
+      .insert(leaveTransactions)
+      .values({
+        userId: carried.userId,
+        leaveType: carried.leaveType,
+        kind: "expiry",
+        amount: -amount,
+        reason: `Unused carry-over expired on ${carried.expiresOn}`,
+        idempotencyKey,
+      })
+      .onConflictDoNothing({ target: leaveTransactions.idempotencyKey })
+      .returning({ id: leaveTransactions.id });
+
+    if (inserted.length > 0) {
+      posted++;
+    } else {
+      skipped++;
+    }
+  }
+
+  return { asOf, posted, skipped };
+}
+
+// The employee's statutory entitlement under the configured scheme, or null when none is set
+export function getEntitlementPreview(
+  employee: EntitlementEmployee,
+  asOf: string = today()
+): EntitlementPreview | null {
+  const rule = getStatutoryEntitlement();
+  return rule
+    ? previewStatutoryEntitlement(rule, employee, asOf, getEntitlementBasis(), getLeaveYearStart())
+    : null;
+}
+
+// Post statutory annual-leave grants that have fallen due, such as the yearly
+// allotment on a hire anniversary or the monthly days of the first year
+export async function applyStatutoryEntitlements(
+  db: NeonHttpDatabase,
+  asOf: string = today()
+): Promise<LeaveJobResult & { asOf: string }> {
+  const rule = getStatutoryEntitlement();
+  if (!rule) {
+    return { asOf, posted: 0, skipped: 0 };
+  }
+
+  const employees = await db
+    .select({
+      id: users.id,
+      hireDate: users.hireDate,
+      terminationDate: users.terminationDate,
+      entitlementOverride: users.entitlementOverride,
+    })
+    .from(users)
+    .where(isNotNull(users.hireDate));
+
+  const entries: LeaveTransactionInput[] = employees.flatMap((employee) =>
+    getEntitlementPreview(employee, asOf)!.grants.map((grant) => ({
+      userId: employee.id,
+      leaveType: rule.leaveType,
+      kind: "grant" as const,
+      amount: grant.amount,
+      reason: grant.reason,
+      idempotencyKey: grant.idempotencyKey,
+    }))
+  );
+
+  // Each chunk is its own insert, so a failure can leave some grants posted and
+  // others not. That is safe: every grant has an idempotency key, so running the
+  // job again posts only the missing ones.
+  let posted = 0;
+  for (let i = 0; i < entries.length; i += 500) {
+    const inserted = await db
+      .insert(leaveTransactions)
+      .values(entries.slice(i, i + 500))
+      .onConflictDoNothing({ target: leaveTransactions.idempotencyKey })
+      .returning({ id: leaveTransactions.id });
+    posted += inserted.length;
+  }
+
+  return { asOf, posted, skipped: entries.length - posted };
+}
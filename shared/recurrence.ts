@@ -0,0 +1,79 @@
+// Kept free of database imports so the request form can preview a series
+import type { LeaveRecurrence } from "./schema";
+import { leaveSpansOverlap, type OverlapSpan } from "./leaveOverlap";
+
+export const MAX_OCCURRENCES = 52;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUTCDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return formatDate(new Date(toUTCDate(date).getTime() + days * DAY_MS));
+}
+
+// The `week`th `weekday` of the month, or null when the month has no such day
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, week: number): string | null {
+  // Date.UTC rolls months past December into the following years
+  const first = new Date(Date.UTC(year, month, 1));
+  const day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7;
+  const date = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), day));
+  return date.getUTCMonth() === first.getUTCMonth() ? formatDate(date) : null;
+}
+
+// Start dates of a series beginning on `startDate`. Monthly series keep the
+// weekday and its week of the month, so the first Monday stays the first
+// Monday; months without a fifth such weekday are skipped.
+export function getOccurrenceDates(startDate: string, recurrence: LeaveRecurrence): string[] {
+  const limit = Math.min(recurrence.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const interval = recurrence.interval ?? 1;
+  const start = toUTCDate(startDate);
+  const weekday = start.getUTCDay();
+  const week = Math.ceil(start.getUTCDate() / 7);
+
+  const dates: string[] = [];
+  // Skipped months count towards the bound so a bad rule can't loop forever
+  for (let index = 0; dates.length < limit && index < MAX_OCCURRENCES * 2; index++) {
+    const date = recurrence.frequency === "weekly"
+      ? addDays(startDate, index * interval * 7)
+      : nthWeekdayOfMonth(start.getUTCFullYear(), start.getUTCMonth() + index * interval, weekday, week);
+
+    if (date && recurrence.until && date > recurrence.until) {
+      break;
+    }
+    if (date) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// One span per occurrence, each as long as the first and with its portions and hours
+export function expandRecurrence<T extends OverlapSpan>(span: T, recurrence: LeaveRecurrence): T[] {
+  const length = Math.round((toUTCDate(span.endDate).getTime() - toUTCDate(span.startDate).getTime()) / DAY_MS);
+  return getOccurrenceDates(span.startDate, recurrence).map((startDate) => ({
+    ...span,
+    startDate,
+    endDate: addDays(startDate, length),
+  }));
+}
+
+// An occurrence running into the next one means the span is longer than the period
+export function occurrencesOverlap(occurrences: OverlapSpan[]): boolean {
+  return occurrences.some((occurrence, index) => index > 0 && leaveSpansOverlap(occurrences[index - 1], occurrence));
+}
+
+// e.g. "every 2 weeks, 10 times" or "monthly until 2026-06-30"
+export function describeRecurrence(recurrence: Pick<LeaveRecurrence, "frequency" | "interval" | "count" | "until">): string {
+  const unit = recurrence.frequency === "weekly" ? "week" : "month";
+  const period = (recurrence.interval ?? 1) === 1
+    ? (recurrence.frequency === "weekly" ? "weekly" : "monthly")
+    : `every ${recurrence.interval} ${unit}s`;
+  return recurrence.count != null ? `${period}, ${recurrence.count} times` : `${period} until ${recurrence.until}`;
+}
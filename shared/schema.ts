@@ -1,12 +1,40 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, boolean, pgEnum, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { findLeavePolicyViolations, type LeavePolicy } from "./leavePolicies";
 
 // Enums
-export const roleEnum = pgEnum("role", ["admin", "employee"]);
-export const leaveTypeEnum = pgEnum("leave_type", ["annual", "sick", "personal", "emergency"]);
-export const statusEnum = pgEnum("status", ["pending", "approved", "rejected"]);
+export const roleEnum = pgEnum("role", ["admin", "manager", "employee"]);
+export const statusEnum = pgEnum("status", [
+  "pending",
+  "approved",
+  "rejected",
+  // Pending requests the employee took back before anyone decided them
+  "withdrawn",
+  "cancelled",
+  // Approved leave the employee wants to cancel; still held until an approver signs off
+  "cancellation_requested",
+]);
+export const dayPortionEnum = pgEnum("day_portion", ["full", "am", "pm"]);
+export const leaveTransactionKindEnum = pgEnum("leave_transaction_kind", [
+  "grant",
+  "accrual",
+  "debit",
+  "refund",
+  "adjustment",
+  "carry_over",
+  "expiry",
+]);
+export const accrualFrequencyEnum = pgEnum("accrual_frequency", ["monthly", "pay_period"]);
+export const approvalStepStatusEnum = pgEnum("approval_step_status", ["pending", "approved", "rejected"]);
+export const leaveRequestEventKindEnum = pgEnum("leave_request_event_kind", [
+  "status_changed",
+  "reminder_sent",
+  "escalated",
+]);
+export const recurrenceFrequencyEnum = pgEnum("recurrence_frequency", ["weekly", "monthly"]);
+export const coverageEnforcementEnum = pgEnum("coverage_enforcement", ["warn", "block"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -15,7 +43,52 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   role: roleEnum("role").notNull().default("employee"),
-  leaveBalance: integer("leave_balance").notNull().default(25),
+  // Line manager; managers review requests from everyone below them in this chain
+  managerId: varchar("manager_id").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
+  holidayCalendar: text("holiday_calendar").notNull().default("default"),
+  // Employment dates (YYYY-MM-DD) used to pro-rate accruals
+  hireDate: text("hire_date"),
+  terminationDate: text("termination_date"),
+  // Replaces the statutory yearly annual-leave allotment when set
+  entitlementOverride: real("entitlement_override"),
+  // The team the user belongs to; teams nest, so this also places them in its department
+  teamId: varchar("team_id").references((): AnyPgColumn => teams.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Teams table: departments are teams without a parent, and teams nest below them
+export const teams = pgTable("teams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  parentId: varchar("parent_id").references((): AnyPgColumn => teams.id, { onDelete: "set null" }),
+  leadId: varchar("lead_id").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
+  // Minimum staffing: how many members, sub-teams included, must be present on
+  // a working day, and whether leave that breaches it is refused or only flagged
+  minimumPresent: integer("minimum_present"),
+  coverageEnforcement: coverageEnforcementEnum("coverage_enforcement").notNull().default("warn"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Leave types table: admin-defined kinds of leave, referenced by their key
+export const leaveTypes = pgTable("leave_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#3b82f6"),
+  deductsBalance: boolean("deducts_balance").notNull().default(true),
+  requiresAttachment: boolean("requires_attachment").notNull().default(false),
+  // With requiresAttachment, only requests longer than this many days need a
+  // document; null means every request does
+  attachmentRequiredAfterDays: integer("attachment_required_after_days"),
+  paid: boolean("paid").notNull().default(true),
+  // Days granted when an employee joins and again at each leave-year reset
+  defaultEntitlement: real("default_entitlement").notNull().default(0),
+  // Booking rules: calendar days between submission and the first day of leave,
+  // and the most calendar days one request may span
+  minNoticeDays: integer("min_notice_days"),
+  maxConsecutiveDays: integer("max_consecutive_days"),
+  // Inactive types keep their history but can no longer be requested
+  active: boolean("active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -25,38 +98,567 @@ export const leaveRequests = pgTable("leave_requests", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   startDate: text("start_date").notNull(),
   endDate: text("end_date").notNull(),
-  leaveType: leaveTypeEnum("leave_type").notNull(),
+  // Half days: "am"/"pm" takes only that half of the first or last day off
+  startPortion: dayPortionEnum("start_portion").notNull().default("full"),
+  endPortion: dayPortionEnum("end_portion").notNull().default("full"),
+  // Hourly leave on a single day; null for day-based requests
+  hours: real("hours"),
+  leaveType: text("leave_type").notNull().references(() => leaveTypes.key),
   reason: text("reason").notNull(),
   status: statusEnum("status").notNull().default("pending"),
+  // The auto-approval rule that approved the request at submission, with its
+  // name copied so the record survives the rule being renamed or deleted
+  autoApprovalRuleId: varchar("auto_approval_rule_id").references(() => autoApprovalRules.id, { onDelete: "set null" }),
+  autoApprovalRuleName: text("auto_approval_rule_name"),
+  // Who entered the request; an admin or manager when filed on the employee's behalf
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  // Set on every occurrence of a recurring request
+  seriesId: varchar("series_id").references(() => leaveRequestSeries.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Recurring leave: the rule a series was expanded from. Each occurrence is a
+// leave request of its own, held, reviewed and cancelled separately.
+export const leaveRequestSeries = pgTable("leave_request_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  frequency: recurrenceFrequencyEnum("frequency").notNull(),
+  // Every `interval` weeks, or months on the same weekday of the month, e.g. first Monday
+  interval: integer("interval").notNull().default(1),
+  // Either the number of occurrences or the last date an occurrence may start
+  count: integer("count"),
+  until: text("until"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Leave transactions table: append-only ledger, balances are the sum of amounts
+export const leaveTransactions = pgTable("leave_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  leaveType: text("leave_type").notNull().references(() => leaveTypes.key),
+  kind: leaveTransactionKindEnum("kind").notNull(),
+  amount: real("amount").notNull(),
+  reason: text("reason").notNull(),
+  leaveRequestId: varchar("leave_request_id").references(() => leaveRequests.id, { onDelete: "set null" }),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  // Set for automated entries so re-running a job never posts the same entry twice
+  idempotencyKey: text("idempotency_key").unique(),
+  // Carried-over days that are still unused on this date are expired
+  expiresOn: text("expires_on"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Accrual policies table: days earned per month or per pay period
+export const accrualPolicies = pgTable("accrual_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  leaveType: text("leave_type").notNull().references(() => leaveTypes.key),
+  frequency: accrualFrequencyEnum("frequency").notNull().default("monthly"),
+  amount: real("amount").notNull(),
+  // Length of a pay period; pay periods are counted from effectiveFrom
+  payPeriodDays: integer("pay_period_days"),
+  effectiveFrom: text("effective_from").notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Carry-over rules table: how much of each leave type survives the year-end close
+export const carryOverRules = pgTable("carry_over_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaveType: text("leave_type").notNull().unique().references(() => leaveTypes.key),
+  maxDays: real("max_days").notNull().default(0),
+  // Months into the new leave year before carried days expire; null means they never do
+  expiryMonths: integer("expiry_months"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Approval chains table: ordered approval steps for the requests a chain matches.
+// The first active chain by priority whose conditions all hold is used.
+export const approvalChains = pgTable("approval_chains", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Conditions; null leaves the condition out
+  leaveType: text("leave_type").references(() => leaveTypes.key, { onDelete: "cascade" }),
+  // Applies to requests longer than this many days
+  minDays: real("min_days"),
+  unpaidOnly: boolean("unpaid_only").notNull().default(false),
+  priority: integer("priority").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Approval chain steps table: each step is decided by a role or by a named user.
+// The "manager" role means anyone above the employee in the reporting line.
+export const approvalChainSteps = pgTable("approval_chain_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: varchar("chain_id").notNull().references(() => approvalChains.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  approverRole: roleEnum("approver_role"),
+  approverId: varchar("approver_id").references(() => users.id, { onDelete: "cascade" }),
+}, (table) => [
+  unique("approval_chain_steps_chain_position_unique").on(table.chainId, table.position),
+]);
+
+// Leave request approvals table: the steps a request must pass, copied from its
+// chain when submitted so later chain edits leave it unchanged, with each decision
+export const leaveRequestApprovals = pgTable("leave_request_approvals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaveRequestId: varchar("leave_request_id").notNull().references(() => leaveRequests.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  approverRole: roleEnum("approver_role"),
+  approverId: varchar("approver_id").references(() => users.id, { onDelete: "set null" }),
+  status: approvalStepStatusEnum("status").notNull().default("pending"),
+  decidedById: varchar("decided_by_id").references(() => users.id, { onDelete: "set null" }),
+  // Set when a delegate decided in place of the approver
+  onBehalfOfId: varchar("on_behalf_of_id").references(() => users.id, { onDelete: "set null" }),
+  // The reason for a rejection, or an optional note with an approval
+  comment: text("comment"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("leave_request_approvals_request_position_unique").on(table.leaveRequestId, table.position),
+]);
+
+// Leave request comments table: discussion between the employee and approvers
+export const leaveRequestComments = pgTable("leave_request_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaveRequestId: varchar("leave_request_id").notNull().references(() => leaveRequests.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Leave request attachments table: supporting documents, e.g. a doctor's note.
+// The file itself lives in attachment storage under storageKey.
+export const leaveRequestAttachments = pgTable("leave_request_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaveRequestId: varchar("leave_request_id").notNull().references(() => leaveRequests.id, { onDelete: "cascade" }),
+  uploadedById: varchar("uploaded_by_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Leave request events table: the request's history. Status changes carry both
+// statuses; reminders and escalations name the approval step they were about.
+export const leaveRequestEvents = pgTable("leave_request_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaveRequestId: varchar("leave_request_id").notNull().references(() => leaveRequests.id, { onDelete: "cascade" }),
+  kind: leaveRequestEventKindEnum("kind").notNull(),
+  fromStatus: statusEnum("from_status"),
+  toStatus: statusEnum("to_status"),
+  position: integer("position"),
+  detail: text("detail"),
+  // Null for events posted by a background job or rule rather than a person
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  // Set for events that may only happen once (a request being decided, a job's
+  // reminder or escalation), so they can never be recorded twice
+  idempotencyKey: text("idempotency_key").unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Approval delegations table: the delegate may decide whatever the delegator could.
+// With dates it applies over that range; without, whenever the delegator has
+// approved leave covering the current day.
+export const approvalDelegations = pgTable("approval_delegations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  delegatorId: varchar("delegator_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  delegateId: varchar("delegate_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  startDate: text("start_date"),
+  endDate: text("end_date"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Auto-approval rules table: requests meeting every condition of an active rule
+// are approved at submission. Null leaves a condition out.
+export const autoApprovalRules = pgTable("auto_approval_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  leaveType: text("leave_type").references(() => leaveTypes.key, { onDelete: "cascade" }),
+  maxDays: real("max_days"),
+  // Calendar days between submission and the first day of leave
+  minNoticeDays: integer("min_notice_days"),
+  // Most teammates (employees sharing the manager) already on leave over the dates
+  maxTeamOnLeave: integer("max_team_on_leave"),
+  minTenureMonths: integer("min_tenure_months"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Approval SLA settings table: a single row, edited by admins, holding how long a
+// request may wait on one approver. Without it the environment defaults apply.
+export const approvalSlaSettings = pgTable("approval_sla_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  reminderHours: real("reminder_hours").notNull(),
+  escalationHours: real("escalation_hours").notNull(),
+  updatedById: varchar("updated_by_id").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Blackout periods: dates on which leave can't be booked, e.g. a quarter-end close
+export const blackoutPeriods = pgTable("blackout_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  // Organisation-wide when null; otherwise the team and the teams nested below it
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: "cascade" }),
+  // Every leave type when null
+  leaveType: text("leave_type").references(() => leaveTypes.key, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Holidays table (non-working days excluded from leave duration), keyed by regional calendar
+export const holidays = pgTable("holidays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  calendar: text("calendar").notNull().default("default"),
+  date: text("date").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("holidays_calendar_date_unique").on(table.calendar, table.date),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users, {
   email: z.string().email("Please enter a valid email address"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   name: z.string().min(1, "Name is required"),
-  leaveBalance: z.number().min(0, "Leave balance cannot be negative").optional(),
 }).omit({
   id: true,
+  managerId: true,
+  hireDate: true,
+  terminationDate: true,
+  entitlementOverride: true,
+  teamId: true,
   createdAt: true,
 });
 
-export const insertLeaveRequestSchema = createInsertSchema(leaveRequests, {
+// Employment dates are set by admins, never at registration
+export const updateEmploymentSchema = z.object({
+  hireDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Hire date must be in YYYY-MM-DD format").nullish(),
+  terminationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Termination date must be in YYYY-MM-DD format").nullish(),
+});
+
+export const updateTeamMembershipSchema = z.object({
+  teamId: z.string().min(1).nullable(),
+});
+
+export const updateManagerSchema = z.object({
+  managerId: z.string().min(1).nullable(),
+});
+
+export const updateRoleSchema = z.object({
+  role: z.enum(roleEnum.enumValues),
+});
+
+const leaveRequestFieldsSchema = createInsertSchema(leaveRequests, {
   startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
   endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format"),
+  hours: z.number().positive("Hours must be greater than 0").max(24, "Hours cannot exceed 24").nullish(),
+  leaveType: z.string().min(1, "Leave type is required"),
   reason: z.string().min(1, "Reason is required"),
 }).omit({
   id: true,
   status: true,
+  autoApprovalRuleId: true,
+  autoApprovalRuleName: true,
+  createdById: true,
+  seriesId: true,
   createdAt: true,
-}).refine((data) => new Date(data.endDate) >= new Date(data.startDate), {
+});
+
+type LeaveRequestFields = Pick<
+  z.infer<typeof leaveRequestFieldsSchema>,
+  "startDate" | "endDate" | "startPortion" | "endPortion" | "hours"
+>;
+
+function validateLeaveRequestDates(data: LeaveRequestFields, ctx: z.RefinementCtx) {
+  if (new Date(data.endDate) < new Date(data.startDate)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "End date must be after or equal to start date",
+      path: ["endDate"],
+    });
+  }
+
+  const singleDay = data.startDate === data.endDate;
+
+  if (data.hours != null) {
+    if (!singleDay) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Hourly leave must start and end on the same day",
+        path: ["hours"],
+      });
+    }
+    if ((data.startPortion ?? "full") !== "full" || (data.endPortion ?? "full") !== "full") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Hourly leave cannot be combined with a half day",
+        path: ["hours"],
+      });
+    }
+  }
+
+  if (singleDay && (data.endPortion ?? "full") !== (data.startPortion ?? "full")) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "A single-day request has one portion; use the first day setting",
+      path: ["endPortion"],
+    });
+  }
+}
+
+export const insertLeaveRequestSchema = leaveRequestFieldsSchema.superRefine(validateLeaveRequestDates);
+
+// insertLeaveRequestSchema plus the booking rules of the requested leave type:
+// its notice, its longest request and the blackouts covering the employee
+export function leaveRequestPolicySchema(policy: LeavePolicy) {
+  return insertLeaveRequestSchema.superRefine((data, ctx) => {
+    for (const violation of findLeavePolicyViolations(data, policy)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: violation.message,
+        path: [violation.field],
+      });
+    }
+  });
+}
+
+// Admins and managers filing for an employee, e.g. sick leave phoned in to HR.
+// Such requests may be backdated and recorded as approved without review.
+export const onBehalfLeaveRequestSchema = z.object({
+  userId: z.string().min(1).optional(),
+  skipApproval: z.boolean().default(false),
+});
+
+export const leaveRecurrenceSchema = z.object({
+  frequency: z.enum(recurrenceFrequencyEnum.enumValues),
+  interval: z.number().int().min(1, "Repeat at least every period").max(12).default(1),
+  count: z.number().int().min(2, "A series has at least 2 occurrences").max(52, "A series has at most 52 occurrences").nullish(),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format").nullish(),
+}).refine((data) => (data.count != null) !== (data.until != null), {
+  message: "Give either a number of occurrences or an end date",
+  path: ["count"],
+});
+
+export const recurringLeaveRequestSchema = z.object({
+  recurrence: leaveRecurrenceSchema.nullish(),
+});
+
+export const updateLeaveRequestSchema = leaveRequestFieldsSchema
+  .omit({ userId: true })
+  .superRefine(validateLeaveRequestDates);
+
+// Only the fields that determine a request's duration, e.g. for previews
+export const leaveSpanSchema = leaveRequestFieldsSchema
+  .pick({ startDate: true, endDate: true, startPortion: true, endPortion: true, hours: true })
+  .superRefine(validateLeaveRequestDates);
+
+export const insertLeaveTypeSchema = createInsertSchema(leaveTypes, {
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Key must be lowercase letters, digits or underscores"),
+  name: z.string().min(1, "Name is required"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3b82f6"),
+  defaultEntitlement: z.number().min(0, "Default entitlement cannot be negative"),
+  minNoticeDays: z.number().int().min(0, "Notice cannot be negative").nullish(),
+  maxConsecutiveDays: z.number().int().min(1, "Allow at least one day").nullish(),
+  attachmentRequiredAfterDays: z.number().int().min(0, "Days cannot be negative").nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// The key is fixed once a type exists, since requests and ledger entries refer to it
+export const updateLeaveTypeSchema = insertLeaveTypeSchema.omit({ key: true });
+
+export const insertHolidaySchema = createInsertSchema(holidays, {
+  calendar: z.string().min(1, "Calendar is required"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  name: z.string().min(1, "Name is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBlackoutPeriodSchema = createInsertSchema(blackoutPeriods, {
+  name: z.string().min(1, "Name is required"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format"),
+  teamId: z.string().min(1).nullish(),
+  leaveType: z.string().min(1).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+}).refine((data) => data.endDate >= data.startDate, {
   message: "End date must be after or equal to start date",
   path: ["endDate"],
 });
 
+export const insertAccrualPolicySchema = createInsertSchema(accrualPolicies, {
+  name: z.string().min(1, "Name is required"),
+  amount: z.number().positive("Amount must be greater than 0"),
+  payPeriodDays: z.number().int().positive("Pay period must be at least one day").nullish(),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective date must be in YYYY-MM-DD format"),
+}).omit({
+  id: true,
+  createdAt: true,
+}).refine((data) => data.frequency !== "pay_period" || !!data.payPeriodDays, {
+  message: "Pay period policies need a pay period length",
+  path: ["payPeriodDays"],
+});
+
+export const insertCarryOverRuleSchema = createInsertSchema(carryOverRules, {
+  maxDays: z.number().min(0, "Carry-over cap cannot be negative"),
+  expiryMonths: z.number().int().min(1, "Expiry must be at least one month").nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const approvalStepSchema = z.object({
+  approverRole: z.enum(["manager", "admin"]).nullish(),
+  approverId: z.string().min(1).nullish(),
+}).refine((step) => !!step.approverRole !== !!step.approverId, {
+  message: "Each step needs either an approver role or a named approver",
+});
+
+export const insertApprovalChainSchema = createInsertSchema(approvalChains, {
+  name: z.string().min(1, "Name is required"),
+  leaveType: z.string().min(1).nullish(),
+  minDays: z.number().min(0, "Minimum days cannot be negative").nullish(),
+  priority: z.number().int().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  steps: z.array(approvalStepSchema).min(1, "Add at least one approval step"),
+});
+
+export const insertTeamSchema = createInsertSchema(teams, {
+  name: z.string().min(1, "Name is required"),
+  parentId: z.string().min(1).nullish(),
+  leadId: z.string().min(1).nullish(),
+  minimumPresent: z.number().int().min(1, "At least one member must be present").nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAutoApprovalRuleSchema = createInsertSchema(autoApprovalRules, {
+  name: z.string().min(1, "Name is required"),
+  leaveType: z.string().min(1).nullish(),
+  maxDays: z.number().positive("Maximum days must be greater than 0").nullish(),
+  minNoticeDays: z.number().int().min(0, "Notice cannot be negative").nullish(),
+  maxTeamOnLeave: z.number().int().min(0, "Team limit cannot be negative").nullish(),
+  minTenureMonths: z.number().int().min(0, "Tenure cannot be negative").nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const approvalSlaSchema = z.object({
+  reminderHours: z.number().positive("Reminder hours must be greater than 0"),
+  escalationHours: z.number().positive("Escalation hours must be greater than 0"),
+}).refine((sla) => sla.escalationHours >= sla.reminderHours, {
+  message: "Escalation can't come before the reminder",
+  path: ["escalationHours"],
+});
+
+export const approveLeaveRequestSchema = z.object({
+  comment: z.string().trim().max(1000, "Comment is too long").optional(),
+});
+
+export const rejectLeaveRequestSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to reject a request").max(1000, "Reason is too long"),
+});
+
+const bulkLeaveRequestIdsSchema = z.array(z.string().min(1))
+  .min(1, "Select at least one request")
+  .max(100, "At most 100 requests can be decided at once");
+
+export const bulkApproveLeaveRequestsSchema = approveLeaveRequestSchema.extend({
+  ids: bulkLeaveRequestIdsSchema,
+});
+
+export const bulkRejectLeaveRequestsSchema = rejectLeaveRequestSchema.extend({
+  ids: bulkLeaveRequestIdsSchema,
+});
+
+export const cancelLeaveRequestSchema = z.object({
+  reason: z.string().trim().max(1000, "Reason is too long").optional(),
+});
+
+export const insertLeaveRequestCommentSchema = createInsertSchema(leaveRequestComments, {
+  body: z.string().trim().min(1, "Comment cannot be empty").max(2000, "Comment is too long"),
+}).omit({
+  id: true,
+  leaveRequestId: true,
+  authorId: true,
+  createdAt: true,
+});
+
+// The body of an upload is the file itself, so its name comes in the query string
+export const uploadAttachmentSchema = z.object({
+  fileName: z.string().trim().min(1, "File name is required").max(255, "File name is too long"),
+});
+
+export const insertApprovalDelegationSchema = createInsertSchema(approvalDelegations, {
+  delegateId: z.string().min(1, "Delegate is required"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format").nullish(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format").nullish(),
+}).omit({
+  id: true,
+  delegatorId: true,
+  createdAt: true,
+}).refine((data) => !data.startDate === !data.endDate, {
+  message: "Give both a start and an end date, or neither",
+  path: ["endDate"],
+}).refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+  message: "End date must be on or after start date",
+  path: ["endDate"],
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Role = (typeof roleEnum.enumValues)[number];
 export type InsertLeaveRequest = z.infer<typeof insertLeaveRequestSchema>;
+export type UpdateLeaveRequest = z.infer<typeof updateLeaveRequestSchema>;
+export type DayPortion = (typeof dayPortionEnum.enumValues)[number];
+export type LeaveRequestStatus = (typeof statusEnum.enumValues)[number];
+export type LeaveType = string;
+export type InsertLeaveType = z.infer<typeof insertLeaveTypeSchema>;
+export type LeaveTypeDefinition = typeof leaveTypes.$inferSelect;
+export type LeaveTransactionKind = (typeof leaveTransactionKindEnum.enumValues)[number];
+export type LeaveTransaction = typeof leaveTransactions.$inferSelect;
+export type InsertAccrualPolicy = z.infer<typeof insertAccrualPolicySchema>;
+export type AccrualPolicy = typeof accrualPolicies.$inferSelect;
+export type InsertCarryOverRule = z.infer<typeof insertCarryOverRuleSchema>;
+export type CarryOverRule = typeof carryOverRules.$inferSelect;
+export type InsertApprovalChain = z.infer<typeof insertApprovalChainSchema>;
+export type ApprovalChain = typeof approvalChains.$inferSelect;
+export type ApprovalChainStep = typeof approvalChainSteps.$inferSelect;
+export type LeaveRequestApproval = typeof leaveRequestApprovals.$inferSelect;
+export type InsertAutoApprovalRule = z.infer<typeof insertAutoApprovalRuleSchema>;
+export type AutoApprovalRule = typeof autoApprovalRules.$inferSelect;
+export type ApprovalSlaSettings = typeof approvalSlaSettings.$inferSelect;
+export type InsertLeaveRequestComment = z.infer<typeof insertLeaveRequestCommentSchema>;
+export type LeaveRequestComment = typeof leaveRequestComments.$inferSelect;
+export type LeaveRequestAttachment = typeof leaveRequestAttachments.$inferSelect;
+export type LeaveRequestEvent = typeof leaveRequestEvents.$inferSelect;
+export type InsertApprovalDelegation = z.infer<typeof insertApprovalDelegationSchema>;
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
 export type LeaveRequest = typeof leaveRequests.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type Team = typeof teams.$inferSelect;
+export type LeaveRecurrence = z.infer<typeof leaveRecurrenceSchema>;
+export type RecurrenceFrequency = (typeof recurrenceFrequencyEnum.enumValues)[number];
+export type CoverageEnforcement = (typeof coverageEnforcementEnum.enumValues)[number];
+export type LeaveRequestSeries = typeof leaveRequestSeries.$inferSelect;
+export type InsertBlackoutPeriod = z.infer<typeof insertBlackoutPeriodSchema>;
+export type BlackoutPeriod = typeof blackoutPeriods.$inferSelect;
+export type InsertHoliday = z.infer<typeof insertHolidaySchema>;
+export type Holiday = typeof holidays.$inferSelect;
@@ -0,0 +1,89 @@
+export type SlackNotificationType =
+  | "new_request"
+  | "approved"
+  | "rejected"
+  | "cancellation_requested"
+  | "approval_reminder"
+  | "approval_escalated";
+
+export interface SlackNotification {
+  type: SlackNotificationType;
+  employeeName: string;
+  startDate?: string;
+  endDate?: string;
+  leaveType?: string;
+  reason?: string;
+  days?: number;
+  remainingBalance?: number;
+  autoApprovalRule?: string;
+  recurrence?: string;
+  approverName?: string;
+  escalatedToName?: string;
+  ageHours?: number;
+}
+
+// The text and attachment colour of a notification, the same whether the
+// Express server or the Vercel functions post it
+export function describeSlackNotification(data: SlackNotification): { message: string; color: string } {
+  const {
+    type,
+    employeeName,
+    startDate,
+    endDate,
+    leaveType,
+    reason,
+    days,
+    remainingBalance,
+    autoApprovalRule,
+    recurrence,
+    approverName,
+    escalatedToName,
+    ageHours,
+  } = data;
+
+  let message = "";
+  let color = "#36a64f"; // green
+
+  switch (type) {
+    case "new_request":
+      message = `🗓️ *New Leave Request*\n\n*Employee:* ${employeeName}\n*Dates:* ${startDate} to ${endDate} (${days} days)\n*Type:* ${leaveType}\n*Reason:* ${reason}\n*Remaining Balance:* ${remainingBalance} days`;
+      if (recurrence) {
+        message += `\n*Repeats:* ${recurrence}`;
+      }
+      color = "#ffaa00"; // orange
+      break;
+
+    case "approved":
+      message = `✅ *Leave Request Approved*\n\n*Employee:* ${employeeName}\n*Dates:* ${startDate} to ${endDate} (${days} days)\n*Type:* ${leaveType}\n*Remaining Balance:* ${remainingBalance} days`;
+      if (autoApprovalRule) {
+        message += `\n_Approved automatically by the "${autoApprovalRule}" rule._`;
+      }
+      color = "#36a64f"; // green
+      break;
+
+    case "rejected":
+      message = `❌ *Leave Request Rejected*\n\n*Employee:* ${employeeName}\n*Dates:* ${startDate} to ${endDate} (${days} days)\n*Type:* ${leaveType}\n*Reason:* ${reason}\n*Balance Restored:* ${remainingBalance} days`;
+      color = "#ff0000"; // red
+      break;
+
+    case "cancellation_requested":
+      message = `↩️ *Leave Cancellation Requested*\n\n*Employee:* ${employeeName}\n*Dates:* ${startDate} to ${endDate} (${days} days)\n*Type:* ${leaveType}\n*Reason:* ${reason}\n_Needs approver sign-off before the days are refunded._`;
+      color = "#f59e0b"; // amber
+      break;
+
+    case "approval_reminder":
+      message = `⏰ *Leave Request Waiting*\n\n*Employee:* ${employeeName}\n*Waiting on:* ${approverName}\n*Pending for:* ${ageHours} hours`;
+      color = "#ffaa00"; // orange
+      break;
+
+    case "approval_escalated":
+      message = `⏫ *Leave Request Escalated*\n\n*Employee:* ${employeeName}\n*From:* ${approverName}\n*To:* ${escalatedToName}\n*Pending for:* ${ageHours} hours`;
+      color = "#ff0000"; // red
+      break;
+
+    default:
+      message = `📋 Leave request update for ${employeeName}`;
+  }
+
+  return { message, color };
+}
@@ -0,0 +1,84 @@
+import { asc, eq } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { teams, users, type InsertTeam, type Team } from "./schema";
+
+export async function getTeams(db: NeonHttpDatabase): Promise<Team[]> {
+  return db.select().from(teams).orderBy(asc(teams.name));
+}
+
+// The team and every team nested below it, at any depth
+export async function getTeamAndSubteamIds(db: NeonHttpDatabase, teamId: string): Promise<string[]> {
+  const rows = await db.select({ id: teams.id, parentId: teams.parentId }).from(teams);
+
+  const childrenByParent = new Map<string, string[]>();
+  for (const row of rows) {
+    if (row.parentId) {
+      childrenByParent.set(row.parentId, [...(childrenByParent.get(row.parentId) ?? []), row.id]);
+    }
+  }
+
+  const ids = new Set([teamId]);
+  const queue = [teamId];
+  while (queue.length > 0) {
+    for (const childId of childrenByParent.get(queue.shift()!) ?? []) {
+      if (!ids.has(childId)) {
+        ids.add(childId);
+        queue.push(childId);
+      }
+    }
+  }
+  return Array.from(ids);
+}
+
+// The team and every team above it, nearest first
+export async function getTeamAndAncestorIds(db: NeonHttpDatabase, teamId: string): Promise<string[]> {
+  const rows = await db.select({ id: teams.id, parentId: teams.parentId }).from(teams);
+  const parentOf = new Map(rows.map((row) => [row.id, row.parentId]));
+
+  const ids: string[] = [];
+  for (let id: string | null | undefined = teamId; id && !ids.includes(id); id = parentOf.get(id)) {
+    ids.push(id);
+  }
+  return ids;
+}
+
+// Why `data` can't be saved for team `teamId` (null for a new team), or null if it can
+export async function findInvalidTeamReference(
+  db: NeonHttpDatabase,
+  teamId: string | null,
+  data: InsertTeam
+): Promise<string | null> {
+  if (data.parentId) {
+    if (teamId && (await getTeamAndSubteamIds(db, teamId)).includes(data.parentId)) {
+      return "A team cannot be nested inside itself or one of its sub-teams";
+    }
+    const [parent] = await db.select({ id: teams.id }).from(teams).where(eq(teams.id, data.parentId)).limit(1);
+    if (!parent) {
+      return "Parent team not found";
+    }
+  }
+  if (data.leadId) {
+    const [lead] = await db.select({ id: users.id }).from(users).where(eq(users.id, data.leadId)).limit(1);
+    if (!lead) {
+      return "Team lead not found";
+    }
+  }
+  return null;
+}
+
+// Members see their own team's leave, and leads the leave of the team they lead
+export async function canViewTeamLeave(
+  db: NeonHttpDatabase,
+  user: { id: string; teamId: string | null },
+  teamId: string
+): Promise<boolean> {
+  if (user.teamId === teamId) {
+    return true;
+  }
+  const [team] = await db
+    .select({ leadId: teams.leadId })
+    .from(teams)
+    .where(eq(teams.id, teamId))
+    .limit(1);
+  return team?.leadId === user.id;
+}